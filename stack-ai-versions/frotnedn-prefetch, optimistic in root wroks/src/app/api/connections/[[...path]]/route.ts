@@ -0,0 +1,7 @@
+import { proxyRequest } from "@/lib/api/proxy";
+
+// Proxies /connections, /connections/info and resource listings/search to the backend (see lib/api/proxy.ts)
+
+export const dynamic = "force-dynamic";
+
+export { proxyRequest as GET, proxyRequest as POST, proxyRequest as PUT, proxyRequest as PATCH, proxyRequest as DELETE };
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { listKBResourcesSafe } from "@/lib/api/knowledgeBase";
+import { AuthError } from "@/lib/api/errors";
+import { GET } from "./route";
+
+vi.mock("@/lib/api/knowledgeBase", () => ({
+  listKBResourcesSafe: vi.fn(),
+}));
+
+// Everything the stream sends until it ends, or until the first pass is done (the client then goes away)
+async function readFirstPass(headers: Record<string, string> = {}): Promise<string> {
+  const controller = new AbortController();
+  const request = new Request("http://app.test/api/dev/knowledge-bases/kb-1/status/stream", { headers, signal: controller.signal });
+  const response = await GET(request, { params: Promise.resolve({ kbId: "kb-1" }) });
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+
+  let body = "";
+  while (!body.includes("event: snapshot")) {
+    const { done, value } = await reader.read();
+    if (done) return body;
+    body += decoder.decode(value);
+  }
+  controller.abort();
+  await reader.cancel();
+  return body;
+}
+
+describe("GET /api/dev/knowledge-bases/[kbId]/status/stream", () => {
+  beforeEach(() => {
+    vi.stubEnv("NODE_ENV", "development");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("reads the KB with the caller's session", async () => {
+    vi.mocked(listKBResourcesSafe).mockResolvedValue({ data: [] });
+
+    await readFirstPass({ cookie: "session=abc", authorization: "Bearer user-token", "x-other": "1" });
+
+    expect(listKBResourcesSafe).toHaveBeenCalledWith(
+      "kb-1",
+      "/",
+      expect.objectContaining({ headers: { cookie: "session=abc", authorization: "Bearer user-token" } })
+    );
+  });
+
+  it("sends the changed statuses, then a snapshot event once the pass is done", async () => {
+    vi.mocked(listKBResourcesSafe).mockResolvedValue({ data: [] });
+
+    const body = await readFirstPass({ cookie: "session=abc" });
+
+    expect(body).toContain(`event: status\ndata: {"resource_path":"/","data":[]}\n\nevent: snapshot\ndata: {}\n\n`);
+  });
+
+  it("reports the stream unavailable and ends it when a pass fails", async () => {
+    vi.mocked(listKBResourcesSafe).mockRejectedValue(new AuthError("Not authenticated", 401, "/knowledge-bases/kb-1/resources"));
+
+    const body = await readFirstPass();
+
+    expect(body).toContain(`event: unavailable\ndata: {"message":"Not authenticated"}\n\n`);
+    expect(body).not.toContain("event: snapshot");
+    expect(listKBResourcesSafe).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,109 @@
+import { listKBResourcesSafe } from "@/lib/api/knowledgeBase";
+import { fetchAllPages } from "@/lib/api/pagination";
+import type { KBStatusEvent } from "@/lib/types/knowledgeBase";
+
+// Development stand-in for the backend's KB status stream.
+// Polls the backend once per interval for the whole KB tree (instead of once per open folder per
+// client), on behalf of the caller's own session. Pushes a "status" event for every path whose
+// statuses changed and a "snapshot" event after every full pass; if a pass fails it sends
+// "unavailable" and ends the stream, so the client goes back to polling.
+// Enable with NEXT_PUBLIC_KB_STATUS_STREAM_URL=/api/dev
+
+export const dynamic = "force-dynamic";
+
+const SNAPSHOT_INTERVAL = 2000; // 2 seconds
+
+// The caller's session, passed on to every backend request
+const SESSION_HEADERS = ["authorization", "cookie"];
+
+function getSessionHeaders(request: Request): Record<string, string> {
+  const headers: Record<string, string> = {};
+  SESSION_HEADERS.forEach((name) => {
+    const value = request.headers.get(name);
+    if (value) headers[name] = value;
+  });
+  return headers;
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+export async function GET(request: Request, { params }: { params: Promise<{ kbId: string }> }) {
+  if (process.env.NODE_ENV !== "development") {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const { kbId } = await params;
+  const { signal } = request;
+  const headers = getSessionHeaders(request);
+  const encoder = new TextEncoder();
+  const lastSnapshots = new Map<string, string>(); // resource_path -> serialized statuses
+  let isCancelled = false; // The reader went away without aborting the request
+  const isOpen = () => !signal.aborted && !isCancelled;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: string) => {
+        if (isOpen()) controller.enqueue(encoder.encode(chunk));
+      };
+
+      // Emit changed paths, then walk into indexed folders
+      const collect = async (resourcePath: string): Promise<void> => {
+        const response = await fetchAllPages((cursor) => listKBResourcesSafe(kbId, resourcePath, { signal, cursor, headers }));
+        if (!response || signal.aborted) return;
+
+        const serialized = JSON.stringify(response.data.map((resource) => [resource.id, resource.status]));
+        if (lastSnapshots.get(resourcePath) !== serialized) {
+          lastSnapshots.set(resourcePath, serialized);
+          const event: KBStatusEvent = { resource_path: resourcePath, data: response.data };
+          send(`event: status\ndata: ${JSON.stringify(event)}\n\n`);
+        }
+
+        for (const folder of response.data.filter((resource) => resource.type === "directory")) {
+          await collect(`/${folder.name}`);
+        }
+      };
+
+      send("retry: 3000\n\n");
+
+      while (isOpen()) {
+        try {
+          await collect("/");
+          send(`event: snapshot\ndata: {}\n\n`);
+        } catch (error) {
+          if (!isOpen()) break;
+          console.error(`❌ [StatusStream] Snapshot failed for KB ${kbId}:`, error);
+          const message = error instanceof Error ? error.message : "Snapshot failed";
+          send(`event: unavailable\ndata: ${JSON.stringify({ message })}\n\n`);
+          break;
+        }
+        await sleep(SNAPSHOT_INTERVAL, signal);
+      }
+
+      // A stream the client aborted or cancelled is already closed
+      if (isOpen()) controller.close();
+    },
+    cancel() {
+      isCancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
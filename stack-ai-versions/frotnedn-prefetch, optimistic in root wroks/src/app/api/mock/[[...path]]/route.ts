@@ -0,0 +1,20 @@
+import { handleMockRequest } from "@/lib/mock/mockBackend";
+
+// Local stand-in for the backend (see lib/mock/mockBackend.ts), so the app runs without a live API.
+// Enable with NEXT_PUBLIC_API_BASE_URL=http://localhost:3000/api/mock; outside development it also
+// needs MOCK_API_ENABLED=true (e.g. for test runs against `next start`)
+
+export const dynamic = "force-dynamic";
+
+const MOCK_PREFIX = "/api/mock";
+
+async function handler(request: Request): Promise<Response> {
+  if (process.env.NODE_ENV !== "development" && process.env.MOCK_API_ENABLED !== "true") {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const { pathname } = new URL(request.url);
+  return handleMockRequest(request, pathname.slice(MOCK_PREFIX.length) || "/");
+}
+
+export { handler as GET, handler as POST, handler as PUT, handler as PATCH, handler as DELETE };
@@ -7,7 +7,7 @@ const inter = Inter({ subsets: ["latin"] });
 
 export const metadata: Metadata = {
   title: "Stack AI File Picker",
-  description: "Google Drive file picker for Knowledge Base",
+  description: "File picker for Knowledge Base, across your connected sources",
 };
 
 export default function RootLayout({ children }: { children: React.ReactNode }) {
@@ -0,0 +1,15 @@
+"use client";
+
+import { Suspense } from "react";
+import { LoginForm } from "@/components/auth/LoginForm";
+
+export default function LoginPage() {
+  return (
+    <main className="flex min-h-screen items-center justify-center bg-gray-50 p-6">
+      {/* LoginForm reads the redirect target from the search params */}
+      <Suspense>
+        <LoginForm />
+      </Suspense>
+    </main>
+  );
+}
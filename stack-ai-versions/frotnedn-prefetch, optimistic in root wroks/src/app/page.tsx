@@ -1,14 +1,24 @@
 "use client";
 
+import { Suspense, useEffect } from "react";
+import { useRouter } from "next/navigation";
 import { useAuth } from "@/hooks/useAuth";
 import { FilePicker } from "@/components/file-picker/FilePicker";
 import { Skeleton } from "@/components/ui/skeleton";
+import { getLoginUrl } from "@/lib/utils/urlState";
 
 export default function Home() {
+  const router = useRouter();
   const { isAuthenticated, isLoading } = useAuth();
 
-  // Show loading state while authenticating
-  if (isLoading) {
+  // Signed out or session expired: sign in, then come back to the same view (KB, folders, filter, sort)
+  useEffect(() => {
+    if (isLoading || isAuthenticated) return;
+    router.replace(getLoginUrl(`${window.location.pathname}${window.location.search}`));
+  }, [isLoading, isAuthenticated, router]);
+
+  // Show loading state while checking the session or redirecting to login
+  if (isLoading || !isAuthenticated) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="space-y-4 w-full max-w-6xl p-6">
@@ -19,21 +29,12 @@ export default function Home() {
     );
   }
 
-  // Show error if not authenticated
-  if (!isAuthenticated) {
-    return (
-      <div className="flex items-center justify-center min-h-screen">
-        <div className="text-center">
-          <h2 className="text-2xl font-semibold">Authentication Failed</h2>
-          <p className="text-gray-600 mt-2">Please check your credentials</p>
-        </div>
-      </div>
-    );
-  }
-
   return (
     <main className="min-h-screen bg-gray-50">
-      <FilePicker />
+      {/* FilePicker reads its navigation state from the search params */}
+      <Suspense>
+        <FilePicker />
+      </Suspense>
     </main>
   );
 }
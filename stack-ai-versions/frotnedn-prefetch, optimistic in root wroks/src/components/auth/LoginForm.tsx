@@ -0,0 +1,85 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { REDIRECT_PARAM, getSafeRedirect } from "@/lib/utils/urlState";
+
+// Sign-in form; goes back to the page that sent the user here (?redirect=) once signed in
+export function LoginForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const redirectTo = getSafeRedirect(searchParams.get(REDIRECT_PARAM));
+  const { isAuthenticated, isLoading, login, isLoggingIn, loginError } = useAuth();
+
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+
+  // Already signed in (or just signed in): nothing to do here
+  useEffect(() => {
+    if (isAuthenticated) router.replace(redirectTo);
+  }, [isAuthenticated, redirectTo, router]);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    try {
+      await login({ email: email.trim(), password });
+    } catch (error) {
+      console.error("❌ [Auth] Sign in failed:", error); // Shown through loginError
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full max-w-sm space-y-4 rounded-lg border bg-white p-6 shadow-sm" aria-busy={isLoggingIn}>
+      <div>
+        <h1 className="text-2xl font-bold">Sign in</h1>
+        <p className="mt-1 text-sm text-gray-600">Use your Stack AI account to pick files from your connected sources.</p>
+      </div>
+
+      <div className="space-y-1">
+        <label htmlFor="login-email" className="text-sm font-medium">
+          Email
+        </label>
+        <Input
+          id="login-email"
+          type="email"
+          autoComplete="email"
+          required
+          autoFocus
+          value={email}
+          onChange={(event) => setEmail(event.target.value)}
+          aria-invalid={!!loginError}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <label htmlFor="login-password" className="text-sm font-medium">
+          Password
+        </label>
+        <Input
+          id="login-password"
+          type="password"
+          autoComplete="current-password"
+          required
+          value={password}
+          onChange={(event) => setPassword(event.target.value)}
+          aria-invalid={!!loginError}
+        />
+      </div>
+
+      {loginError && (
+        <p role="alert" className="text-sm text-red-600">
+          {loginError}
+        </p>
+      )}
+
+      <Button type="submit" className="w-full" disabled={isLoggingIn || isLoading || !email.trim() || !password}>
+        {isLoggingIn && <Loader2 className="h-4 w-4 animate-spin" />}
+        {isLoggingIn ? "Signing in..." : "Sign in"}
+      </Button>
+    </form>
+  );
+}
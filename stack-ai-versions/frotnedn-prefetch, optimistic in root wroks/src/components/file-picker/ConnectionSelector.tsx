@@ -0,0 +1,46 @@
+import { Check, ChevronDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import type { Connection } from "@/lib/types/connection";
+import { PROVIDER_DETAILS } from "@/lib/utils/connections";
+import { ProviderIcon } from "./ProviderIcon";
+
+interface ConnectionSelectorProps {
+  connections: Connection[];
+  currentConnection: Connection | null;
+  onSelect: (connectionId: string) => void;
+  disabled?: boolean; // e.g. while a KB is syncing
+}
+
+// Which source the table shows: Google Drive, OneDrive, Notion or local uploads
+export function ConnectionSelector({ connections, currentConnection, onSelect, disabled = false }: ConnectionSelectorProps) {
+  if (!currentConnection) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled || connections.length < 2} aria-label={`Source: ${currentConnection.name}`}>
+          <ProviderIcon provider={currentConnection.connection_provider} className="h-4 w-4" />
+          <span className="max-w-48 truncate">{currentConnection.name}</span>
+          {connections.length > 1 && <ChevronDown className="h-4 w-4 text-gray-500" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-64 bg-white">
+        <DropdownMenuLabel>Sources</DropdownMenuLabel>
+        {connections.map((connection) => {
+          const isCurrent = connection.connection_id === currentConnection.connection_id;
+          return (
+            <DropdownMenuItem key={connection.connection_id} onSelect={() => onSelect(connection.connection_id)} aria-current={isCurrent ? "true" : undefined}>
+              <ProviderIcon provider={connection.connection_provider} className="h-4 w-4" />
+              <span className="flex min-w-0 flex-1 flex-col">
+                <span className="truncate">{connection.name}</span>
+                <span className="text-xs text-gray-500">{PROVIDER_DETAILS[connection.connection_provider].label}</span>
+              </span>
+              {isCurrent && <Check className="h-4 w-4" />}
+            </DropdownMenuItem>
+          );
+        })}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,39 @@
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface DeleteKnowledgeBaseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  kbName: string;
+  onConfirm: () => void;
+}
+
+export function DeleteKnowledgeBaseDialog({ open, onOpenChange, kbName, onConfirm }: DeleteKnowledgeBaseDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Delete knowledge base?</DialogTitle>
+          <DialogDescription>
+            &quot;{kbName}&quot; and its indexed files will be removed. The files in your connected sources are not affected. This can&apos;t be undone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => {
+              onConfirm();
+              onOpenChange(false);
+            }}
+          >
+            Delete
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
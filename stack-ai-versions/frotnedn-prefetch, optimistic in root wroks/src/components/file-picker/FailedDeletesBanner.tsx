@@ -0,0 +1,47 @@
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { DeleteRequest } from "@/lib/types/deleteQueue";
+
+interface FailedDeletesBannerProps {
+  failedDeletes: DeleteRequest[];
+  onRetry: (requestIds?: string[]) => void;
+  onDismiss: (requestId: string) => void;
+}
+
+// Deletes that ran out of retries; they stay hidden in the table until retried or dismissed
+export function FailedDeletesBanner({ failedDeletes, onRetry, onDismiss }: FailedDeletesBannerProps) {
+  if (failedDeletes.length === 0) return null;
+
+  return (
+    <div className="mt-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 font-medium text-red-700">
+          <AlertTriangle className="h-4 w-4" />
+          {failedDeletes.length} file{failedDeletes.length === 1 ? "" : "s"} couldn&apos;t be removed from the knowledge base
+        </div>
+        <Button variant="outline" size="sm" onClick={() => onRetry()}>
+          Retry all
+        </Button>
+      </div>
+
+      <ul className="mt-2 space-y-1">
+        {failedDeletes.map((request) => (
+          <li key={request.id} className="flex items-center justify-between gap-2 text-gray-700">
+            <span className="truncate" title={request.lastError}>
+              {request.fileName}
+              {request.lastError && <span className="ml-2 text-xs text-gray-500">{request.lastError}</span>}
+            </span>
+            <div className="flex flex-shrink-0 gap-1">
+              <Button variant="ghost" size="sm" onClick={() => onRetry([request.id])}>
+                Retry
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => onDismiss(request.id)}>
+                Dismiss
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,12 +1,13 @@
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { ChevronDown, ChevronRight, Folder, File, FolderOpen } from "lucide-react";
+import { ChevronDown, ChevronRight, ExternalLink, Folder, File, FileText, FolderOpen } from "lucide-react";
 import { FileItem } from "@/lib/types/file";
 import { useRef, useEffect } from "react";
 
 interface FileNameCellProps {
   file: FileItem;
   isFiltering: boolean | string;
+  flat?: boolean; // Breadcrumb mode: one folder's contents, no indentation
   toggleFolder?: (folderId: string) => void;
   // Prefetch functions
   startPrefetch?: (folderId: string, delay?: number) => void;
@@ -18,6 +19,7 @@ interface FileNameCellProps {
 export function FileNameCell({ 
   file, 
   isFiltering, 
+  flat = false,
   toggleFolder,
   startPrefetch,
   stopPrefetch,
@@ -61,7 +63,7 @@ export function FileNameCell({
     <div 
       ref={folderRef}
       className="flex items-center space-x-1" 
-      style={{ paddingLeft: isFiltering ? "0px" : `${level * 20}px` }}
+      style={{ paddingLeft: isFiltering || flat ? "0px" : `${level * 20}px` }}
     >
       {/* Expand/Collapse Button - Fixed size container */}
       {!isFiltering && isDirectory && (
@@ -70,6 +72,8 @@ export function FileNameCell({
             variant="ghost"
             size="sm"
             className="h-4 w-4 p-0 hover:bg-gray-100 flex items-center justify-center"
+            tabIndex={-1} // The row handles the keyboard (arrow keys, Enter)
+            aria-label={`${isExpanded ? "Collapse" : "Expand"} ${file.name.split("/").pop()}`}
             onClick={(e) => {
               e.stopPropagation();
               toggleFolder?.(file.id);
@@ -98,6 +102,8 @@ export function FileNameCell({
           ) : (
             <Folder className={`h-4 w-4 ${isPrefetchingFolder ? 'text-blue-400' : 'text-blue-500'}`} />
           )
+        ) : file.provider === "notion" ? (
+          <FileText className="h-4 w-4 text-gray-500" />
         ) : (
           <File className="h-4 w-4 text-gray-500" />
         )}
@@ -118,6 +124,21 @@ export function FileNameCell({
           {isFiltering ? truncatePath(file.name) : file.name.split("/").pop()}
         </span>
       )}
+
+      {/* Open in the source (Notion page, OneDrive file...); doesn't select or toggle the row */}
+      {file.web_url && !isLoading && (
+        <a
+          href={file.web_url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex-shrink-0 text-gray-400 hover:text-blue-600"
+          tabIndex={-1}
+          aria-label={`Open ${file.name.split("/").pop()} in a new tab`}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <ExternalLink className="h-3.5 w-3.5" />
+        </a>
+      )}
     </div>
   );
 }
@@ -1,20 +1,40 @@
 "use client";
 
+import { useCallback, useMemo } from "react";
+import { toast } from "react-toastify";
+import { LogOut } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useConnections } from "@/hooks/useConnections";
 import { useFileTree } from "@/hooks/useFileTree";
 import { useKnowledgeBaseOperations } from "@/hooks/useKnowledgeBaseOperations";
+import { useUrlSync } from "@/hooks/useUrlSync";
+import { URL_PARAMS, getLeafFolderPaths } from "@/lib/utils/urlState";
+import { Button } from "@/components/ui/button";
+import { ConnectionSelector } from "./ConnectionSelector";
 import { FilePickerTable } from "./FilePickerTable";
+import { KnowledgeBaseSwitcher } from "./KnowledgeBaseSwitcher";
+import { FailedDeletesBanner } from "./FailedDeletesBanner";
 
 // FilePicker with optimistic UI updates
 // - KB creation: Shows files as "indexed" immediately, no loaders
 // - File deletion: Shows files as "-" immediately, no loaders
 // - Background API calls happen seamlessly
 export function FilePicker() {
+  const { logout, isLoggingOut } = useAuth();
+  const { connections, currentConnection, isLoadingConnections, switchConnection } = useConnections();
   const {
     currentKB,
     hasKB,
+    knowledgeBases,
+    isLoadingKnowledgeBases,
+    switchKnowledgeBase,
+    renameKnowledgeBase,
+    deleteKnowledgeBasePermanently,
     isCreating,
     createKnowledgeBaseWithFiles,
     createNewKB,
+    isAdding,
+    addFilesToKnowledgeBase,
     statusMap,
     statusCounts,
     allFilesSettled,
@@ -33,19 +53,114 @@ export function FilePicker() {
     queueHasItems,
     queueCount,
     queueProcessing,
+    failedDeletes,
+    retryFailedDeletes,
+    dismissFailedDelete,
   } = useKnowledgeBaseOperations();
 
-  const { files, isLoading, error, toggleFolder, collapseAllFolders, startPrefetch, stopPrefetch, registerFolder, isPrefetching } = useFileTree({
+  const {
+    files,
+    isLoading,
+    error,
+    toggleFolder,
+    expandedFolders,
+    restoreExpandedFolders,
+    expandedFolderPaths,
+    expandFolderPaths,
+    collapseAllFolders,
+    loadMoreFolderContents,
+    hasMoreRoot,
+    isLoadingMoreRoot,
+    searchScope,
+    setSearchScope,
+    searchQuery,
+    setSearchQuery,
+    isSearchFetching,
+    startPrefetch,
+    stopPrefetch,
+    registerFolder,
+    isPrefetching,
+    viewMode,
+    setViewMode,
+    breadcrumbTrail,
+    openFolder,
+    navigateToBreadcrumb,
+    watchFolderStatus,
+  } = useFileTree({
     kbId: currentKB?.id || null,
     statusMap,
     isCreatingKB: isCreating,
   });
 
+  // Folders, breadcrumbs and search hits all belong to the previous source
+  const handleConnectionChange = useCallback(
+    (connectionId: string) => {
+      if (connectionId === currentConnection?.connection_id) return;
+      if (switchConnection(connectionId)) {
+        collapseAllFolders();
+        navigateToBreadcrumb(-1);
+        setSearchQuery("");
+      }
+    },
+    [currentConnection, switchConnection, collapseAllFolders, navigateToBreadcrumb, setSearchQuery]
+  );
+
+  const { isSynced: isConnectionSynced } = useUrlSync({
+    param: URL_PARAMS.connection,
+    stateValue: currentConnection?.connection_id || "",
+    ready: !isLoadingConnections,
+    applyToState: (connectionId) => {
+      if (!connectionId) return; // No source in the URL: keep the current one
+      if (!connections.some((connection) => connection.connection_id === connectionId)) {
+        toast.warning("The source in this link isn't connected.", {
+          autoClose: 5000,
+          toastId: 'url-connection-missing'
+        });
+        return;
+      }
+      handleConnectionChange(connectionId);
+    },
+  });
+
+  // The current KB and open folders live in the URL, so links can be shared and back/forward works.
+  // Optimistic KBs stay out of it until they have their real id
+  const kbIdForUrl = currentKB && !currentKB.id.startsWith("temp-") ? currentKB.id : "";
+  const { isSynced: isKBSynced } = useUrlSync({
+    param: URL_PARAMS.kb,
+    stateValue: kbIdForUrl,
+    ready: !isLoadingKnowledgeBases,
+    applyToState: (kbId) => {
+      if (!kbId) return; // No KB in the URL: keep the current one
+      if (!knowledgeBases.some((kb) => kb.id === kbId)) {
+        toast.warning("The knowledge base in this link wasn't found.", {
+          autoClose: 5000,
+          toastId: 'url-kb-missing'
+        });
+        return;
+      }
+      if (switchKnowledgeBase(kbId)) {
+        collapseAllFolders();
+      }
+    },
+  });
+
+  // Folders are opened once the linked source and KB are active, so they get the right listing and statuses
+  const openFolderPaths = useMemo(() => getLeafFolderPaths(expandedFolderPaths).join("\n"), [expandedFolderPaths]);
+  useUrlSync({
+    param: URL_PARAMS.folder,
+    stateValue: openFolderPaths,
+    fromParam: (params) => getLeafFolderPaths(params.getAll(URL_PARAMS.folder)).join("\n"),
+    toParam: (value) => value.split("\n").filter(Boolean),
+    ready: !isLoading && isConnectionSynced && isKBSynced,
+    applyToState: (value) => expandFolderPaths(value.split("\n").filter(Boolean)),
+  });
+
   // Show error if any
   if (error) {
     return (
       <div className="p-6">
         <h2 className="text-xl text-red-600">Error loading files</h2>
+        <p className="mt-2 text-sm text-gray-700">{error.message}</p>
         <pre className="mt-2">{JSON.stringify(error, null, 2)}</pre>
       </div>
     );
@@ -54,25 +169,70 @@ export function FilePicker() {
   return (
     <div className="h-screen flex flex-col">
       <div className="flex-shrink-0 p-4 pb-2">
-        <h1 className="text-2xl font-bold mb-2">Google Drive File Picker</h1>
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex flex-wrap items-center gap-3 mb-2">
+            <h1 className="text-2xl font-bold">File Picker</h1>
+            <ConnectionSelector
+              connections={connections}
+              currentConnection={currentConnection}
+              onSelect={handleConnectionChange}
+              disabled={isSyncPending || isCreating || isAdding}
+            />
+          </div>
+          <Button variant="ghost" size="sm" onClick={logout} disabled={isLoggingOut}>
+            <LogOut className="h-4 w-4" />
+            Sign out
+          </Button>
+        </div>
+        {currentKB && <p className="text-sm text-gray-600">Knowledge base: {currentKB.name}</p>}
 
         {/* Sync State Indicator */}
+
+        <FailedDeletesBanner failedDeletes={failedDeletes} onRetry={retryFailedDeletes} onDismiss={dismissFailedDelete} />
       </div>
 
-      <div className="flex-1 min-h-0 p-4">
+      <div className="flex-1 min-h-0 flex gap-4 p-4">
+        <KnowledgeBaseSwitcher
+          knowledgeBases={knowledgeBases}
+          currentKBId={currentKB?.id || null}
+          onSelect={(kbId) => {
+            switchKnowledgeBase(kbId);
+            // Expanded folders hold the previous KB's statuses
+            collapseAllFolders();
+          }}
+          onCreateNew={() => {
+            createNewKB();
+            collapseAllFolders();
+          }}
+          onRename={renameKnowledgeBase}
+          onDelete={(kbId) => {
+            if (kbId === currentKB?.id) {
+              collapseAllFolders();
+            }
+            deleteKnowledgeBasePermanently(kbId);
+          }}
+          disabled={isSyncPending || isCreating || isAdding}
+        />
+
+        <div className="flex-1 min-w-0 min-h-0">
         <FilePickerTable
           files={files}
           isLoading={isLoading}
-          toggleFolder={toggleFolder}
-          onCreateKB={(resourceIds, files) => {
-            createKnowledgeBaseWithFiles(resourceIds, files);
+          toggleFolder={viewMode === "breadcrumb" ? openFolder : toggleFolder}
+          onCreateKB={(resourceIds, files, details) => {
+            createKnowledgeBaseWithFiles(resourceIds, files, details);
           }}
           onCreateNewKB={createNewKB}
-          onDeleteFiles={(selectedIds) => {
-            deleteSelectedFiles(selectedIds, files);
+          onAddFiles={(resourceIds, selectionFiles) => {
+            addFilesToKnowledgeBase(resourceIds, selectionFiles, watchFolderStatus);
+          }}
+          onDeleteFiles={(selectedIds, selectionFiles) => {
+            deleteSelectedFiles(selectedIds, selectionFiles);
           }}
           hasKB={hasKB}
           isCreatingKB={isCreating}
+          isAddingToKB={isAdding}
+          isSyncPending={isSyncPending}
           isDeletingKB={isDeleting}
           isActuallyDeleting={isActuallyDeleting}
           statusMap={statusMap}
@@ -85,7 +245,26 @@ export function FilePicker() {
           stopPrefetch={stopPrefetch}
           registerFolder={registerFolder}
           isPrefetching={isPrefetching}
+          // Cursor pagination
+          onLoadMore={loadMoreFolderContents}
+          hasMoreRoot={hasMoreRoot}
+          isLoadingMoreRoot={isLoadingMoreRoot}
+          // Drive-wide search
+          searchScope={searchScope}
+          onSearchScopeChange={setSearchScope}
+          remoteSearchQuery={searchQuery}
+          onRemoteSearchChange={setSearchQuery}
+          isSearchingDrive={isSearchFetching}
+          expandedFolderIds={Array.from(expandedFolders)}
+          onRestoreExpandedFolders={restoreExpandedFolders}
+          // Tree or breadcrumb navigation
+          viewMode={viewMode}
+          onViewModeChange={setViewMode}
+          breadcrumbTrail={breadcrumbTrail}
+          onNavigateBreadcrumb={navigateToBreadcrumb}
+          provider={currentConnection?.connection_provider}
         />
+        </div>
       </div>
     </div>
   );
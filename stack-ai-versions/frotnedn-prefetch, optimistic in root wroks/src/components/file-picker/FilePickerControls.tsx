@@ -1,19 +1,40 @@
+import { useState, type ReactNode } from "react";
+import { FolderTree, Globe, Rows3 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { FileItem } from "@/lib/types/file";
+import { FileItem, FolderViewMode, SearchScope } from "@/lib/types/file";
+import { KBDetails } from "@/lib/types/knowledgeBase";
+import { getDefaultKBDetails } from "@/lib/utils/knowledgeBase";
+import type { FileQueryError, FileQueryToken } from "@/lib/utils/fileQuery";
+import { KnowledgeBaseDetailsDialog } from "./KnowledgeBaseDetailsDialog";
+import { FileQueryInput } from "./FileQueryInput";
 
 interface FilePickerControlsProps {
   searchValue: string;
   onSearchChange: (value: string) => void;
+  queryTokens?: FileQueryToken[];
+  queryErrors?: FileQueryError[];
+  searchScope?: SearchScope;
+  onSearchScopeChange?: (scope: SearchScope) => void;
+  isSearchingDrive?: boolean;
+  sourceLabel?: string; // Where "Search" looks, e.g. "Google Drive"
+  viewMode?: FolderViewMode;
+  onViewModeChange?: (mode: FolderViewMode) => void;
+  savedViewsMenu?: ReactNode;
   filteredCount: number;
   selectedFiles: FileItem[];
   selectedResourceIds: string[];
+  deletableResourceIds: string[];
+  addableResourceIds: string[];
   hasKB: boolean | undefined;
   isCreatingKB: boolean | undefined;
+  isAddingToKB?: boolean;
+  isSyncPending?: boolean;
   isDeletingKB: boolean | undefined;
   isActuallyDeleting?: boolean; // New prop to distinguish actual API calls from optimistic updates
-  onCreateKB?: (resourceIds: string[], files: FileItem[]) => void;
+  onCreateKB?: (resourceIds: string[], files: FileItem[], details: KBDetails) => void;
   onCreateNewKB?: () => void;
+  onAddFiles?: (resourceIds: string[]) => void;
   onDeleteFiles?: (selectedIds: string[]) => void;
   allFiles: FileItem[];
 }
@@ -21,29 +42,107 @@ interface FilePickerControlsProps {
 export function FilePickerControls({
   searchValue,
   onSearchChange,
+  queryTokens = [],
+  queryErrors = [],
+  searchScope = "loaded",
+  onSearchScopeChange,
+  isSearchingDrive = false,
+  sourceLabel = "Drive",
+  viewMode = "tree",
+  onViewModeChange,
+  savedViewsMenu,
   filteredCount,
   selectedFiles,
   selectedResourceIds,
+  deletableResourceIds,
+  addableResourceIds,
   hasKB,
   isCreatingKB,
+  isAddingToKB = false,
+  isSyncPending = false,
   isDeletingKB,
   isActuallyDeleting = false,
   onCreateKB,
   onCreateNewKB,
+  onAddFiles,
   onDeleteFiles,
   allFiles,
 }: FilePickerControlsProps) {
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [defaultDetails, setDefaultDetails] = useState<KBDetails>(() => getDefaultKBDetails(sourceLabel));
+
+  const openCreateDialog = () => {
+    setDefaultDetails(getDefaultKBDetails(sourceLabel));
+    setIsCreateDialogOpen(true);
+  };
+
   return (
     <div className="flex flex-col gap-4 flex-shrink-0">
       {/* Search Section - Full Width */}
       <div className="flex items-center space-x-2 w-full">
-        <Input
-          placeholder="Filter by name or status (indexed, pending, etc.)"
-          value={searchValue}
-          onChange={(event) => onSearchChange(event.target.value)}
-          className="w-full border-gray-300 focus:border-blue-500 focus:ring-blue-500"
-        />
-        {searchValue && <span className="text-sm text-gray-500 whitespace-nowrap">Showing {filteredCount} filtered results</span>}
+        {searchScope === "drive" ? (
+          <Input
+            placeholder={`Search all of ${sourceLabel} by name or content`}
+            value={searchValue}
+            onChange={(event) => onSearchChange(event.target.value)}
+            className="w-full border-gray-300 focus:border-blue-500 focus:ring-blue-500"
+          />
+        ) : (
+          <FileQueryInput
+            placeholder="Filter by name or status, or query: status:failed type:pdf size>5MB path:/Reports/*"
+            value={searchValue}
+            onChange={onSearchChange}
+            tokens={queryTokens}
+            errors={queryErrors}
+          />
+        )}
+        {onSearchScopeChange && (
+          <Button
+            variant={searchScope === "drive" ? "default" : "outline"}
+            size="sm"
+            onClick={() => onSearchScopeChange(searchScope === "drive" ? "loaded" : "drive")}
+            title="Search files inside folders that aren't expanded"
+            aria-pressed={searchScope === "drive"}
+            className="whitespace-nowrap"
+          >
+            <Globe className="h-4 w-4" />
+            Search {sourceLabel}
+          </Button>
+        )}
+        {onViewModeChange && (
+          <div className="flex flex-shrink-0 rounded-md border border-gray-300" role="group" aria-label="Folder view">
+            <Button
+              variant={viewMode === "tree" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => onViewModeChange("tree")}
+              aria-pressed={viewMode === "tree"}
+              title="Expand folders inline"
+            >
+              <FolderTree className="h-4 w-4" />
+              Tree
+            </Button>
+            <Button
+              variant={viewMode === "breadcrumb" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => onViewModeChange("breadcrumb")}
+              aria-pressed={viewMode === "breadcrumb"}
+              title="Open one folder at a time"
+            >
+              <Rows3 className="h-4 w-4" />
+              Folders
+            </Button>
+          </div>
+        )}
+        {savedViewsMenu}
+        {searchValue && (
+          <span className="text-sm text-gray-500 whitespace-nowrap">
+            {searchScope === "drive"
+              ? isSearchingDrive
+                ? `Searching ${sourceLabel}...`
+                : `${filteredCount} matches in ${sourceLabel}`
+              : `Showing ${filteredCount} filtered results`}
+          </span>
+        )}
       </div>
 
       {/* Action Buttons - Below Search */}
@@ -53,20 +152,27 @@ export function FilePickerControls({
           <Button 
             disabled={selectedFiles.length === 0 || isCreatingKB} 
             className="w-full bg-blue-600 hover:bg-blue-700" 
-            onClick={() => onCreateKB?.(selectedResourceIds, allFiles)}
+            onClick={openCreateDialog}
           >
             {isCreatingKB ? "Creating KB..." : `Create Knowledge Base (${selectedFiles.length} files)`}
           </Button>
         ) : (
-          // Two buttons - equal width with gap, stack on small screens
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 w-full">
+          // Three buttons - equal width with gap, stack on small screens
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 w-full">
+            <Button
+              disabled={addableResourceIds.length === 0 || isAddingToKB || isSyncPending}
+              onClick={() => onAddFiles?.(addableResourceIds)}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              {isAddingToKB ? "Adding..." : `Add to Knowledge Base (${addableResourceIds.length})`}
+            </Button>
             <Button
               variant="outline"
-              disabled={selectedFiles.length === 0 || isActuallyDeleting}
-              onClick={() => onDeleteFiles?.(selectedResourceIds)}
+              disabled={deletableResourceIds.length === 0 || isActuallyDeleting}
+              onClick={() => onDeleteFiles?.(deletableResourceIds)}
               className="text-red-600 hover:text-red-700 hover:bg-red-50"
             >
-              {isActuallyDeleting ? "Deleting..." : `Delete Selected Files (${selectedFiles.length})`}
+              {isActuallyDeleting ? "Deleting..." : `Delete Selected (${deletableResourceIds.length})`}
             </Button>
             <Button 
               variant="outline" 
@@ -78,6 +184,16 @@ export function FilePickerControls({
           </div>
         )}
       </div>
+
+      <KnowledgeBaseDetailsDialog
+        open={isCreateDialogOpen}
+        onOpenChange={setIsCreateDialogOpen}
+        title="Create Knowledge Base"
+        description={`Index ${selectedFiles.length} selected item(s) into a new knowledge base.`}
+        submitLabel="Create"
+        initialDetails={defaultDetails}
+        onSubmit={(details) => onCreateKB?.(selectedResourceIds, allFiles, details)}
+      />
     </div>
   );
 }
@@ -1,19 +1,19 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import React from "react";
 import {
   ColumnDef,
-  ColumnFiltersState,
   SortingState,
   VisibilityState,
+  Row,
   flexRender,
   getCoreRowModel,
   getFilteredRowModel,
-  getPaginationRowModel,
   getSortedRowModel,
   useReactTable,
 } from "@tanstack/react-table";
+import { useVirtualizer } from "@tanstack/react-virtual";
 import { ArrowUpDown } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
@@ -24,18 +24,52 @@ import { FilePickerControls } from "./FilePickerControls";
 import { FileNameCell } from "./FileNameCell";
 import { FileSizeCell } from "./FileSizeCell";
 import { FileStatusCell } from "./FileStatusCell";
+import { FolderBreadcrumbs } from "./FolderBreadcrumbs";
+import { SelectionSummaryPanel } from "./SelectionSummaryPanel";
+import { SavedViewsMenu } from "./SavedViewsMenu";
 import { useFileSelection } from "@/hooks/useFileSelection";
-import { FileItem } from "@/lib/types/file";
+import { useSavedViews } from "@/hooks/useSavedViews";
+import { useTreeKeyboardNavigation } from "@/hooks/useTreeKeyboardNavigation";
+import { useUrlSync } from "@/hooks/useUrlSync";
+import { FileItem, FolderViewMode, SearchScope } from "@/lib/types/file";
+import type { BreadcrumbFolder } from "@/hooks/useFileTree";
+import { compileFileQuery, fileQueryFilterFn } from "@/lib/utils/fileQuery";
+import { URL_PARAMS, parseSorting, serializeSorting } from "@/lib/utils/urlState";
+import { KBDetails } from "@/lib/types/knowledgeBase";
+import type { ConnectionProvider } from "@/lib/types/connection";
+import { PROVIDER_DETAILS } from "@/lib/utils/connections";
+import type { SavedView, SavedViewState } from "@/lib/types/savedView";
+
+const ESTIMATED_ROW_HEIGHT = 41; // px, rows are measured once rendered
+const ROW_OVERSCAN = 10; // Rows rendered above and below the viewport
+
+// mime_type and indexed_at are only there to be filtered on
+const DEFAULT_COLUMN_VISIBILITY: VisibilityState = { mime_type: false, indexed_at: false };
+
+// Columns the views menu lets users hide
+const TOGGLEABLE_COLUMNS = [
+  { id: "size", label: "Size" },
+  { id: "status", label: "Status" },
+];
+
+// Table rows plus "Load more" rows for folder listings that have more pages
+type DisplayRow =
+  | { kind: "file"; row: Row<FileItem> }
+  | { kind: "load-more"; folderId: string; level: number; isLoading: boolean };
 
 interface FilePickerTableProps {
   files: FileItem[];
   isLoading?: boolean;
   toggleFolder?: (folderId: string) => void;
-  onCreateKB?: (resourceIds: string[], files: FileItem[]) => void;
+  onCreateKB?: (resourceIds: string[], files: FileItem[], details: KBDetails) => void;
   onCreateNewKB?: () => void;
-  onDeleteFiles?: (selectedIds: string[]) => void;
+  // files also holds selected files that aren't in the table right now
+  onAddFiles?: (resourceIds: string[], files: FileItem[]) => void;
+  onDeleteFiles?: (selectedIds: string[], files: FileItem[]) => void;
   hasKB?: boolean;
   isCreatingKB?: boolean;
+  isAddingToKB?: boolean;
+  isSyncPending?: boolean;
   isDeletingKB?: boolean;
   isActuallyDeleting?: boolean;
   statusMap?: Map<string, string>;
@@ -48,6 +82,25 @@ interface FilePickerTableProps {
   stopPrefetch?: (folderId: string) => void;
   registerFolder?: (element: HTMLElement | null, folderId: string) => (() => void) | undefined;
   isPrefetching?: (folderId: string) => boolean;
+  // Cursor pagination ("root" for the root listing)
+  onLoadMore?: (folderId: string) => void;
+  hasMoreRoot?: boolean;
+  isLoadingMoreRoot?: boolean;
+  // Drive-wide search (files then holds the search hits)
+  searchScope?: SearchScope;
+  onSearchScopeChange?: (scope: SearchScope) => void;
+  remoteSearchQuery?: string;
+  onRemoteSearchChange?: (query: string) => void;
+  isSearchingDrive?: boolean;
+  // Saved views restore expanded folders through the tree
+  expandedFolderIds?: string[];
+  onRestoreExpandedFolders?: (folderIds: string[]) => void;
+  // Tree or breadcrumb navigation (toggleFolder drills into a folder in breadcrumb mode)
+  viewMode?: FolderViewMode;
+  onViewModeChange?: (mode: FolderViewMode) => void;
+  breadcrumbTrail?: BreadcrumbFolder[];
+  onNavigateBreadcrumb?: (index: number) => void;
+  provider?: ConnectionProvider; // Source of the files, for labels and the root breadcrumb
 }
 
 export function FilePickerTable({
@@ -56,9 +109,12 @@ export function FilePickerTable({
   toggleFolder,
   onCreateKB,
   onCreateNewKB,
+  onAddFiles,
   onDeleteFiles,
   hasKB,
   isCreatingKB,
+  isAddingToKB,
+  isSyncPending,
   isDeletingKB,
   isActuallyDeleting,
   statusMap,
@@ -71,17 +127,53 @@ export function FilePickerTable({
   stopPrefetch,
   registerFolder,
   isPrefetching,
+  onLoadMore,
+  hasMoreRoot,
+  isLoadingMoreRoot,
+  searchScope = "loaded",
+  onSearchScopeChange,
+  remoteSearchQuery = "",
+  onRemoteSearchChange,
+  isSearchingDrive,
+  expandedFolderIds = [],
+  onRestoreExpandedFolders,
+  viewMode = "tree",
+  onViewModeChange,
+  breadcrumbTrail = [],
+  onNavigateBreadcrumb,
+  provider,
 }: FilePickerTableProps) {
+  const isDriveSearch = searchScope === "drive";
+  const isBreadcrumbMode = viewMode === "breadcrumb";
   const [sorting, setSorting] = useState<SortingState>([]);
-  const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
-  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({});
+  const [filterQuery, setFilterQuery] = useState("");
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>(DEFAULT_COLUMN_VISIBILITY);
+
+  // The filter box takes structured queries (status:failed size>5MB ...), compiled into column filters
+  const compiledQuery = useMemo(() => compileFileQuery(filterQuery), [filterQuery]);
+  const isQueryActive = compiledQuery.filters.length > 0;
 
   // Use custom selection hook
-  const { rowSelection, selectedFiles, selectedResourceIds, handleRowSelection, handleSelectAll, canSelectFile } = useFileSelection({
+  const {
+    rowSelection,
+    selectedFiles,
+    selectionFiles,
+    selectedResourceIds,
+    deletableResourceIds,
+    addableResourceIds,
+    handleRowSelection,
+    handleSelectAll,
+    selectRange,
+    deselectFile,
+    setRowSelection,
+    canSelectFile,
+    getResolvedStatus,
+  } = useFileSelection({
     files,
     statusMap,
     hasKB,
     kbId,
+    canDeleteFolder,
   });
 
   // Define columns with custom selection logic
@@ -104,7 +196,7 @@ export function FilePickerTable({
             />
           );
         },
-        cell: ({ row }) => {
+        cell: ({ row, table }) => {
           const file = row.original;
           const fileId = file.id;
           const isSelected = rowSelection[fileId] ?? false;
@@ -116,8 +208,16 @@ export function FilePickerTable({
             <Checkbox
               checked={isSelected}
               onCheckedChange={(value) => handleRowSelection(fileId, !!value)}
-              aria-label="Select row"
-              onClick={(e) => e.stopPropagation()}
+              aria-label={`Select ${file.name.split("/").pop()}`}
+              tabIndex={-1} // Space on the row toggles it
+              onClick={(e) => {
+                e.stopPropagation();
+                // Shift-click selects the range from the last toggled row instead of toggling this one
+                if (e.shiftKey) {
+                  e.preventDefault();
+                  selectRange(fileId, table.getRowModel().rows.map((visibleRow) => visibleRow.original));
+                }
+              }}
               disabled={!canSelect}
               className="border-2 border-gray-400 data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600 h-4 w-4"
             />
@@ -137,31 +237,17 @@ export function FilePickerTable({
             </Button>
           );
         },
-        filterFn: (row, columnId, filterValue) => {
-          if (!filterValue) return true;
-
-          const file = row.original;
-          const searchTerm = filterValue.toLowerCase();
-
-          // Search by file name (show full path when searching)
-          const fileName = file.name.toLowerCase();
-          const fileNameMatch = fileName.includes(searchTerm);
-
-          // Search by status
-          const status = file.status?.toLowerCase() || "";
-          const statusMatch = status.includes(searchTerm);
-
-          return fileNameMatch || statusMatch;
-        },
-        cell: ({ row, table }) => {
+        filterFn: (row, _columnId, conditions) => fileQueryFilterFn(row.original, conditions),
+        cell: ({ row }) => {
           const file = row.original;
-          const filterValue = table.getColumn("name")?.getFilterValue() as string;
-          const isFiltering = filterValue && filterValue.length > 0;
+          // Drive search hits come from anywhere in the tree, so they show their full path too
+          const isFiltering = isDriveSearch || isQueryActive;
 
           return (
             <FileNameCell
               file={file}
               isFiltering={isFiltering}
+              flat={isBreadcrumbMode}
               toggleFolder={toggleFolder}
               startPrefetch={startPrefetch}
               stopPrefetch={stopPrefetch}
@@ -175,6 +261,7 @@ export function FilePickerTable({
         accessorKey: "size",
         header: () => <div className="text-right pr-8">Size</div>,
         size: 30, // Fixed width for size column
+        filterFn: (row, _columnId, conditions) => fileQueryFilterFn(row.original, conditions),
         cell: ({ row }) => {
           const size = row.getValue("size") as number;
           return <FileSizeCell size={size} />;
@@ -184,71 +271,251 @@ export function FilePickerTable({
         accessorKey: "status",
         header: "Status",
         size: 35, // Fixed width for status column
+        filterFn: (row, _columnId, conditions) => fileQueryFilterFn(row.original, conditions),
         cell: ({ row }) => {
           const file = row.original;
-          return <FileStatusCell file={file} isFileDeleting={isFileDeleting} />;
+          return <FileStatusCell file={file} isFileDeleting={isFileDeleting} kbId={kbId} />;
         },
       },
+      // Hidden, filter-only columns
+      {
+        accessorKey: "mime_type",
+        filterFn: (row, _columnId, conditions) => fileQueryFilterFn(row.original, conditions),
+      },
+      {
+        accessorKey: "indexed_at",
+        filterFn: (row, _columnId, conditions) => fileQueryFilterFn(row.original, conditions),
+      },
     ],
-    [rowSelection, handleRowSelection, toggleFolder, startPrefetch, stopPrefetch, registerFolder, isPrefetching, canSelectFile, hasKB, canDeleteFile, canDeleteFolder, isFileDeleting]
+    [rowSelection, handleRowSelection, selectRange, isDriveSearch, isQueryActive, isBreadcrumbMode, toggleFolder, startPrefetch, stopPrefetch, registerFolder, isPrefetching, canSelectFile, hasKB, canDeleteFile, canDeleteFolder, isFileDeleting, kbId]
   );
 
   const table = useReactTable({
     data: files,
     columns,
     onSortingChange: setSorting,
-    onColumnFiltersChange: setColumnFilters,
     getCoreRowModel: getCoreRowModel(),
-    getPaginationRowModel: getPaginationRowModel(),
     getSortedRowModel: getSortedRowModel(),
     getFilteredRowModel: getFilteredRowModel(),
     onColumnVisibilityChange: setColumnVisibility,
     getRowId: (row) => row.id,
     state: {
       sorting,
-      columnFilters,
+      columnFilters: compiledQuery.filters,
       columnVisibility,
       rowSelection,
     },
     enableRowSelection: true,
-    initialState: {
-      pagination: {
-        pageSize: 20,
-      },
+  });
+
+  const rows = table.getRowModel().rows;
+  const visibleColumnCount = table.getVisibleLeafColumns().length;
+
+  // Filter and sorting are part of the shareable URL; typing replaces the history entry instead of adding one
+  useUrlSync({
+    param: URL_PARAMS.filter,
+    stateValue: filterQuery,
+    historyMode: "replace",
+    applyToState: (value) => {
+      if (isDriveSearch && value) {
+        onRemoteSearchChange?.("");
+        onSearchScopeChange?.("loaded");
+      }
+      setFilterQuery(value);
     },
-    manualPagination: false,
+  });
+  useUrlSync({
+    param: URL_PARAMS.sort,
+    stateValue: serializeSorting(sorting),
+    applyToState: (value) => setSorting(parseSorting(value).filter((sort) => table.getColumn(sort.id)?.getCanSort())),
+  });
+
+  // Saved views capture the filter, sorting, columns and expanded folders for the current KB
+  const { views: savedViews, saveView, renameView, deleteView } = useSavedViews(kbId);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+
+  // A different KB has its own views
+  useEffect(() => {
+    setActiveViewId(null);
+  }, [kbId]);
+
+  const handleSaveView = (name: string) => {
+    const state: SavedViewState = { filterQuery, sorting, columnVisibility, expandedFolders: expandedFolderIds };
+    setActiveViewId(saveView(name, state));
+  };
+
+  const handleLoadView = (view: SavedView) => {
+    if (isDriveSearch) {
+      onRemoteSearchChange?.("");
+      onSearchScopeChange?.("loaded");
+    }
+    setFilterQuery(view.filterQuery);
+    setSorting(view.sorting);
+    setColumnVisibility({ ...DEFAULT_COLUMN_VISIBILITY, ...view.columnVisibility });
+    onRestoreExpandedFolders?.(view.expandedFolders);
+    setActiveViewId(view.id);
+    console.log(`📑 [SavedViews] Loaded view "${view.name}"`);
+  };
+
+  const handleDeleteView = (viewId: string) => {
+    deleteView(viewId);
+    if (viewId === activeViewId) setActiveViewId(null);
+  };
+
+  // A folder's "Load more" row goes after its loaded children, which is only meaningful while the tree order is intact
+  const showFolderPages = !isQueryActive && !isDriveSearch && sorting.length === 0;
+  const displayRows = useMemo(() => {
+    const result: DisplayRow[] = [];
+    const openFolders: FileItem[] = []; // Expanded folders with more pages, innermost last
+
+    const closeFolders = (level: number) => {
+      while (openFolders.length > 0 && (openFolders[openFolders.length - 1].level || 0) >= level) {
+        const folder = openFolders.pop()!;
+        result.push({ kind: "load-more", folderId: folder.id, level: (folder.level || 0) + 1, isLoading: !!folder.isLoadingMore });
+      }
+    };
+
+    rows.forEach((row) => {
+      const file = row.original;
+      if (showFolderPages) closeFolders(file.level || 0);
+      result.push({ kind: "file", row });
+      if (showFolderPages && file.type === "directory" && file.isExpanded && file.hasMore) openFolders.push(file);
+    });
+    closeFolders(0);
+
+    if (hasMoreRoot) {
+      result.push({ kind: "load-more", folderId: "root", level: 0, isLoading: !!isLoadingMoreRoot });
+    }
+
+    return result;
+  }, [rows, showFolderPages, hasMoreRoot, isLoadingMoreRoot]);
+
+  // Virtualize the flattened tree instead of paginating it, so expanded folders stay in one piece
+  // and only the rows near the viewport are rendered
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const rowVirtualizer = useVirtualizer({
+    count: displayRows.length,
+    getScrollElement: () => scrollContainerRef.current,
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
+    getItemKey: (index) => {
+      const item = displayRows[index];
+      return item.kind === "file" ? item.row.id : `load-more-${item.folderId}`;
+    },
+    overscan: ROW_OVERSCAN,
+  });
+  const virtualRows = rowVirtualizer.getVirtualItems();
+  // Spacer rows stand in for everything above and below the rendered window
+  const paddingTop = virtualRows.length > 0 ? virtualRows[0].start : 0;
+  const paddingBottom = virtualRows.length > 0 ? rowVirtualizer.getTotalSize() - virtualRows[virtualRows.length - 1].end : 0;
+
+  // Treegrid keyboard navigation; levels only mean something while folders are shown inline
+  const isHierarchical = !isQueryActive && !isDriveSearch && !isBreadcrumbMode;
+  const rowFiles = useMemo(() => rows.map((row) => row.original), [rows]);
+  const { focusedId, handleFocus, handleBlur, handleKeyDown } = useTreeKeyboardNavigation({
+    items: rowFiles,
+    containerRef: scrollContainerRef,
+    hierarchical: isHierarchical,
+    scrollToItem: (fileId) => {
+      const index = displayRows.findIndex((item) => item.kind === "file" && item.row.id === fileId);
+      if (index !== -1) rowVirtualizer.scrollToIndex(index);
+    },
+    toggleFolder: isDriveSearch ? undefined : toggleFolder, // Search hits aren't in the tree
+    onNavigateUp: isBreadcrumbMode && breadcrumbTrail.length > 0 ? () => onNavigateBreadcrumb?.(breadcrumbTrail.length - 2) : undefined,
+    isSelected: (fileId) => !!rowSelection[fileId],
+    onSelect: handleRowSelection,
   });
 
   return (
     <div className="w-full h-full flex flex-col space-y-4 text-base text-gray-900">
       {/* Top Controls */}
       <FilePickerControls
-        searchValue={(table.getColumn("name")?.getFilterValue() as string) ?? ""}
-        onSearchChange={(value) => table.getColumn("name")?.setFilterValue(value)}
+        searchValue={isDriveSearch ? remoteSearchQuery : filterQuery}
+        onSearchChange={(value) => (isDriveSearch ? onRemoteSearchChange?.(value) : setFilterQuery(value))}
+        queryTokens={compiledQuery.tokens}
+        queryErrors={compiledQuery.errors}
+        searchScope={searchScope}
+        onSearchScopeChange={
+          onSearchScopeChange &&
+          ((scope) => {
+            // Carry the typed text over to the other search
+            if (scope === "drive") {
+              onRemoteSearchChange?.(filterQuery);
+              setFilterQuery("");
+            } else {
+              setFilterQuery(remoteSearchQuery);
+              onRemoteSearchChange?.("");
+            }
+            onSearchScopeChange(scope);
+          })
+        }
+        isSearchingDrive={isSearchingDrive}
+        sourceLabel={provider && PROVIDER_DETAILS[provider].label}
+        viewMode={viewMode}
+        onViewModeChange={onViewModeChange}
+        savedViewsMenu={
+          <SavedViewsMenu
+            views={savedViews}
+            activeViewId={activeViewId}
+            columns={TOGGLEABLE_COLUMNS.map((column) => ({ ...column, visible: columnVisibility[column.id] !== false }))}
+            onToggleColumn={(columnId, visible) => setColumnVisibility((prev) => ({ ...prev, [columnId]: visible }))}
+            onSave={handleSaveView}
+            onLoad={handleLoadView}
+            onRename={renameView}
+            onDelete={handleDeleteView}
+          />
+        }
         filteredCount={table.getFilteredRowModel().rows.length}
         selectedFiles={selectedFiles}
         selectedResourceIds={selectedResourceIds}
+        deletableResourceIds={deletableResourceIds}
+        addableResourceIds={addableResourceIds}
         hasKB={hasKB}
         isCreatingKB={isCreatingKB}
+        isAddingToKB={isAddingToKB}
+        isSyncPending={isSyncPending}
         isDeletingKB={isDeletingKB}
         isActuallyDeleting={isActuallyDeleting}
         onCreateKB={onCreateKB}
         onCreateNewKB={onCreateNewKB}
-        onDeleteFiles={onDeleteFiles}
-        allFiles={files}
+        onAddFiles={(resourceIds) => {
+          onAddFiles?.(resourceIds, selectionFiles);
+          // Added files become deletable, so drop them from the selection to avoid accidental de-indexing
+          setRowSelection((prev) => {
+            const newSelection = { ...prev };
+            resourceIds.forEach((id) => delete newSelection[id]);
+            return newSelection;
+          });
+        }}
+        onDeleteFiles={(selectedIds) => onDeleteFiles?.(selectedIds, selectionFiles)}
+        allFiles={selectionFiles}
       />
 
+      <SelectionSummaryPanel
+        selectedFiles={selectedFiles}
+        getStatus={getResolvedStatus}
+        onDeselect={deselectFile}
+        onClear={() => setRowSelection({})}
+      />
+
+      {isBreadcrumbMode && !isDriveSearch && onNavigateBreadcrumb && (
+        <FolderBreadcrumbs trail={breadcrumbTrail} onNavigate={onNavigateBreadcrumb} provider={provider} />
+      )}
+
       {/* Table Container with Internal Scroll */}
       <div className="flex-1 min-h-0 rounded-md border-2 border-gray-300 flex flex-col bg-white shadow-sm">
-        <div className="flex-1 overflow-y-auto">
-          <Table>
+        {/* The table wrapper must not scroll itself, or the sticky header sticks to it instead */}
+        <div ref={scrollContainerRef} className="flex-1 overflow-y-auto [&>[data-slot=table-container]]:overflow-visible">
+          <Table role="treegrid" aria-label="Files" aria-multiselectable="true" aria-rowcount={displayRows.length + 1}>
             <TableHeader className="sticky top-0 bg-gray-50 z-10 border-b-2 border-gray-300">
               {table.getHeaderGroups().map((headerGroup) => (
-                <TableRow key={headerGroup.id}>
+                <TableRow key={headerGroup.id} aria-rowindex={1}>
                   {headerGroup.headers.map((header) => {
+                    const sorted = header.column.getIsSorted();
                     return (
                       <TableHead
                         key={header.id}
+                        role="columnheader"
+                        aria-sort={sorted === "asc" ? "ascending" : sorted === "desc" ? "descending" : undefined}
                         className="bg-gray-50 font-semibold text-gray-900 border-r border-gray-200 last:border-r-1"
                         style={{
                           width: header.column.columnDef.size ? `${header.column.columnDef.size}px` : "auto",
@@ -266,57 +533,122 @@ export function FilePickerTable({
             <TableBody>
               {isLoading ? (
                 <TableRow>
-                  <TableCell colSpan={columns.length} className="p-0">
+                  <TableCell colSpan={visibleColumnCount} className="p-0">
                     <TableSkeleton message={isCreatingKB ? "Creating Knowledge Base..." : isDeletingKB ? "Deleting files..." : "Loading files..."} rows={10} />
                   </TableCell>
                 </TableRow>
-              ) : table.getRowModel().rows?.length ? (
-                table.getRowModel().rows.map((row) => {
-                  const file = row.original;
-                  const isDirectory = file.type === "directory";
-                  const isExpanded = file.isExpanded;
-                  const isLoading = file.isLoading;
-
-                  // Handle row hover for prefetching
-                  const handleRowMouseEnter = () => {
-                    if (isDirectory && !isExpanded && !isLoading && startPrefetch) {
-                      startPrefetch(file.id, 300); // 300ms delay
-                    }
-                  };
+              ) : rows.length ? (
+                <>
+                  {paddingTop > 0 && (
+                    <tr aria-hidden="true">
+                      <td colSpan={visibleColumnCount} style={{ height: paddingTop, padding: 0 }} />
+                    </tr>
+                  )}
+                  {virtualRows.map((virtualRow) => {
+                    const item = displayRows[virtualRow.index];
 
-                  const handleRowMouseLeave = () => {
-                    if (isDirectory && stopPrefetch) {
-                      stopPrefetch(file.id);
-                    }
-                  };
-
-                  return (
-                    <TableRow
-                      key={row.id}
-                      data-state={row.getIsSelected() ? "selected" : undefined}
-                      className={`hover:bg-gray-50 transition-colors ${row.getIsSelected() ? "bg-blue-50" : ""}`}
-                      onMouseEnter={handleRowMouseEnter}
-                      onMouseLeave={handleRowMouseLeave}
-                    >
-                      {row.getVisibleCells().map((cell) => (
-                        <TableCell
-                          key={cell.id}
-                          className="last:border-r-0 py-2 px-2"
-                          style={{
-                            width: cell.column.columnDef.size ? `${cell.column.columnDef.size}px` : "auto",
-                            minWidth: cell.column.columnDef.size ? `${cell.column.columnDef.size}px` : "auto",
-                            maxWidth: cell.column.columnDef.size ? `${cell.column.columnDef.size}px` : "auto",
-                          }}
+                    if (item.kind === "load-more") {
+                      return (
+                        <TableRow
+                          key={`load-more-${item.folderId}`}
+                          data-index={virtualRow.index}
+                          ref={rowVirtualizer.measureElement}
+                          aria-rowindex={virtualRow.index + 2}
+                          className="hover:bg-transparent"
                         >
-                          <div className="flex items-center gap-2 text-sm font-normal leading-normal">{flexRender(cell.column.columnDef.cell, cell.getContext())}</div>
-                        </TableCell>
-                      ))}
-                    </TableRow>
-                  );
-                })
+                          <TableCell role="gridcell" colSpan={visibleColumnCount} className="py-1 px-2">
+                            <div style={{ paddingLeft: `${item.level * 20 + 24}px` }}>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={item.isLoading}
+                                onClick={() => onLoadMore?.(item.folderId)}
+                                className="text-blue-600 hover:text-blue-700"
+                              >
+                                {item.isLoading ? "Loading..." : "Load more"}
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    }
+
+                    const row = item.row;
+                    const file = row.original;
+                    const isDirectory = file.type === "directory";
+                    const isExpanded = file.isExpanded;
+                    const isLoading = file.isLoading;
+
+                    // Handle row hover for prefetching
+                    const handleRowMouseEnter = () => {
+                      if (isDirectory && !isExpanded && !isLoading && startPrefetch) {
+                        startPrefetch(file.id, 300); // 300ms delay
+                      }
+                    };
+
+                    const handleRowMouseLeave = () => {
+                      if (isDirectory && stopPrefetch) {
+                        stopPrefetch(file.id);
+                      }
+                    };
+
+                    return (
+                      <TableRow
+                        key={row.id}
+                        data-index={virtualRow.index}
+                        ref={rowVirtualizer.measureElement}
+                        data-state={row.getIsSelected() ? "selected" : undefined}
+                        data-row-id={file.id}
+                        tabIndex={file.id === focusedId ? 0 : -1}
+                        aria-rowindex={virtualRow.index + 2}
+                        aria-level={isHierarchical ? (file.level || 0) + 1 : 1}
+                        aria-expanded={isHierarchical && isDirectory ? !!isExpanded : undefined}
+                        aria-selected={row.getIsSelected()}
+                        aria-busy={isLoading || undefined}
+                        className={`hover:bg-gray-50 transition-colors outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-500 ${row.getIsSelected() ? "bg-blue-50" : ""}`}
+                        onMouseEnter={handleRowMouseEnter}
+                        onMouseLeave={handleRowMouseLeave}
+                        onClick={(event) => {
+                          // Shift-click selects a range, Ctrl/Cmd-click toggles the row
+                          if (event.shiftKey) {
+                            selectRange(file.id, rowFiles);
+                          } else if (event.metaKey || event.ctrlKey) {
+                            handleRowSelection(file.id, !rowSelection[file.id]);
+                          }
+                        }}
+                        onMouseDown={(event) => {
+                          if (event.shiftKey) event.preventDefault(); // No text selection on Shift-click
+                        }}
+                        onFocus={() => handleFocus(file)}
+                        onBlur={handleBlur}
+                        onKeyDown={(event) => handleKeyDown(event, file)}
+                      >
+                        {row.getVisibleCells().map((cell) => (
+                          <TableCell
+                            key={cell.id}
+                            role="gridcell"
+                            className="last:border-r-0 py-2 px-2"
+                            style={{
+                              width: cell.column.columnDef.size ? `${cell.column.columnDef.size}px` : "auto",
+                              minWidth: cell.column.columnDef.size ? `${cell.column.columnDef.size}px` : "auto",
+                              maxWidth: cell.column.columnDef.size ? `${cell.column.columnDef.size}px` : "auto",
+                            }}
+                          >
+                            <div className="flex items-center gap-2 text-sm font-normal leading-normal">{flexRender(cell.column.columnDef.cell, cell.getContext())}</div>
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    );
+                  })}
+                  {paddingBottom > 0 && (
+                    <tr aria-hidden="true">
+                      <td colSpan={visibleColumnCount} style={{ height: paddingBottom, padding: 0 }} />
+                    </tr>
+                  )}
+                </>
               ) : (
                 <TableRow>
-                  <TableCell colSpan={columns.length} className="h-24 text-center">
+                  <TableCell colSpan={visibleColumnCount} className="h-24 text-center">
                     No files found.
                   </TableCell>
                 </TableRow>
@@ -324,24 +656,6 @@ export function FilePickerTable({
             </TableBody>
           </Table>
         </div>
-
-        {/* Load More Button - Inside Table Container */}
-        {table.getCanNextPage() && (
-          <div className="border-t-2 border-gray-300 bg-gray-50">
-            <Button
-              variant="ghost"
-              size="lg"
-              onClick={() => {
-                // Increase page size to show more items instead of going to next page
-                const currentPageSize = table.getState().pagination.pageSize;
-                table.setPageSize(currentPageSize + 20);
-              }}
-              className="w-full h-12 text-gray-800 hover:bg-gray-200 rounded-none font-medium"
-            >
-              Load more
-            </Button>
-          </div>
-        )}
       </div>
 
       {/* Bottom Info - Outside Table */}
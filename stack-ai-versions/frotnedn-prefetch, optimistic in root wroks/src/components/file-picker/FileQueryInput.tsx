@@ -0,0 +1,61 @@
+import { useRef, type ReactNode } from "react";
+import { Input } from "@/components/ui/input";
+import type { FileQueryError, FileQueryToken } from "@/lib/utils/fileQuery";
+
+interface FileQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  tokens: FileQueryToken[];
+  errors: FileQueryError[];
+  placeholder?: string;
+}
+
+// Filter input with the query highlighted underneath a transparent-text input
+export function FileQueryInput({ value, onChange, tokens, errors, placeholder }: FileQueryInputProps) {
+  const overlayRef = useRef<HTMLDivElement>(null);
+
+  const segments: ReactNode[] = [];
+  let cursor = 0;
+  tokens.forEach((token) => {
+    if (token.start > cursor) segments.push(value.slice(cursor, token.start));
+
+    const keyEnd = token.keyEnd ?? token.start;
+    segments.push(
+      <span key={token.start} className={token.error ? "text-red-600 underline decoration-wavy decoration-red-500" : undefined}>
+        {keyEnd > token.start && <span className={token.error ? undefined : "text-blue-600"}>{value.slice(token.start, keyEnd)}</span>}
+        {value.slice(keyEnd, token.end)}
+      </span>
+    );
+    cursor = token.end;
+  });
+  if (cursor < value.length) segments.push(value.slice(cursor));
+
+  return (
+    <div className="relative w-full">
+      <div
+        ref={overlayRef}
+        aria-hidden="true"
+        className="pointer-events-none absolute inset-0 flex items-center overflow-hidden whitespace-pre rounded-md border border-transparent px-3 py-1 text-base text-gray-900 md:text-sm"
+      >
+        {segments}
+      </div>
+      <Input
+        placeholder={placeholder}
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        onScroll={(event) => {
+          if (overlayRef.current) overlayRef.current.scrollLeft = event.currentTarget.scrollLeft;
+        }}
+        spellCheck={false}
+        aria-invalid={errors.length > 0}
+        aria-describedby={errors.length > 0 ? "file-query-error" : undefined}
+        className="relative w-full border-gray-300 bg-transparent text-transparent caret-gray-900 focus:border-blue-500 focus:ring-blue-500"
+      />
+      {errors.length > 0 && (
+        <p id="file-query-error" className="absolute left-0 top-full mt-0.5 text-xs text-red-600">
+          {errors[0].message}
+        </p>
+      )}
+    </div>
+  );
+}
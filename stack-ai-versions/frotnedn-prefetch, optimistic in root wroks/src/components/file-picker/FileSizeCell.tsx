@@ -1,3 +1,5 @@
+import { formatFileSize } from "@/lib/utils/fileSize";
+
 interface FileSizeCellProps {
   size: number;
 }
@@ -7,19 +9,9 @@ export function FileSizeCell({ size }: FileSizeCellProps) {
     return <div className="text-right pr-8">-</div>;
   }
 
-  const formatSize = (bytes: number): string => {
-    if (bytes > 1024 * 1024) {
-      return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
-    }
-    if (bytes > 1024) {
-      return `${(bytes / 1024).toFixed(1)} KB`;
-    }
-    return `${bytes} B`;
-  };
-
   return (
     <div className="text-right pr-8">
-      {formatSize(size)}
+      {formatFileSize(size)}
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -4,10 +4,11 @@ import { useOptimisticDeleteRegistry } from "@/hooks/useOptimisticDeleteRegistry
 interface FileStatusCellProps {
   file: FileItem;
   isFileDeleting?: (fileId: string) => boolean;
+  kbId?: string | null;
 }
 
-export function FileStatusCell({ file, isFileDeleting }: FileStatusCellProps) {
-  const { getFileStatusOverride } = useOptimisticDeleteRegistry();
+export function FileStatusCell({ file, isFileDeleting, kbId }: FileStatusCellProps) {
+  const { getFileStatusOverride } = useOptimisticDeleteRegistry(kbId);
   
   // Check for optimistic delete override first
   const statusOverride = getFileStatusOverride(file.id);
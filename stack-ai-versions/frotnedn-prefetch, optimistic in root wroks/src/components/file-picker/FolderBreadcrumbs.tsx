@@ -0,0 +1,43 @@
+import { ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { BreadcrumbFolder } from "@/hooks/useFileTree";
+import type { ConnectionProvider } from "@/lib/types/connection";
+import { PROVIDER_DETAILS } from "@/lib/utils/connections";
+import { ProviderIcon } from "./ProviderIcon";
+
+interface FolderBreadcrumbsProps {
+  trail: BreadcrumbFolder[];
+  onNavigate: (index: number) => void; // -1 for the root
+  provider?: ConnectionProvider;
+}
+
+// Path bar for breadcrumb mode; every segment except the current folder goes back up to it
+export function FolderBreadcrumbs({ trail, onNavigate, provider = "gdrive" }: FolderBreadcrumbsProps) {
+  return (
+    <nav aria-label="Folder path" className="flex min-w-0 flex-wrap items-center gap-1 text-sm">
+      <Button variant="ghost" size="sm" disabled={trail.length === 0} onClick={() => onNavigate(-1)} className="h-7 px-2 disabled:opacity-100 disabled:font-medium">
+        <ProviderIcon provider={provider} className="h-4 w-4" />
+        {PROVIDER_DETAILS[provider].rootLabel}
+      </Button>
+      {trail.map((folder, index) => {
+        const isCurrent = index === trail.length - 1;
+        return (
+          <span key={folder.id} className="flex min-w-0 items-center gap-1">
+            <ChevronRight className="h-4 w-4 flex-shrink-0 text-gray-400" />
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={isCurrent}
+              aria-current={isCurrent ? "page" : undefined}
+              onClick={() => onNavigate(index)}
+              className="h-7 max-w-48 truncate px-2 disabled:opacity-100 disabled:font-medium"
+              title={`/${folder.name}`}
+            >
+              {folder.name.split("/").pop()}
+            </Button>
+          </span>
+        );
+      })}
+    </nav>
+  );
+}
@@ -0,0 +1,86 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { KBDetails } from "@/lib/types/knowledgeBase";
+
+interface KnowledgeBaseDetailsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description?: string;
+  submitLabel: string;
+  initialDetails: KBDetails;
+  onSubmit: (details: KBDetails) => void;
+}
+
+// Name/description form used for both creating and renaming a KB
+export function KnowledgeBaseDetailsDialog({
+  open,
+  onOpenChange,
+  title,
+  description,
+  submitLabel,
+  initialDetails,
+  onSubmit,
+}: KnowledgeBaseDetailsDialogProps) {
+  const [name, setName] = useState(initialDetails.name);
+  const [kbDescription, setKBDescription] = useState(initialDetails.description);
+
+  // Start from the initial values every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setName(initialDetails.name);
+      setKBDescription(initialDetails.description);
+    }
+  }, [open, initialDetails.name, initialDetails.description]);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+
+    onSubmit({ name: name.trim(), description: kbDescription.trim() });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            {description && <DialogDescription>{description}</DialogDescription>}
+          </DialogHeader>
+
+          <div className="grid gap-2">
+            <label htmlFor="kb-name" className="text-sm font-medium text-gray-900">
+              Name
+            </label>
+            <Input id="kb-name" value={name} onChange={(event) => setName(event.target.value)} autoFocus required />
+          </div>
+
+          <div className="grid gap-2">
+            <label htmlFor="kb-description" className="text-sm font-medium text-gray-900">
+              Description
+            </label>
+            <Input
+              id="kb-description"
+              value={kbDescription}
+              onChange={(event) => setKBDescription(event.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim()} className="bg-blue-600 hover:bg-blue-700">
+              {submitLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Database, Pencil, Plus, Trash2 } from "lucide-react";
+import { KBDetails, KnowledgeBase } from "@/lib/types/knowledgeBase";
+import { cn } from "@/lib/utils";
+import { KnowledgeBaseDetailsDialog } from "./KnowledgeBaseDetailsDialog";
+import { DeleteKnowledgeBaseDialog } from "./DeleteKnowledgeBaseDialog";
+
+interface KnowledgeBaseSwitcherProps {
+  knowledgeBases: KnowledgeBase[];
+  currentKBId: string | null;
+  onSelect: (kbId: string) => void;
+  onCreateNew: () => void;
+  onRename: (kbId: string, details: KBDetails) => void;
+  onDelete: (kbId: string) => void;
+  disabled?: boolean; // e.g. while a KB is syncing
+}
+
+export function KnowledgeBaseSwitcher({
+  knowledgeBases,
+  currentKBId,
+  onSelect,
+  onCreateNew,
+  onRename,
+  onDelete,
+  disabled = false,
+}: KnowledgeBaseSwitcherProps) {
+  const [kbToRename, setKBToRename] = useState<KnowledgeBase | null>(null);
+  const [kbToDelete, setKBToDelete] = useState<KnowledgeBase | null>(null);
+
+  return (
+    <aside className="w-64 flex-shrink-0 flex flex-col rounded-md border-2 border-gray-300 bg-white shadow-sm">
+      <div className="px-4 py-3 border-b-2 border-gray-300 bg-gray-50">
+        <h2 className="text-sm font-semibold text-gray-900">Knowledge Bases</h2>
+      </div>
+
+      <nav className="flex-1 min-h-0 overflow-y-auto p-2 space-y-1">
+        {knowledgeBases.length === 0 ? (
+          <p className="px-2 py-4 text-sm text-gray-500">No knowledge bases yet. Select files to create one.</p>
+        ) : (
+          knowledgeBases.map((kb) => {
+            const isCurrent = kb.id === currentKBId;
+            const isOptimistic = kb.id.startsWith("temp-");
+
+            return (
+              <div
+                key={kb.id}
+                className={cn(
+                  "group flex items-center rounded-md transition-colors",
+                  isCurrent ? "bg-blue-50 text-blue-700 font-medium" : "text-gray-700 hover:bg-gray-100"
+                )}
+              >
+                <button
+                  type="button"
+                  onClick={() => onSelect(kb.id)}
+                  disabled={disabled && !isCurrent}
+                  aria-current={isCurrent ? "true" : undefined}
+                  title={kb.description ? `${kb.name}\n${kb.description}` : kb.name}
+                  className="flex-1 min-w-0 flex items-center gap-2 px-2 py-2 text-left text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Database className="h-4 w-4 flex-shrink-0" />
+                  <span className="truncate min-w-0">{kb.name}</span>
+                  {isOptimistic && <span className="ml-auto text-xs text-gray-500 whitespace-nowrap">Creating...</span>}
+                </button>
+
+                {/* KBs still being created have no backend ID to rename or delete */}
+                {!isOptimistic && (
+                  <div className="flex items-center pr-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => setKBToRename(kb)}
+                      disabled={disabled}
+                      aria-label={`Rename ${kb.name}`}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-red-600 hover:text-red-700 hover:bg-red-50"
+                      onClick={() => setKBToDelete(kb)}
+                      disabled={disabled}
+                      aria-label={`Delete ${kb.name}`}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </nav>
+
+      <div className="p-2 border-t-2 border-gray-300">
+        <Button variant="outline" className="w-full" onClick={onCreateNew} disabled={disabled}>
+          <Plus className="h-4 w-4" />
+          New Knowledge Base
+        </Button>
+      </div>
+
+      <KnowledgeBaseDetailsDialog
+        open={kbToRename !== null}
+        onOpenChange={(open) => !open && setKBToRename(null)}
+        title="Edit Knowledge Base"
+        submitLabel="Save"
+        initialDetails={{ name: kbToRename?.name || "", description: kbToRename?.description || "" }}
+        onSubmit={(details) => kbToRename && onRename(kbToRename.id, details)}
+      />
+
+      <DeleteKnowledgeBaseDialog
+        open={kbToDelete !== null}
+        onOpenChange={(open) => !open && setKBToDelete(null)}
+        kbName={kbToDelete?.name || ""}
+        onConfirm={() => kbToDelete && onDelete(kbToDelete.id)}
+      />
+    </aside>
+  );
+}
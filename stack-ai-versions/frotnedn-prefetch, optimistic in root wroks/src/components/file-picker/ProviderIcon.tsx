@@ -0,0 +1,15 @@
+import { Cloud, HardDrive, NotebookText, Upload, type LucideProps } from "lucide-react";
+import type { ConnectionProvider } from "@/lib/types/connection";
+
+const PROVIDER_ICONS: Record<ConnectionProvider, React.ComponentType<LucideProps>> = {
+  gdrive: HardDrive,
+  onedrive: Cloud,
+  notion: NotebookText,
+  local: Upload,
+};
+
+// Icon of a connection's source app (selector, breadcrumb root)
+export function ProviderIcon({ provider, ...props }: LucideProps & { provider: ConnectionProvider }) {
+  const Icon = PROVIDER_ICONS[provider] || HardDrive;
+  return <Icon aria-hidden {...props} />;
+}
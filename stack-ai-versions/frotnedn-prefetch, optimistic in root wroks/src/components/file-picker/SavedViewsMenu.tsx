@@ -0,0 +1,148 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { Bookmark, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { SavedView } from "@/lib/types/savedView";
+
+export interface ColumnToggle {
+  id: string;
+  label: string;
+  visible: boolean;
+}
+
+interface SavedViewsMenuProps {
+  views: SavedView[];
+  activeViewId: string | null;
+  columns: ColumnToggle[];
+  onToggleColumn: (columnId: string, visible: boolean) => void;
+  onSave: (name: string) => void;
+  onLoad: (view: SavedView) => void;
+  onRename: (viewId: string, name: string) => void;
+  onDelete: (viewId: string) => void;
+}
+
+type NameDialogState = { mode: "save" } | { mode: "rename"; view: SavedView } | null;
+
+// Save, load, rename and delete table views for the current KB, plus column visibility
+export function SavedViewsMenu({ views, activeViewId, columns, onToggleColumn, onSave, onLoad, onRename, onDelete }: SavedViewsMenuProps) {
+  const [nameDialog, setNameDialog] = useState<NameDialogState>(null);
+  const [name, setName] = useState("");
+  const activeView = views.find((view) => view.id === activeViewId);
+
+  // Start from the view's current name every time the dialog opens
+  useEffect(() => {
+    if (nameDialog) {
+      setName(nameDialog.mode === "rename" ? nameDialog.view.name : activeView?.name || "");
+    }
+  }, [nameDialog, activeView?.name]);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!nameDialog || !name.trim()) return;
+
+    if (nameDialog.mode === "rename") {
+      onRename(nameDialog.view.id, name.trim());
+    } else {
+      onSave(name.trim());
+    }
+    setNameDialog(null);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="whitespace-nowrap">
+            <Bookmark className="h-4 w-4" />
+            {activeView ? activeView.name : "Views"}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64 bg-white">
+          <DropdownMenuLabel>Saved views</DropdownMenuLabel>
+          {views.length === 0 && <p className="px-2 py-1.5 text-sm text-gray-500">No saved views yet</p>}
+          {views.map((view) => (
+            <DropdownMenuItem key={view.id} onSelect={() => onLoad(view)} className={view.id === activeViewId ? "font-medium" : undefined}>
+              <span className="flex-1 truncate">{view.name}</span>
+              <button
+                type="button"
+                aria-label={`Rename ${view.name}`}
+                className="rounded p-0.5 hover:bg-gray-200"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  setNameDialog({ mode: "rename", view });
+                }}
+              >
+                <Pencil className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button"
+                aria-label={`Delete ${view.name}`}
+                className="rounded p-0.5 text-red-600 hover:bg-red-50"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  onDelete(view.id);
+                }}
+              >
+                <Trash2 className="h-3.5 w-3.5 text-red-600" />
+              </button>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setNameDialog({ mode: "save" })}>Save current view...</DropdownMenuItem>
+
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Columns</DropdownMenuLabel>
+          {columns.map((column) => (
+            <DropdownMenuCheckboxItem
+              key={column.id}
+              checked={column.visible}
+              onCheckedChange={(checked) => onToggleColumn(column.id, !!checked)}
+              onSelect={(event) => event.preventDefault()} // Keep the menu open while toggling
+            >
+              {column.label}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={!!nameDialog} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent>
+          <form onSubmit={handleSubmit} className="grid gap-4">
+            <DialogHeader>
+              <DialogTitle>{nameDialog?.mode === "rename" ? "Rename view" : "Save view"}</DialogTitle>
+            </DialogHeader>
+
+            <div className="grid gap-2">
+              <label htmlFor="view-name" className="text-sm font-medium text-gray-900">
+                Name
+              </label>
+              <Input id="view-name" value={name} onChange={(event) => setName(event.target.value)} autoFocus required />
+              {nameDialog?.mode === "save" && views.some((view) => view.name === name.trim()) && (
+                <p className="text-xs text-gray-500">A view with this name exists and will be overwritten.</p>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setNameDialog(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim()} className="bg-blue-600 hover:bg-blue-700">
+                {nameDialog?.mode === "rename" ? "Rename" : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,111 @@
+import { useMemo, useState } from "react";
+import { ChevronDown, ChevronRight, Folder, File, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { FileItem } from "@/lib/types/file";
+import { formatFileSize } from "@/lib/utils/fileSize";
+
+interface SelectionSummaryPanelProps {
+  selectedFiles: FileItem[];
+  getStatus: (file: FileItem) => string | null | undefined;
+  onDeselect: (fileId: string) => void;
+  onClear: () => void;
+}
+
+const MAX_TYPE_BADGES = 4; // Further extensions are summed up as "+N more"
+
+// Extension in upper case ("PDF"), or "Other" for files without one
+function getFileType(file: FileItem): string {
+  const baseName = file.name.split("/").pop() || "";
+  const dotIndex = baseName.lastIndexOf(".");
+  return dotIndex > 0 ? baseName.slice(dotIndex + 1).toUpperCase() : "Other";
+}
+
+// What's selected: counts by type, total size, how much is indexed already, and the selected paths
+export function SelectionSummaryPanel({ selectedFiles, getStatus, onDeselect, onClear }: SelectionSummaryPanelProps) {
+  const [isListOpen, setIsListOpen] = useState(false);
+
+  const summary = useMemo(() => {
+    const folders = selectedFiles.filter((file) => file.type === "directory");
+    const files = selectedFiles.filter((file) => file.type === "file");
+
+    const typeCounts = new Map<string, number>();
+    files.forEach((file) => {
+      const type = getFileType(file);
+      typeCounts.set(type, (typeCounts.get(type) || 0) + 1);
+    });
+    const sortedTypes = Array.from(typeCounts).sort((a, b) => b[1] - a[1]);
+    const otherCount = sortedTypes.slice(MAX_TYPE_BADGES).reduce((sum, [, count]) => sum + count, 0);
+
+    return {
+      folderCount: folders.length,
+      fileCount: files.length,
+      types: otherCount > 0 ? [...sortedTypes.slice(0, MAX_TYPE_BADGES), ["more", otherCount] as [string, number]] : sortedTypes,
+      totalBytes: files.reduce((sum, file) => sum + (file.size || 0), 0), // Folder sizes aren't known
+      indexedCount: selectedFiles.filter((file) => getStatus(file) === "indexed").length,
+    };
+  }, [selectedFiles, getStatus]);
+
+  if (selectedFiles.length === 0) return null;
+
+  return (
+    <div className="flex-shrink-0 rounded-md border border-blue-200 bg-blue-50 px-3 py-2 text-sm" aria-label="Selection summary">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+        <button
+          type="button"
+          className="flex items-center gap-1 font-medium text-blue-900"
+          onClick={() => setIsListOpen((open) => !open)}
+          aria-expanded={isListOpen}
+          aria-controls="selection-summary-list"
+        >
+          {isListOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          {selectedFiles.length} selected
+        </button>
+
+        <span className="text-gray-700">
+          {summary.folderCount} folder{summary.folderCount === 1 ? "" : "s"}, {summary.fileCount} file{summary.fileCount === 1 ? "" : "s"}
+        </span>
+
+        {summary.types.length > 0 && (
+          <span className="flex flex-wrap gap-1">
+            {summary.types.map(([type, count]) => (
+              <span key={type} className="rounded bg-white px-1.5 py-0.5 text-xs text-gray-700 border border-blue-100">
+                {type === "more" ? `+${count} more` : `${type} ${count}`}
+              </span>
+            ))}
+          </span>
+        )}
+
+        <span className="text-gray-700" title="Total size of the selected files (folder contents not included)">
+          {formatFileSize(summary.totalBytes)}
+        </span>
+
+        <span className="text-gray-700">{summary.indexedCount} already indexed</span>
+
+        <Button variant="ghost" size="sm" className="ml-auto h-7" onClick={onClear}>
+          Clear selection
+        </Button>
+      </div>
+
+      {isListOpen && (
+        <ul id="selection-summary-list" className="mt-2 max-h-40 space-y-0.5 overflow-y-auto">
+          {selectedFiles.map((file) => (
+            <li key={file.id} className="flex items-center gap-2 rounded px-1 hover:bg-blue-100">
+              {file.type === "directory" ? <Folder className="h-4 w-4 flex-shrink-0 text-blue-500" /> : <File className="h-4 w-4 flex-shrink-0 text-gray-500" />}
+              <span className="min-w-0 flex-1 truncate" title={`/${file.name}`}>
+                /{file.name}
+              </span>
+              <button
+                type="button"
+                className="rounded p-0.5 text-gray-500 hover:bg-blue-200 hover:text-gray-900"
+                onClick={() => onDeselect(file.id)}
+                aria-label={`Remove /${file.name} from the selection`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
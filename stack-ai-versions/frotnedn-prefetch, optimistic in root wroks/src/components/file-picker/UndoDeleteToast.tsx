@@ -0,0 +1,26 @@
+import type { ToastContentProps } from "react-toastify";
+import { Button } from "@/components/ui/button";
+
+export interface UndoDeleteToastData {
+  message: string;
+  onUndo: () => void;
+}
+
+// Toast body for deletions that are still inside their undo window
+export function UndoDeleteToast({ closeToast, data }: ToastContentProps<UndoDeleteToastData>) {
+  return (
+    <div className="flex w-full items-center justify-between gap-3">
+      <span className="text-sm">{data.message}</span>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => {
+          data.onUndo();
+          closeToast();
+        }}
+      >
+        Undo
+      </Button>
+    </div>
+  );
+}
@@ -1,31 +1,67 @@
 import { useEffect } from "react";
-import { login, checkAuthStatus } from "@/lib/api/auth";
+import { toast } from "react-toastify";
+import { login, logout, checkAuthStatus } from "@/lib/api/auth";
+import { onUnauthorized } from "@/lib/api/client";
+import { AuthError } from "@/lib/api/errors";
+import type { AuthStatusResponse, LoginCredentials } from "@/lib/types/auth";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 
+const AUTH_STATUS_KEY = ["authStatus"];
+
 export function useAuth() {
   const queryClient = useQueryClient();
   const { data: authStatus, isLoading: isChecking } = useQuery({
-    queryKey: ["authStatus"],
+    queryKey: AUTH_STATUS_KEY,
     queryFn: checkAuthStatus,
     retry: false,
   });
 
+  // Any 401 from the API means the session is gone; flipping the status sends the page back to login
+  useEffect(
+    () =>
+      onUnauthorized(() => {
+        if (!queryClient.getQueryData<AuthStatusResponse>(AUTH_STATUS_KEY)?.authenticated) return;
+
+        console.warn("🔒 [Auth] Session expired");
+        toast.warning("Your session has expired. Please sign in again.", { toastId: "session-expired" });
+        queryClient.setQueryData<AuthStatusResponse>(AUTH_STATUS_KEY, { authenticated: false });
+      }),
+    [queryClient]
+  );
+
   const loginMutation = useMutation({
-    mutationFn: login,
-    onSuccess: () => {
-      // Invalidate and refetch auth status
-      queryClient.invalidateQueries({ queryKey: ["authStatus"] });
+    mutationFn: (credentials: LoginCredentials) => login(credentials),
+    onSuccess: async () => {
+      console.log("🔓 [Auth] Signed in");
+      // Wait for the new status so the caller can redirect straight away
+      await queryClient.invalidateQueries({ queryKey: AUTH_STATUS_KEY });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: logout,
+    onSettled: () => {
+      // Signed out locally even if the request failed (e.g. the session had already expired).
+      // Cached listings and statuses belong to the previous session
+      console.log("🔒 [Auth] Signed out");
+      queryClient.setQueryData<AuthStatusResponse>(AUTH_STATUS_KEY, { authenticated: false });
+      queryClient.removeQueries({ predicate: (query) => query.queryKey[0] !== AUTH_STATUS_KEY[0] });
     },
   });
 
-  useEffect(() => {
-    if (!isChecking && !authStatus?.authenticated) {
-      loginMutation.mutate();
-    }
-  }, [isChecking, authStatus?.authenticated]);
+  const loginError = loginMutation.error
+    ? loginMutation.error instanceof AuthError
+      ? "Incorrect email or password"
+      : loginMutation.error.message || "Could not sign in"
+    : null;
 
   return {
     isAuthenticated: authStatus?.authenticated ?? false,
-    isLoading: isChecking || loginMutation.isPending,
+    isLoading: isChecking,
+    login: loginMutation.mutateAsync,
+    isLoggingIn: loginMutation.isPending,
+    loginError,
+    logout: () => logoutMutation.mutate(),
+    isLoggingOut: logoutMutation.isPending,
   };
 }
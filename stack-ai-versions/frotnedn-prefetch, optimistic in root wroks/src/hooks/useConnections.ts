@@ -0,0 +1,65 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useCallback, useMemo } from "react";
+import { listConnections } from "@/lib/api/connections";
+import { getConnectionFromStorage, saveConnectionToStorage } from "@/lib/utils/localStorage";
+
+const CONNECTIONS_KEY = ["connections"];
+const CURRENT_CONNECTION_KEY = ["current-connection"]; // Selected connection ID, shared by every hook
+const STALE_TIME = 5 * 60 * 1000; // 5 minutes
+
+// Connections files can be picked from, and the one currently browsed.
+// Listings are cached per connection (see connectionFilesKey), so switching never mixes their folders
+export function useConnections() {
+  const queryClient = useQueryClient();
+
+  const {
+    data: connectionList,
+    isLoading: isLoadingConnections,
+    error: connectionsError,
+  } = useQuery({
+    queryKey: CONNECTIONS_KEY,
+    queryFn: listConnections,
+    staleTime: STALE_TIME,
+  });
+
+  // Use useQuery to subscribe to cache changes, like the sync state
+  const { data: selectedConnectionId } = useQuery({
+    queryKey: CURRENT_CONNECTION_KEY,
+    queryFn: () => getConnectionFromStorage(), // Never runs, the data is always there
+    initialData: () => getConnectionFromStorage(),
+    staleTime: Infinity,
+  });
+
+  const connections = useMemo(() => connectionList?.data || [], [connectionList]);
+
+  // The first connection until one is picked, or when the picked one is gone
+  const currentConnection = useMemo(
+    () => connections.find((connection) => connection.connection_id === selectedConnectionId) || connections[0] || null,
+    [connections, selectedConnectionId]
+  );
+
+  // Returns false when the connection isn't (or no longer) available
+  const switchConnection = useCallback(
+    (connectionId: string): boolean => {
+      const connection = connections.find((candidate) => candidate.connection_id === connectionId);
+      if (!connection) {
+        console.warn(`⚠️ [Connections] Unknown connection: ${connectionId}`);
+        return false;
+      }
+
+      queryClient.setQueryData(CURRENT_CONNECTION_KEY, connectionId);
+      saveConnectionToStorage(connectionId);
+      console.log(`🔌 [Connections] Switched to ${connection.name} (${connection.connection_provider})`);
+      return true;
+    },
+    [connections, queryClient]
+  );
+
+  return {
+    connections,
+    currentConnection,
+    isLoadingConnections,
+    connectionsError,
+    switchConnection,
+  };
+}
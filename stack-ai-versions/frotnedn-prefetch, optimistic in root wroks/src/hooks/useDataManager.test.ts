@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { createTestQueryClient, createWrapper } from "@/test/queryClient";
+import { getAllCachesFromStorage, getDeleteQueueFromStorage, saveDeleteQueueToStorage } from "@/lib/utils/localStorage";
+import { MAX_DELETE_ATTEMPTS, useDataManager } from "./useDataManager";
+
+vi.mock("@/lib/api/connections", () => ({
+  listConnections: vi.fn().mockResolvedValue({
+    data: [{ connection_id: "conn-1", name: "Drive", connection_provider: "gdrive" }],
+  }),
+}));
+
+function renderDataManager(queryClient = createTestQueryClient()) {
+  const view = renderHook(() => useDataManager(), { wrapper: createWrapper(queryClient) });
+  return { ...view, queryClient };
+}
+
+describe("useDataManager", () => {
+  describe("delete queue", () => {
+    it("moves queued deletes from the temp KB to the real one", () => {
+      const { result } = renderDataManager();
+
+      act(() => {
+        result.current.queueDeleteRequest("file-1", "a.pdf", "temp-1");
+        result.current.queueDeleteRequest("file-2", "b.pdf", "kb-other");
+      });
+      act(() => result.current.updateQueueKBId("temp-1", "kb-1"));
+
+      expect(result.current.queue.map((request) => [request.fileId, request.kbId])).toEqual([
+        ["file-1", "kb-1"],
+        ["file-2", "kb-other"],
+      ]);
+      // The handover is persisted too, so a reload sends the delete to the real KB
+      expect(getDeleteQueueFromStorage().find((request) => request.fileId === "file-1")?.kbId).toBe("kb-1");
+    });
+
+    it("backs off after a failure and gives up after MAX_DELETE_ATTEMPTS", () => {
+      const { result } = renderDataManager();
+
+      let requestId = "";
+      act(() => {
+        requestId = result.current.queueDeleteRequest("file-1", "a.pdf", "kb-1");
+      });
+
+      act(() => result.current.recordDeleteFailure(requestId, "boom"));
+      const retried = result.current.queue[0];
+      expect(retried).toMatchObject({ status: "queued", attempts: 1, lastError: "boom" });
+      expect(retried.nextAttemptAt).toBeGreaterThan(Date.now());
+
+      act(() => {
+        for (let attempt = 1; attempt < MAX_DELETE_ATTEMPTS; attempt++) {
+          result.current.recordDeleteFailure(requestId, "boom");
+        }
+      });
+      expect(result.current.queue[0]).toMatchObject({ status: "failed", attempts: MAX_DELETE_ATTEMPTS });
+      expect(result.current.failedDeletes).toHaveLength(1);
+      expect(result.current.queueHasItems).toBe(false);
+
+      act(() => result.current.retryFailedDeletes());
+      expect(result.current.queue[0]).toMatchObject({ status: "queued", attempts: 0 });
+    });
+  });
+
+  describe("file status resolution", () => {
+    it("prefers the optimistic delete registry, then the root cache, then the folder cache", () => {
+      const { result, queryClient } = renderDataManager();
+      queryClient.setQueryData(["kb-resources", "kb-1"], {
+        data: [
+          { id: "root-file", name: "a.pdf", type: "file", status: "pending" },
+          { id: "deleted-file", name: "b.pdf", type: "file", status: "indexed" },
+        ],
+      });
+      queryClient.setQueryData(["kb-file-status", "kb-1", "/Reports"], {
+        data: [{ id: "nested-file", name: "Reports/c.pdf", type: "file", status: "failed" }],
+      });
+
+      act(() => result.current.markFileAsDeleted("deleted-file", "b.pdf", "kb-1"));
+
+      expect(result.current.resolveFileStatus("root-file", "kb-1")).toBe("indexed"); // pending is shown as indexed
+      expect(result.current.resolveFileStatus("deleted-file", "kb-1")).toBe("-");
+      expect(result.current.resolveFileStatus("nested-file", "kb-1", "/Reports")).toBe("failed");
+      expect(result.current.resolveFileStatus("unknown", "kb-1", "/Reports")).toBeNull();
+      // Registry entries only apply to their own KB
+      expect(result.current.resolveFileStatus("deleted-file", "kb-2")).toBeNull();
+    });
+  });
+
+  describe("cache persistence", () => {
+    it("restores root, folder and registry caches from localStorage", async () => {
+      const first = renderDataManager();
+      act(() => {
+        first.result.current.updateKBResourcesCache("kb-1", () => ({
+          data: [{ id: "root-file", name: "a.pdf", type: "file", size: 10, status: "indexed" }],
+        }));
+        first.result.current.updateFolderStatusCache("kb-1", "/Reports", () => ({
+          data: [{ id: "nested-file", name: "Reports/c.pdf", type: "file", size: 10, status: "indexed" }],
+        }));
+        first.result.current.markFileAsDeleted("gone-file", "d.pdf", "kb-1");
+        first.result.current.persistCacheToStorage("kb-1");
+      });
+      expect(getAllCachesFromStorage().map((cache) => cache.kbId)).toEqual(["kb-1"]);
+      first.unmount();
+
+      // A new session starts with an empty query cache
+      const { result, queryClient } = renderDataManager();
+
+      await waitFor(() => expect(queryClient.getQueryData(["kb-resources", "kb-1"])).toBeDefined());
+      expect(queryClient.getQueryData(["kb-file-status", "kb-1", "/Reports"])).toEqual({
+        data: [{ id: "nested-file", name: "Reports/c.pdf", type: "file", size: 10, status: "indexed" }],
+      });
+      expect(result.current.resolveFileStatus("gone-file", "kb-1")).toBe("-");
+    });
+
+    it("restores queued deletes, except ones for a KB that was never created", async () => {
+      saveDeleteQueueToStorage([
+        { id: "delete-1", fileId: "file-1", fileName: "a.pdf", resourcePath: "/a.pdf", kbId: "kb-1", timestamp: 1, status: "queued", attempts: 0 },
+        { id: "delete-2", fileId: "file-2", fileName: "b.pdf", resourcePath: "/b.pdf", kbId: "temp-1", timestamp: 1, status: "queued", attempts: 0 },
+      ]);
+
+      const { result } = renderDataManager();
+
+      await waitFor(() => expect(result.current.queue.map((request) => request.id)).toEqual(["delete-1"]));
+    });
+  });
+});
@@ -1,13 +1,17 @@
 import { useQueryClient, useQuery } from "@tanstack/react-query";
 import { useCallback, useMemo, useEffect } from "react";
 import { FileItem } from "@/lib/types/file";
+import type { DeleteRequest } from "@/lib/types/deleteQueue";
 import { 
-  getCacheFromStorage, 
+  getAllCachesFromStorage, 
   saveCacheToStorage, 
   clearCacheFromStorage, 
-  updateCacheInStorage,
-  type CacheStorageData 
+  getDeleteQueueFromStorage,
+  saveDeleteQueueToStorage,
+  type KBCacheNamespace 
 } from "@/lib/utils/localStorage";
+import { connectionFilesKey } from "@/lib/utils/connections";
+import { useConnections } from "./useConnections";
 
 /**
  * Centralized Data Manager
@@ -27,17 +31,15 @@ const DELETE_QUEUE_KEY = ["delete-queue"];
 const OPTIMISTIC_DELETE_REGISTRY_KEY = ["optimistic-delete-registry"];
 const OPTIMISTIC_UPDATE_COUNTER_KEY = ["optimistic-update-counter"];
 
+// Delete retries
+export const MAX_DELETE_ATTEMPTS = 5;
+const DELETE_RETRY_BASE_DELAY = 2000; // 2 seconds, doubled per attempt
+const DELETE_RETRY_MAX_DELAY = 60 * 1000; // 1 minute
+
 // Types
 export type SyncState = "idle" | "pending" | "synced";
 
-export interface DeleteRequest {
-  id: string;
-  fileId: string;
-  fileName: string;
-  resourcePath: string;
-  kbId: string;
-  timestamp: number;
-}
+export type { DeleteRequest };
 
 interface SyncStateData {
   state: SyncState;
@@ -64,40 +66,111 @@ interface OptimisticDeleteRegistryData {
   lastUpdated: number;
 }
 
+// Delete locks and queued deletes taken back by releaseDeletes, so restoreDeletes can put them back
+export interface ReleasedDeletes {
+  entries: OptimisticDeleteEntry[];
+  requests: DeleteRequest[];
+}
+
+// Merge files into an existing KB cache as "pending" (shown as "indexed" by resolveFileStatus)
+function mergePendingResources(prev: { data: FileItem[] } | undefined, files: FileItem[]): { data: FileItem[] } {
+  const addedIds = new Set(files.map(file => file.id));
+  const pendingFiles = files.map(file => ({
+    id: file.id,
+    name: file.name,
+    type: file.type,
+    size: file.size || 0,
+    status: "pending" as const,
+    indexed_at: new Date().toISOString()
+  }));
+
+  return {
+    data: [...(prev?.data || []).filter(resource => !addedIds.has(resource.id)), ...pendingFiles]
+  };
+}
+
+// Merge a pushed status snapshot into a cache; returns null when nothing changed.
+// While a sync is pending the backend may not list just-added files yet, so optimistic pending entries are kept.
+function mergeStatusSnapshot(
+  prev: { data: FileItem[] } | undefined,
+  snapshot: FileItem[],
+  keepPending: boolean
+): { data: FileItem[] } | null {
+  const snapshotIds = new Set(snapshot.map(resource => resource.id));
+  const keptPending = keepPending
+    ? (prev?.data || []).filter(resource => resource.status === "pending" && !snapshotIds.has(resource.id))
+    : [];
+  const next = [...snapshot, ...keptPending];
+
+  const previousStatuses = new Map((prev?.data || []).map(resource => [resource.id, resource.status]));
+  const hasChanges =
+    previousStatuses.size !== next.length ||
+    next.some(resource => !previousStatuses.has(resource.id) || previousStatuses.get(resource.id) !== resource.status);
+
+  return hasChanges ? { data: next } : null;
+}
+
 export function useDataManager() {
   const queryClient = useQueryClient();
+  const { currentConnection } = useConnections();
+  const connectionId = currentConnection?.connection_id ?? null;
 
   // ==================== CACHE PERSISTENCE ====================
   
-  // Load cache from localStorage on mount
+  // Load every KB's cache from localStorage on mount
   useEffect(() => {
-    const storedCache = getCacheFromStorage();
-    if (!storedCache) return;
+    const storedCaches = getAllCachesFromStorage();
+    if (storedCaches.length === 0) return;
 
-    console.log("📖 [DataManager] Restoring cache from localStorage");
+    console.log(`📖 [DataManager] Restoring cache from localStorage for ${storedCaches.length} KB(s)`);
 
-    // Restore root resources cache
-    if (storedCache.rootResources) {
-      queryClient.setQueryData(["kb-resources", storedCache.kbId], storedCache.rootResources);
-      console.log(`📖 [Cache] Restored root resources for KB: ${storedCache.kbId}`);
-    }
+    const restoredRegistry: Record<string, OptimisticDeleteEntry> = {};
+
+    storedCaches.forEach((storedCache) => {
+      // Restore root resources cache
+      if (storedCache.rootResources) {
+        queryClient.setQueryData(["kb-resources", storedCache.kbId], storedCache.rootResources);
+        console.log(`📖 [Cache] Restored root resources for KB: ${storedCache.kbId}`);
+      }
 
-    // Restore folder status caches
-    Object.entries(storedCache.folderStatuses).forEach(([folderPath, folderData]) => {
-      queryClient.setQueryData(["kb-file-status", storedCache.kbId, folderPath], folderData);
-      console.log(`📖 [Cache] Restored folder status: ${folderPath}`);
+      // Restore folder status caches
+      Object.entries(storedCache.folderStatuses).forEach(([folderPath, folderData]) => {
+        queryClient.setQueryData(["kb-file-status", storedCache.kbId, folderPath], folderData);
+        console.log(`📖 [Cache] Restored folder status: ${folderPath}`);
+      });
+
+      Object.assign(restoredRegistry, storedCache.optimisticRegistry);
     });
 
     // Restore optimistic registry
-    if (storedCache.optimisticRegistry) {
+    if (Object.keys(restoredRegistry).length > 0) {
       queryClient.setQueryData(OPTIMISTIC_DELETE_REGISTRY_KEY, {
-        entries: storedCache.optimisticRegistry,
+        entries: restoredRegistry,
         lastUpdated: Date.now(),
       });
       console.log("📖 [Cache] Restored optimistic delete registry");
     }
   }, [queryClient]);
 
+  // Restore pending deletes so a reload doesn't lose them (they are already hidden by the registry)
+  useEffect(() => {
+    // Deletes for a KB whose creation never finished can't be sent anywhere
+    const storedQueue = getDeleteQueueFromStorage().filter(request => !request.kbId.startsWith("temp-"));
+    if (storedQueue.length === 0) return;
+
+    const currentQueue = queryClient.getQueryData<DeleteQueueData>(DELETE_QUEUE_KEY)?.queue || [];
+    const knownIds = new Set(currentQueue.map(request => request.id));
+    const restored = storedQueue.filter(request => !knownIds.has(request.id));
+    if (restored.length === 0) return;
+
+    queryClient.setQueryData<DeleteQueueData>(DELETE_QUEUE_KEY, (prev) => ({
+      queue: [...(prev?.queue || []), ...restored],
+      processing: prev?.processing || false,
+      lastUpdated: Date.now(),
+    }));
+    console.log(`📖 [DataManager] Restored ${restored.length} queued delete(s) from localStorage`);
+  }, [queryClient]);
+
   // Save cache to localStorage when data changes
   const persistCacheToStorage = useCallback(
     (kbId: string) => {
@@ -120,13 +193,17 @@ export function useDataManager() {
           }
         });
 
-        const cacheData: CacheStorageData = {
+        // Only this KB's registry entries belong in its namespace
+        const optimisticRegistry = Object.fromEntries(
+          Object.entries(registryData?.entries || {}).filter(([, entry]) => entry.kbId === kbId)
+        );
+
+        const cacheData: KBCacheNamespace = {
           kbId,
           timestamp: Date.now(),
           rootResources: rootResources || null,
           folderStatuses,
-          optimisticRegistry: registryData?.entries || {},
-          version: "1.0",
+          optimisticRegistry,
         };
 
         saveCacheToStorage(cacheData);
@@ -163,7 +240,7 @@ export function useDataManager() {
 
   // ==================== DELETE QUEUE ====================
   
-  const { data: queueData } = useQuery({
+  const { data: queueData } = useQuery<DeleteQueueData>({
     queryKey: DELETE_QUEUE_KEY,
     queryFn: () => ({ queue: [], processing: false, lastUpdated: Date.now() }),
     initialData: { queue: [], processing: false, lastUpdated: Date.now() },
@@ -175,6 +252,9 @@ export function useDataManager() {
       const currentData = queryClient.getQueryData<DeleteQueueData>(DELETE_QUEUE_KEY) || queueData;
       const newData = updater(currentData);
       queryClient.setQueryData(DELETE_QUEUE_KEY, newData);
+      if (newData.queue !== currentData.queue) {
+        saveDeleteQueueToStorage(newData.queue);
+      }
       return newData;
     },
     [queryClient, queueData]
@@ -182,7 +262,7 @@ export function useDataManager() {
 
   // ==================== OPTIMISTIC DELETE REGISTRY ====================
   
-  const { data: registryData } = useQuery({
+  const { data: registryData } = useQuery<OptimisticDeleteRegistryData>({
     queryKey: OPTIMISTIC_DELETE_REGISTRY_KEY,
     queryFn: () => ({ entries: {}, lastUpdated: Date.now() }),
     initialData: { entries: {}, lastUpdated: Date.now() },
@@ -229,8 +309,8 @@ export function useDataManager() {
    */
   const resolveFileStatus = useCallback(
     (fileId: string, kbId: string | null, folderPath?: string): FileItem["status"] | "-" | null => {
-      // 1. Check optimistic delete registry (highest priority)
-      if (fileId in registryData.entries) {
+      // 1. Check optimistic delete registry (highest priority, scoped to this KB)
+      if (registryData.entries[fileId]?.kbId === kbId) {
         return "-"; // Show as deleted
       }
 
@@ -292,16 +372,16 @@ export function useDataManager() {
     [updateKBResourcesCache]
   );
 
-  // Folder File Cache Operations (for Google Drive files)
+  // Folder File Cache Operations (for the current connection's files)
   const updateFolderFileCache = useCallback(
     (folderId: string, updater: (prev: { data: FileItem[] } | undefined) => { data: FileItem[] }) => {
-      const cacheKey = ["drive-files", folderId];
+      const cacheKey = connectionFilesKey(connectionId, folderId);
       const currentData = queryClient.getQueryData<{ data: FileItem[] }>(cacheKey);
       const newData = updater(currentData);
       queryClient.setQueryData(cacheKey, newData);
       console.log(`📝 [DataManager] Updated folder file cache: ${folderId}`);
     },
-    [queryClient]
+    [queryClient, connectionId]
   );
 
   // Folder Status Cache Operations (for KB folder status)
@@ -355,6 +435,48 @@ export function useDataManager() {
     [updateFolderStatusCache, incrementOptimisticUpdateCounter]
   );
 
+  // Add files to the root KB cache without touching already indexed resources
+  const addToKBResourcesCache = useCallback(
+    (kbId: string, files: FileItem[]) => {
+      updateKBResourcesCache(kbId, (prev) => mergePendingResources(prev, files));
+      console.log(`✅ [DataManager] Added ${files.length} pending resources to KB root cache`);
+    },
+    [updateKBResourcesCache]
+  );
+
+  // Add files to a folder status cache without touching already indexed resources
+  const addToFolderStatusCache = useCallback(
+    (kbId: string, folderPath: string, files: FileItem[]) => {
+      updateFolderStatusCache(kbId, folderPath, (prev) => mergePendingResources(prev, files));
+      console.log(`✅ [DataManager] Added ${files.length} pending resources to folder ${folderPath}`);
+
+      // Trigger re-render for expanded folders
+      incrementOptimisticUpdateCounter();
+    },
+    [updateFolderStatusCache, incrementOptimisticUpdateCounter]
+  );
+
+  // Apply a status snapshot pushed by the KB status stream to the root or folder cache
+  const applyStatusSnapshot = useCallback(
+    (kbId: string, resourcePath: string, resources: FileItem[]) => {
+      const syncData = queryClient.getQueryData<SyncStateData>(SYNC_STATE_KEY);
+      const keepPending = syncData?.state === "pending" && syncData.kbId === kbId;
+      const cacheKey = resourcePath === "/" ? ["kb-resources", kbId] : ["kb-file-status", kbId, resourcePath];
+
+      const merged = mergeStatusSnapshot(queryClient.getQueryData<{ data: FileItem[] }>(cacheKey), resources, keepPending);
+      if (!merged) return;
+
+      console.log(`📡 [DataManager] Status snapshot for ${kbId}${resourcePath}: ${resources.length} resources`);
+      if (resourcePath === "/") {
+        updateKBResourcesCache(kbId, () => merged);
+      } else {
+        updateFolderStatusCache(kbId, resourcePath, () => merged);
+        incrementOptimisticUpdateCounter();
+      }
+    },
+    [queryClient, updateKBResourcesCache, updateFolderStatusCache, incrementOptimisticUpdateCounter]
+  );
+
   // ==================== FOLDER HELPER FUNCTIONS ====================
   
   // Extract folder path from file name (same logic as useFileTree)
@@ -366,9 +488,9 @@ export function useDataManager() {
 
   // Get all files in a folder from the file cache
   const getFolderContents = useCallback((folderId: string): FileItem[] => {
-    const folderData = queryClient.getQueryData<{ data: FileItem[] }>(["drive-files", folderId]);
+    const folderData = queryClient.getQueryData<{ data: FileItem[] }>(connectionFilesKey(connectionId, folderId));
     return folderData?.data || [];
-  }, [queryClient]);
+  }, [queryClient, connectionId]);
 
   // Find all descendant file IDs recursively
   const getAllDescendantFileIds = useCallback(
@@ -380,8 +502,10 @@ export function useDataManager() {
           if (file.type === "file") {
             descendants.push(file.id);
           } else if (file.type === "directory") {
+            // Prefer the folder's cached contents, which also covers collapsed folders
+            const cachedChildren = getFolderContents(file.id);
             // Find files in this directory
-            const childFiles = allFiles.filter(f => 
+            const childFiles = cachedChildren.length > 0 ? cachedChildren : allFiles.filter(f => 
               f.name.startsWith(file.name + "/") && 
               f.name.split("/").length === file.name.split("/").length + 1
             );
@@ -393,7 +517,27 @@ export function useDataManager() {
       processFiles(parentFiles);
       return descendants;
     },
-    []
+    [getFolderContents]
+  );
+
+  // Find all cached descendant folders recursively
+  const getAllDescendantFolders = useCallback(
+    (folderId: string): FileItem[] => {
+      const folders: FileItem[] = [];
+
+      const processFolder = (id: string) => {
+        getFolderContents(id)
+          .filter(item => item.type === "directory")
+          .forEach(folder => {
+            folders.push(folder);
+            processFolder(folder.id);
+          });
+      };
+
+      processFolder(folderId);
+      return folders;
+    },
+    [getFolderContents]
   );
 
   // ==================== COMPUTED VALUES ====================
@@ -401,6 +545,8 @@ export function useDataManager() {
   const computedValues = useMemo(() => {
     const { state: syncState, kbId: syncKbId } = syncStateData;
     const { queue, processing } = queueData;
+    const pendingDeletes = queue.filter(request => request.status === "queued");
+    const failedDeletes = queue.filter(request => request.status === "failed");
     const { entries } = registryData;
     const { count: optimisticUpdateCount } = optimisticUpdateCounter;
 
@@ -412,11 +558,12 @@ export function useDataManager() {
       isSyncCompleted: syncState === "synced",
       isSyncIdle: syncState === "idle",
 
-      // Queue state
+      // Queue state (failed requests stay in the queue until retried or dismissed)
       queue,
       queueProcessing: processing,
-      queueCount: queue.length,
-      queueHasItems: queue.length > 0,
+      queueCount: pendingDeletes.length,
+      queueHasItems: pendingDeletes.length > 0,
+      failedDeletes,
 
       // Registry state
       optimisticDeleteEntries: entries,
@@ -439,7 +586,8 @@ export function useDataManager() {
     resetSyncState: () => updateSyncState("idle", null),
 
     // Queue operations
-    queueDeleteRequest: (fileId: string, fileName: string, kbId: string) => {
+    // nextAttemptAt holds the request back, e.g. until its undo window has passed
+    queueDeleteRequest: (fileId: string, fileName: string, kbId: string, nextAttemptAt?: number) => {
       const deleteRequest: DeleteRequest = {
         id: `delete-${fileId}-${Date.now()}`,
         fileId,
@@ -447,6 +595,9 @@ export function useDataManager() {
         resourcePath: `/${fileName}`,
         kbId,
         timestamp: Date.now(),
+        status: "queued",
+        attempts: 0,
+        nextAttemptAt,
       };
 
       updateQueueData((prev) => ({
@@ -488,6 +639,39 @@ export function useDataManager() {
       }));
     },
 
+    // Back off after a failed attempt, or give up once MAX_DELETE_ATTEMPTS is reached
+    recordDeleteFailure: (requestId: string, error: string) => {
+      updateQueueData((prev) => ({
+        ...prev,
+        queue: prev.queue.map(request => {
+          if (request.id !== requestId) return request;
+
+          const attempts = request.attempts + 1;
+          if (attempts >= MAX_DELETE_ATTEMPTS) {
+            console.log(`❌ [DataManager] Giving up on delete after ${attempts} attempts: ${request.fileName}`);
+            return { ...request, attempts, lastError: error, status: "failed" as const, nextAttemptAt: undefined };
+          }
+
+          const delay = Math.min(DELETE_RETRY_BASE_DELAY * 2 ** (attempts - 1), DELETE_RETRY_MAX_DELAY);
+          return { ...request, attempts, lastError: error, nextAttemptAt: Date.now() + delay };
+        }),
+        lastUpdated: Date.now(),
+      }));
+    },
+
+    // Put permanently failed deletes back in the queue with a fresh attempt budget
+    retryFailedDeletes: (requestIds?: string[]) => {
+      updateQueueData((prev) => ({
+        ...prev,
+        queue: prev.queue.map(request =>
+          request.status === "failed" && (!requestIds || requestIds.includes(request.id))
+            ? { ...request, status: "queued" as const, attempts: 0, nextAttemptAt: undefined }
+            : request
+        ),
+        lastUpdated: Date.now(),
+      }));
+    },
+
     clearQueue: () => {
       updateQueueData(() => ({
         queue: [],
@@ -519,6 +703,42 @@ export function useDataManager() {
       incrementOptimisticUpdateCounter();
     },
 
+    markFilesAsDeleted: (files: Array<{ fileId: string; fileName: string }>, kbId: string) => {
+      if (files.length === 0) return;
+
+      const timestamp = Date.now();
+      updateRegistryData((prev) => {
+        const newEntries = { ...prev.entries };
+        files.forEach(({ fileId, fileName }) => {
+          newEntries[fileId] = { fileId, fileName, kbId, timestamp, locked: true };
+        });
+        return {
+          ...prev,
+          entries: newEntries,
+          lastUpdated: timestamp,
+        };
+      });
+
+      console.log(`🔒 [DataManager] Marked ${files.length} resources as deleted`);
+
+      // Trigger re-render for optimistic deletes
+      incrementOptimisticUpdateCounter();
+    },
+
+    updateRegistryKBId: (oldKbId: string, newKbId: string) => {
+      updateRegistryData((prev) => ({
+        ...prev,
+        entries: Object.fromEntries(
+          Object.entries(prev.entries).map(([fileId, entry]) => [
+            fileId,
+            entry.kbId === oldKbId ? { ...entry, kbId: newKbId } : entry,
+          ])
+        ),
+        lastUpdated: Date.now(),
+      }));
+      console.log(`🔄 [DataManager] Updated registry KB ID: ${oldKbId} → ${newKbId}`);
+    },
+
     removeFromRegistry: (fileId: string) => {
       updateRegistryData((prev) => {
         const newEntries = { ...prev.entries };
@@ -531,6 +751,52 @@ export function useDataManager() {
       });
     },
 
+    // Drop the delete locks and queued deletes of files (e.g. when they are added back) and return them
+    releaseDeletes: (fileIds: string[]): ReleasedDeletes => {
+      const released: ReleasedDeletes = { entries: [], requests: [] };
+
+      updateRegistryData((prev) => {
+        released.entries = fileIds.map(fileId => prev.entries[fileId]).filter((entry): entry is OptimisticDeleteEntry => !!entry);
+        if (released.entries.length === 0) return prev;
+
+        const newEntries = { ...prev.entries };
+        released.entries.forEach(entry => delete newEntries[entry.fileId]);
+        return { ...prev, entries: newEntries, lastUpdated: Date.now() };
+      });
+
+      updateQueueData((prev) => {
+        released.requests = prev.queue.filter(request => fileIds.includes(request.fileId));
+        if (released.requests.length === 0) return prev;
+
+        return { ...prev, queue: prev.queue.filter(request => !fileIds.includes(request.fileId)), lastUpdated: Date.now() };
+      });
+
+      return released;
+    },
+
+    // Put back what releaseDeletes took, e.g. after the add that needed it failed
+    restoreDeletes: ({ entries, requests }: ReleasedDeletes) => {
+      if (entries.length > 0) {
+        updateRegistryData((prev) => ({
+          ...prev,
+          entries: { ...prev.entries, ...Object.fromEntries(entries.map(entry => [entry.fileId, entry])) },
+          lastUpdated: Date.now(),
+        }));
+        incrementOptimisticUpdateCounter();
+      }
+
+      if (requests.length > 0) {
+        const requestIds = new Set(requests.map(request => request.id));
+        updateQueueData((prev) => ({
+          ...prev,
+          queue: [...prev.queue.filter(request => !requestIds.has(request.id)), ...requests],
+          lastUpdated: Date.now(),
+        }));
+      }
+
+      console.log(`↩️ [DataManager] Restored ${entries.length} delete locks and ${requests.length} queued deletes`);
+    },
+
     clearRegistry: () => {
       updateRegistryData(() => ({
         entries: {},
@@ -548,6 +814,9 @@ export function useDataManager() {
     updateFolderStatusCache,
     removeFromFolderStatusCache,
     setFolderContentsAsIndexed,
+    addToKBResourcesCache,
+    addToFolderStatusCache,
+    applyStatusSnapshot,
 
     // Status resolution
     resolveFileStatus,
@@ -556,6 +825,7 @@ export function useDataManager() {
     getFolderPathFromFileName,
     getFolderContents,
     getAllDescendantFileIds,
+    getAllDescendantFolders,
 
     // Cache persistence
     persistCacheToStorage,
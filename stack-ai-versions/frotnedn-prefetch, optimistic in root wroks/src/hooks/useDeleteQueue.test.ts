@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { createTestQueryClient, createWrapper } from "@/test/queryClient";
+import { deleteKBResource } from "@/lib/api/knowledgeBase";
+import { useDeleteQueue } from "./useDeleteQueue";
+
+vi.mock("@/lib/api/knowledgeBase", () => ({
+  deleteKBResource: vi.fn(),
+}));
+
+vi.mock("react-toastify", () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+function renderDeleteQueue() {
+  return renderHook(() => useDeleteQueue(), { wrapper: createWrapper(createTestQueryClient()) });
+}
+
+describe("useDeleteQueue", () => {
+  it("queues deletes with the resource path of the file", () => {
+    const { result } = renderDeleteQueue();
+
+    act(() => {
+      result.current.queueDeleteRequest("file-1", "Reports/a.pdf", "kb-1");
+    });
+
+    expect(result.current.queue).toEqual([
+      expect.objectContaining({ fileId: "file-1", resourcePath: "/Reports/a.pdf", kbId: "kb-1" }),
+    ]);
+    expect(result.current.queueStats).toEqual({ count: 1, processing: false, hasItems: true });
+  });
+
+  it("moves requests from the temp KB to the real one and leaves other KBs alone", () => {
+    const { result } = renderDeleteQueue();
+
+    act(() => {
+      result.current.queueDeleteRequest("file-1", "a.pdf", "temp-1");
+      result.current.queueDeleteRequest("file-2", "b.pdf", "kb-other");
+    });
+    act(() => result.current.updateQueueKBId("temp-1", "kb-1"));
+
+    expect(result.current.queue.map((request) => request.kbId)).toEqual(["kb-1", "kb-other"]);
+  });
+
+  it("only processes requests for the current KB and drops the successful ones", async () => {
+    vi.mocked(deleteKBResource).mockResolvedValue({ success: true });
+    const { result } = renderDeleteQueue();
+
+    act(() => {
+      result.current.queueDeleteRequest("file-2", "b.pdf", "kb-other");
+      result.current.queueDeleteRequest("file-1", "a.pdf", "kb-1");
+    });
+    await act(() => result.current.processQueue("kb-1"));
+
+    expect(deleteKBResource).toHaveBeenCalledTimes(1);
+    expect(deleteKBResource).toHaveBeenCalledWith("kb-1", "/a.pdf");
+    expect(result.current.queue.map((request) => request.fileId)).toEqual(["file-2"]);
+    expect(result.current.processing).toBe(false);
+  });
+
+  it("keeps failed requests queued", async () => {
+    vi.mocked(deleteKBResource).mockRejectedValue(new Error("boom"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { result } = renderDeleteQueue();
+
+    act(() => {
+      result.current.queueDeleteRequest("file-1", "a.pdf", "kb-1");
+    });
+    await act(() => result.current.processQueue("kb-1"));
+
+    expect(result.current.queue.map((request) => request.fileId)).toEqual(["file-1"]);
+    expect(result.current.processing).toBe(false);
+  });
+});
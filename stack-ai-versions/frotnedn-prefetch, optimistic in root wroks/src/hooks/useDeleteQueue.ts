@@ -25,7 +25,7 @@ export function useDeleteQueue() {
   const queryClient = useQueryClient();
 
   // Use useQuery to subscribe to cache changes
-  const { data: queueData } = useQuery({
+  const { data: queueData } = useQuery<DeleteQueueData>({
     queryKey: DELETE_QUEUE_KEY,
     queryFn: () => {
       // This won't actually run since we always have data
@@ -1,5 +1,6 @@
-import { useState, useCallback, useMemo, useEffect } from "react";
+import { useState, useCallback, useMemo, useEffect, useRef } from "react";
 import { FileItem } from "@/lib/types/file";
+import { useConnections } from "./useConnections";
 import { useDataManager } from "./useDataManager";
 
 interface UseFileSelectionProps {
@@ -7,40 +8,61 @@ interface UseFileSelectionProps {
   statusMap?: Map<string, string>;
   hasKB?: boolean;
   kbId?: string | null;
+  canDeleteFolder?: (folder: FileItem) => boolean;
 }
 
-export function useFileSelection({ files, statusMap, hasKB, kbId }: UseFileSelectionProps) {
+// Resolved statuses of files that belong to the current KB
+const KB_MEMBER_STATUSES = ["indexed", "error", "failed"];
+
+export function useFileSelection({ files, statusMap, hasKB, kbId, canDeleteFolder }: UseFileSelectionProps) {
   const [rowSelection, setRowSelection] = useState<Record<string, boolean>>({});
   const { resolveFileStatus, getFolderPathFromFileName } = useDataManager();
 
-  // Auto-deselect files that are no longer indexed when in KB mode
+  // Every file the table has shown, so selected files stay selected after they leave the table
+  // (drilling into another folder, switching between tree and breadcrumb view)
+  const seenFilesRef = useRef(new Map<string, FileItem>());
   useEffect(() => {
-    if (!hasKB || !kbId) return;
+    files.forEach((file) => seenFilesRef.current.set(file.id, file));
+  }, [files]);
 
-    setRowSelection(prev => {
-      const newSelection = { ...prev };
-      let hasChanges = false;
+  // A KB request carries a single connection, so the selection doesn't survive switching sources
+  const { currentConnection } = useConnections();
+  const connectionId = currentConnection?.connection_id || null;
+  const selectionConnectionRef = useRef(connectionId);
+  useEffect(() => {
+    if (selectionConnectionRef.current === connectionId) return;
+    selectionConnectionRef.current = connectionId;
+    setRowSelection({});
+    seenFilesRef.current.clear();
+  }, [connectionId]);
 
-      Object.keys(prev).forEach(fileId => {
-        const file = files.find(f => f.id === fileId);
-        if (!file) return;
+  // Resolved KB status for a file (pending is already reported as "indexed")
+  const getResolvedStatus = useCallback(
+    (file: FileItem) => {
+      const folderPath = file.level && file.level > 0 ? getFolderPathFromFileName(file.name) : undefined;
+      return resolveFileStatus(file.id, kbId || null, folderPath);
+    },
+    [kbId, resolveFileStatus, getFolderPathFromFileName]
+  );
 
-        // Use DataManager's resolveFileStatus for accurate status
-        const folderPath = file.level && file.level > 0 ? getFolderPathFromFileName(file.name) : undefined;
-        const resolvedStatus = resolveFileStatus(fileId, kbId, folderPath);
-        
-        // If file is selected but no longer indexed/failed, deselect it
-        const validStatuses = ["indexed", "error", "failed"];
-        if (!validStatuses.includes(resolvedStatus || "")) {
-          delete newSelection[fileId];
-          hasChanges = true;
-          console.log(`Auto-deselected file ${fileId} (resolved status: ${resolvedStatus || 'undefined'})`);
-        }
-      });
+  // Files and folders that are part of the KB and can be de-indexed
+  const isFileInKB = useCallback(
+    (file: FileItem): boolean => {
+      if (file.type === "directory") return canDeleteFolder?.(file) ?? false;
+      return KB_MEMBER_STATUSES.includes(getResolvedStatus(file) || "");
+    },
+    [getResolvedStatus, canDeleteFolder]
+  );
 
-      return hasChanges ? newSelection : prev;
-    });
-  }, [files, hasKB, kbId, resolveFileStatus, getFolderPathFromFileName]);
+  // Files and folders that are not in the KB (never indexed or optimistically deleted) and can be added to it
+  const canAddFile = useCallback(
+    (file: FileItem): boolean => {
+      if (file.type === "directory" && isFileInKB(file)) return false;
+      const resolvedStatus = getResolvedStatus(file);
+      return resolvedStatus === null || resolvedStatus === "-";
+    },
+    [getResolvedStatus, isFileInKB]
+  );
 
   // Helper to check if a file can be selected
   const canSelectFile = useCallback((file: FileItem): boolean => {
@@ -51,26 +73,40 @@ export function useFileSelection({ files, statusMap, hasKB, kbId }: UseFileSelec
     
     if (!kbId) return false; // No KB ID available
     
-    // In delete mode (hasKB=true), only individual files with indexed/failed status can be selected
-    if (file.type === "directory") {
-      // Folders cannot be selected for deletion (API limitation)
-      return false;
-    }
-    
-    // Use DataManager's resolveFileStatus for accurate status resolution
-    const folderPath = file.level && file.level > 0 ? getFolderPathFromFileName(file.name) : undefined;
-    const resolvedStatus = resolveFileStatus(file.id, kbId, folderPath);
-    
-    // Only files with indexed or failed status can be selected for deletion
-    const canSelect = resolvedStatus === "indexed" || resolvedStatus === "error" || resolvedStatus === "failed";
+    // Indexed/failed files and folders can be deleted, ones not in the KB yet can be added
+    const canSelect = isFileInKB(file) || canAddFile(file);
     
     if (file.level === 0) {
       // Debug root files
-      console.log(`Root file ${file.id}: statusMap has ${statusMap?.get(file.id)}, resolved: ${resolvedStatus}, canSelect: ${canSelect}`);
+      console.log(`Root file ${file.id}: statusMap has ${statusMap?.get(file.id)}, resolved: ${getResolvedStatus(file)}, canSelect: ${canSelect}`);
     }
     
     return canSelect;
-  }, [hasKB, kbId, resolveFileStatus, getFolderPathFromFileName, statusMap]);
+  }, [hasKB, kbId, isFileInKB, canAddFile, getResolvedStatus, statusMap]);
+
+  // Auto-deselect files that can no longer be selected when in KB mode
+  useEffect(() => {
+    if (!hasKB || !kbId) return;
+
+    setRowSelection(prev => {
+      const newSelection = { ...prev };
+      let hasChanges = false;
+
+      Object.keys(prev).forEach(fileId => {
+        const file = files.find(f => f.id === fileId);
+        if (!file) return;
+
+        // e.g. a file whose status moved to pending_delete
+        if (!canSelectFile(file)) {
+          delete newSelection[fileId];
+          hasChanges = true;
+          console.log(`Auto-deselected file ${fileId} (resolved status: ${getResolvedStatus(file) || 'undefined'})`);
+        }
+      });
+
+      return hasChanges ? newSelection : prev;
+    });
+  }, [files, hasKB, kbId, canSelectFile, getResolvedStatus]);
 
   // Build a map of parent-child relationships for efficient lookups
   const fileRelationships = useMemo(() => {
@@ -115,6 +151,46 @@ export function useFileSelection({ files, statusMap, hasKB, kbId }: UseFileSelec
     [fileRelationships]
   );
 
+  // Select or deselect one row in a selection draft; folders take their descendants along
+  const applyRowSelection = useCallback(
+    (selection: Record<string, boolean>, file: FileItem, isSelected: boolean) => {
+      // Toggle the clicked item
+      if (isSelected) {
+        selection[file.id] = true;
+      } else {
+        delete selection[file.id];
+      }
+
+      // If it's a directory, handle all descendants
+      if (file.type === "directory") {
+        const descendantIds = getAllDescendantIds(file.id);
+        const isFolderInKB = hasKB && isFileInKB(file);
+
+        descendantIds.forEach((id) => {
+          const descendantFile = files.find(f => f.id === id);
+          if (!descendantFile) return;
+
+          // In KB mode a selected folder is either de-indexed (its indexed descendants go along) or added (the rest does)
+          const canSelectDescendant = !hasKB
+            ? canSelectFile(descendantFile)
+            : isFolderInKB
+              ? isFileInKB(descendantFile)
+              : canAddFile(descendantFile);
+
+          if (isSelected && canSelectDescendant) {
+            selection[id] = true;
+          } else {
+            delete selection[id];
+          }
+        });
+      }
+    },
+    [files, hasKB, getAllDescendantIds, canSelectFile, isFileInKB, canAddFile]
+  );
+
+  // Last row toggled without Shift; Shift-click selects from here
+  const anchorIdRef = useRef<string | null>(null);
+
   // Custom selection handler that validates against current status
   const handleRowSelection = useCallback(
     (fileId: string, isSelected: boolean) => {
@@ -127,37 +203,56 @@ export function useFileSelection({ files, statusMap, hasKB, kbId }: UseFileSelec
         return;
       }
 
+      anchorIdRef.current = fileId;
       setRowSelection((prev) => {
         const newSelection = { ...prev };
+        applyRowSelection(newSelection, file, isSelected);
+        return newSelection;
+      });
+    },
+    [files, canSelectFile, applyRowSelection]
+  );
 
-        // Toggle the clicked item
-        if (isSelected) {
-          newSelection[fileId] = true;
-        } else {
-          delete newSelection[fileId];
-        }
+  // Shift-click: select every selectable row between the anchor and the clicked row, in display order
+  const selectRange = useCallback(
+    (fileId: string, orderedFiles: FileItem[]) => {
+      const toIndex = orderedFiles.findIndex((file) => file.id === fileId);
+      const fromIndex = anchorIdRef.current ? orderedFiles.findIndex((file) => file.id === anchorIdRef.current) : -1;
+      if (toIndex === -1) return;
 
-        // If it's a directory and we're in create mode, handle all descendants
-        if (file.type === "directory" && !hasKB) {
-          const descendantIds = getAllDescendantIds(fileId);
+      // No anchor in view (first click, or it was filtered out): behave like a plain toggle
+      if (fromIndex === -1) {
+        handleRowSelection(fileId, !rowSelection[fileId]);
+        return;
+      }
 
-          descendantIds.forEach((id) => {
-            const descendantFile = files.find(f => f.id === id);
-            if (!descendantFile) return;
+      const range = orderedFiles.slice(Math.min(fromIndex, toIndex), Math.max(fromIndex, toIndex) + 1).filter(canSelectFile);
+      console.log(`Range selection: ${range.length} rows`);
 
-            if (isSelected && canSelectFile(descendantFile)) {
-              newSelection[id] = true;
-            } else {
-              delete newSelection[id];
-            }
-          });
-        }
-        // In delete mode (hasKB=true), folders cannot be selected, so no descendant handling needed
+      setRowSelection((prev) => {
+        const newSelection = { ...prev };
+        range.forEach((file) => applyRowSelection(newSelection, file, true));
+        return newSelection;
+      });
+    },
+    [rowSelection, handleRowSelection, canSelectFile, applyRowSelection]
+  );
 
+  // Remove a file from the selection, also when it isn't in the table right now
+  const deselectFile = useCallback(
+    (fileId: string) => {
+      const file = files.find((f) => f.id === fileId);
+      setRowSelection((prev) => {
+        const newSelection = { ...prev };
+        if (file) {
+          applyRowSelection(newSelection, file, false);
+        } else {
+          delete newSelection[fileId];
+        }
         return newSelection;
       });
     },
-    [files, getAllDescendantIds, canSelectFile]
+    [files, applyRowSelection]
   );
 
   // Handle select all functionality with status validation
@@ -176,9 +271,15 @@ export function useFileSelection({ files, statusMap, hasKB, kbId }: UseFileSelec
     setRowSelection(newSelection);
   }, [canSelectFile]);
 
-  // Get selected files (filtered by current status)
+  // Get selected files (filtered by current status), visible ones first
   const selectedFiles = useMemo(() => {
-    return files.filter((file) => {
+    const visibleIds = new Set(files.map((file) => file.id));
+    const hiddenSelected = Object.keys(rowSelection)
+      .filter((id) => rowSelection[id] && !visibleIds.has(id))
+      .map((id) => seenFilesRef.current.get(id))
+      .filter((file): file is FileItem => !!file);
+
+    return [...files, ...hiddenSelected].filter((file) => {
       if (!rowSelection[file.id]) return false;
       
       // Double-check that selected files are still valid
@@ -186,18 +287,39 @@ export function useFileSelection({ files, statusMap, hasKB, kbId }: UseFileSelec
     });
   }, [files, rowSelection, canSelectFile]);
 
+  // The visible files plus selected ones that aren't shown right now, for the KB actions
+  const selectionFiles = useMemo(() => {
+    const visibleIds = new Set(files.map((file) => file.id));
+    return [...files, ...selectedFiles.filter((file) => !visibleIds.has(file.id))];
+  }, [files, selectedFiles]);
+
   // Get selected resource IDs
   const selectedResourceIds = useMemo(() => {
     return selectedFiles.map((file) => file.id);
   }, [selectedFiles]);
 
+  // In KB mode the selection is split: indexed files and folders can be deleted, the rest can be added
+  const deletableResourceIds = useMemo(() => {
+    return hasKB ? selectedFiles.filter(isFileInKB).map((file) => file.id) : [];
+  }, [hasKB, selectedFiles, isFileInKB]);
+
+  const addableResourceIds = useMemo(() => {
+    return hasKB ? selectedFiles.filter(canAddFile).map((file) => file.id) : [];
+  }, [hasKB, selectedFiles, canAddFile]);
+
   return {
     rowSelection,
     selectedFiles,
+    selectionFiles,
     selectedResourceIds,
+    deletableResourceIds,
+    addableResourceIds,
     handleRowSelection,
     handleSelectAll,
+    selectRange,
+    deselectFile,
     setRowSelection,
+    getResolvedStatus,
     canSelectFile, // Expose for checkbox disable logic
   };
 } 
\ No newline at end of file
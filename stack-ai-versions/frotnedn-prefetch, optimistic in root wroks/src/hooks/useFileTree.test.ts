@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { createTestQueryClient, createWrapper } from "@/test/queryClient";
+import { listResources } from "@/lib/api/connections";
+import { listKBResourcesSafe } from "@/lib/api/knowledgeBase";
+import type { FileItem, FileListResponse } from "@/lib/types/file";
+import { useFileTree } from "./useFileTree";
+
+vi.mock("@/lib/api/knowledgeBase", () => ({
+  listKBResources: vi.fn(() => new Promise(() => {})),
+  listKBResourcesSafe: vi.fn(),
+}));
+
+vi.mock("@/lib/api/connections", () => ({
+  listConnections: vi.fn().mockResolvedValue({
+    data: [{ connection_id: "conn-1", name: "Drive", connection_provider: "gdrive" }],
+  }),
+  listResources: vi.fn(),
+  searchResources: vi.fn(),
+}));
+
+vi.mock("react-toastify", () => ({
+  toast: { success: vi.fn(), error: vi.fn(), info: vi.fn(), warn: vi.fn(), warning: vi.fn() },
+}));
+
+const FOLDER: FileItem = { id: "folder-1", name: "Reports", type: "directory", size: 0 };
+// One file per page of the folder listing
+const PAGES: FileItem[] = ["a", "b", "c"].map((name) => ({ id: `file-${name}`, name: `Reports/${name}.pdf`, type: "file", size: 10 }));
+const FOLDER_KEY = ["drive-files", "conn-1", "folder-1"];
+const STATUS_KEY = ["kb-file-status", "kb-1", "/Reports"];
+
+async function renderFileTree(kbStatus: FileListResponse) {
+  vi.mocked(listResources).mockImplementation(async (_connection, folderId, options) => {
+    if (!folderId) return { data: [FOLDER] };
+    if (options?.cursor === "page-2") return { data: [PAGES[1]], next_cursor: "page-3" };
+    return { data: [PAGES[2]] };
+  });
+
+  const queryClient = createTestQueryClient();
+  // The folder was expanded with its first page, and the KB statuses for it are cached
+  queryClient.setQueryData<FileListResponse>(FOLDER_KEY, { data: [{ ...PAGES[0], status: "indexed" }], next_cursor: "page-2" });
+  queryClient.setQueryData(STATUS_KEY, kbStatus);
+
+  const view = renderHook(() => useFileTree({ kbId: "kb-1" }), { wrapper: createWrapper(queryClient) });
+  await waitFor(() => expect(queryClient.getQueryData(["connections"])).toBeDefined());
+  return { ...view, queryClient };
+}
+
+function folderStatuses(queryClient: ReturnType<typeof createTestQueryClient>) {
+  return queryClient.getQueryData<FileListResponse>(FOLDER_KEY)?.data.map((file) => [file.id, file.status]);
+}
+
+// Prefetching watches the rows on screen; nothing scrolls into view here
+class FakeIntersectionObserver {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+
+describe("useFileTree loadMoreFolderContents", () => {
+  beforeEach(() => {
+    vi.stubGlobal("IntersectionObserver", FakeIntersectionObserver);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("takes the statuses of later pages from the cached folder statuses", async () => {
+    const { result, queryClient } = await renderFileTree({ data: PAGES.map((file) => ({ ...file, status: "indexed" })) });
+
+    await act(() => result.current.loadMoreFolderContents("folder-1"));
+    await act(() => result.current.loadMoreFolderContents("folder-1"));
+
+    expect(listKBResourcesSafe).not.toHaveBeenCalled();
+    expect(folderStatuses(queryClient)).toEqual([
+      ["file-a", "indexed"],
+      ["file-b", "indexed"],
+      ["file-c", "indexed"],
+    ]);
+  });
+
+  it("fetches the whole folder once when only its first page of statuses was prefetched", async () => {
+    vi.mocked(listKBResourcesSafe).mockImplementation(async (_kbId, _path, options) =>
+      options?.cursor ? { data: [{ ...PAGES[2], status: "failed" }] } : { data: [{ ...PAGES[1], status: "indexed" }], next_cursor: "kb-page-2" }
+    );
+    const { result, queryClient } = await renderFileTree({ data: [{ ...PAGES[0], status: "indexed" }], next_cursor: "kb-page-2" });
+
+    await act(() => result.current.loadMoreFolderContents("folder-1"));
+    await act(() => result.current.loadMoreFolderContents("folder-1"));
+
+    expect(listKBResourcesSafe).toHaveBeenCalledTimes(2); // Both pages of the KB listing, for the first click only
+    expect(queryClient.getQueryData<FileListResponse>(STATUS_KEY)?.next_cursor).toBeUndefined();
+    expect(folderStatuses(queryClient)).toEqual([
+      ["file-a", "indexed"],
+      ["file-b", "indexed"],
+      ["file-c", "failed"],
+    ]);
+  });
+});
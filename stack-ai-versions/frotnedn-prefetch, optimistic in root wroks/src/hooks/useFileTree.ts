@@ -1,11 +1,23 @@
-import { useState, useCallback, useMemo } from "react";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { listResources } from "@/lib/api/connections";
+import { useState, useCallback, useMemo, useEffect } from "react";
+import { keepPreviousData, useQuery, useQueryClient } from "@tanstack/react-query";
+import { listResources, searchResources } from "@/lib/api/connections";
 import { listKBResourcesSafe } from "@/lib/api/knowledgeBase";
-import { FileItem } from "@/lib/types/file";
+import { fetchAllPages } from "@/lib/api/pagination";
+import { ResponseValidationError } from "@/lib/api/errors";
+import { FileItem, FileListResponse, FolderViewMode, SearchScope } from "@/lib/types/file";
 import { toast } from 'react-toastify';
+import { connectionFilesKey, connectionSearchKey } from "@/lib/utils/connections";
 import { usePrefetch } from "./usePrefetch";
+import { useConnections } from "./useConnections";
 import { useDataManager } from "./useDataManager";
+import { isKBStatusStreamOpen } from "./useKBStatusStream";
+import { usePollingScheduler } from "./usePollingScheduler";
+import type { PollResult } from "@/lib/utils/pollingScheduler";
+
+export interface BreadcrumbFolder {
+  id: string;
+  name: string; // Full path, like file names
+}
 
 interface UseFileTreeProps {
   kbId?: string | null;
@@ -15,14 +27,27 @@ interface UseFileTreeProps {
 
 // Constants
 const STALE_TIME = 5 * 60 * 1000; // 5 minutes
-const POLL_INTERVAL = 1000; // 1 second for faster updates
+const KB_STATUS_STALE_TIME = 1 * 60 * 1000; // 1 minute, like the prefetched KB status
+const SEARCH_DEBOUNCE = 300; // ms
+const MIN_SEARCH_LENGTH = 2;
+const MAX_PATH_LOOKUP_PAGES = 50; // Pages to load per folder while looking for a linked subfolder
 
 export function useFileTree({ kbId, statusMap, isCreatingKB }: UseFileTreeProps = {}) {
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
   const [loadingFolders, setLoadingFolders] = useState<Set<string>>(new Set());
+  const [loadingMoreFolders, setLoadingMoreFolders] = useState<Set<string>>(new Set()); // "root" for the root listing
   const [errorToastShown, setErrorToastShown] = useState<Set<string>>(new Set());
   const [refreshTrigger, setRefreshTrigger] = useState(0); // Force refresh trigger
+  const [searchScope, setSearchScope] = useState<SearchScope>("loaded");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState("");
+  // Breadcrumb mode shows one folder at a time; the trail holds the folders drilled into from the root
+  const [viewMode, setViewMode] = useState<FolderViewMode>("tree");
+  const [breadcrumbTrail, setBreadcrumbTrail] = useState<BreadcrumbFolder[]>([]);
   const queryClient = useQueryClient();
+  const { currentConnection: connection, isLoadingConnections, connectionsError } = useConnections();
+  const connectionId = connection?.connection_id ?? null;
+  const { scheduler, watchedPaths } = usePollingScheduler(kbId || null);
   const { 
     resolveFileStatus, 
     getFolderPathFromFileName,
@@ -39,6 +64,7 @@ export function useFileTree({ kbId, statusMap, isCreatingKB }: UseFileTreeProps
     cancelPrefetch,
   } = usePrefetch({
     kbId,
+    connection,
     isEnabled: true, // Always enabled for now, can be made configurable
     isCreatingKB,
   });
@@ -50,22 +76,68 @@ export function useFileTree({ kbId, statusMap, isCreatingKB }: UseFileTreeProps
     error,
     refetch,
   } = useQuery({
-    queryKey: ["drive-files", "root"],
-    queryFn: () => listResources(),
+    queryKey: connectionFilesKey(connectionId, "root"),
+    queryFn: ({ signal }) => listResources(connection!, undefined, { signal }),
+    enabled: !!connection,
+    staleTime: STALE_TIME,
+  });
+
+  // Remote search across the whole connection, so files inside unexpanded folders can be found too
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearchQuery(searchQuery.trim()), SEARCH_DEBOUNCE);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const isSearching = searchScope === "drive" && debouncedSearchQuery.length >= MIN_SEARCH_LENGTH;
+
+  const {
+    data: searchData,
+    isLoading: isSearchLoading,
+    isFetching: isSearchFetching,
+    error: searchError,
+  } = useQuery({
+    queryKey: connectionSearchKey(connectionId, debouncedSearchQuery),
+    queryFn: ({ signal }) => searchResources(connection!, debouncedSearchQuery, { signal }),
+    enabled: isSearching && !!connection,
+    staleTime: STALE_TIME,
+    placeholderData: keepPreviousData, // Keep the previous hits on screen while typing
+  });
+
+  useEffect(() => {
+    if (!searchError) return;
+    console.error("❌ Drive search failed:", searchError);
+    toast.error(`Search failed: ${searchError.message}`, {
+      autoClose: 5000,
+      toastId: 'drive-search-error'
+    });
+  }, [searchError]);
+
+  // The folder shown in breadcrumb mode (null for the root), read from the same cache as the tree
+  const browseFolderId = viewMode === "breadcrumb" && breadcrumbTrail.length > 0 ? breadcrumbTrail[breadcrumbTrail.length - 1].id : null;
+  const isBrowsingFolder = browseFolderId !== null;
+
+  const {
+    data: browseData,
+    isLoading: isBrowseLoading,
+  } = useQuery({
+    queryKey: connectionFilesKey(connectionId, browseFolderId),
+    queryFn: ({ signal }) => listResources(connection!, browseFolderId!, { signal }),
+    enabled: isBrowsingFolder && !!connection,
     staleTime: STALE_TIME,
   });
 
-  // Fetch folder contents with caching
+  // Fetch the first page of a folder's contents with caching; further pages come from loadMoreFolderContents
   const fetchFolderContents = useCallback(
     async (folderId: string) => {
+      if (!connection) return [];
       const result = await queryClient.fetchQuery({
-        queryKey: ["drive-files", folderId],
-        queryFn: () => listResources(folderId),
+        queryKey: connectionFilesKey(connectionId, folderId),
+        queryFn: ({ signal }) => listResources(connection, folderId, { signal }),
         staleTime: STALE_TIME,
       });
       return result?.data || [];
     },
-    [queryClient]
+    [queryClient, connection, connectionId]
   );
 
   // Fetch KB status for a folder path
@@ -79,7 +151,8 @@ export function useFileTree({ kbId, statusMap, isCreatingKB }: UseFileTreeProps
           queryKey: ["kb-file-status", kbId, folderPath],
         });
 
-        const kbData = await listKBResourcesSafe(kbId, folderPath);
+        // Statuses need the whole folder, not just the pages loaded so far
+        const kbData = await fetchAllPages((cursor) => listKBResourcesSafe(kbId, folderPath, { cursor }));
         const statusMap = new Map<string, string>();
 
         if (kbData?.data) {
@@ -97,6 +170,26 @@ export function useFileTree({ kbId, statusMap, isCreatingKB }: UseFileTreeProps
     [kbId, queryClient]
   );
 
+  // KB status for a folder path from its cache; only fetched again when missing, stale or just the prefetched first page
+  const getCachedKBStatusForFolder = useCallback(
+    async (folderPath: string) => {
+      if (!kbId) return new Map<string, string>();
+
+      try {
+        const kbData = await queryClient.fetchQuery<FileListResponse | null>({
+          queryKey: ["kb-file-status", kbId, folderPath],
+          queryFn: () => fetchAllPages((cursor) => listKBResourcesSafe(kbId, folderPath, { cursor })),
+          staleTime: (query) => (query.state.data?.next_cursor ? 0 : KB_STATUS_STALE_TIME),
+        });
+        return new Map((kbData?.data || []).map((resource) => [resource.id, resource.status || "unknown"]));
+      } catch (error) {
+        console.error("Failed to fetch KB status:", error);
+        return new Map<string, string>();
+      }
+    },
+    [kbId, queryClient]
+  );
+
   // Extract folder path from file list
   const getFolderPath = useCallback((files: FileItem[]) => {
     if (!files.length) return "";
@@ -110,7 +203,7 @@ export function useFileTree({ kbId, statusMap, isCreatingKB }: UseFileTreeProps
   // Update cached files with KB status and return polling info
   const updateCachedFilesWithStatus = useCallback(
     (folderId: string, kbStatusMap: Map<string, string>) => {
-      const folderData = queryClient.getQueryData<{ data: FileItem[] }>(["drive-files", folderId]);
+      const folderData = queryClient.getQueryData<FileListResponse>(connectionFilesKey(connectionId, folderId));
       
       if (!folderData?.data) return { hasPending: false, hasErrors: false };
 
@@ -130,18 +223,25 @@ export function useFileTree({ kbId, statusMap, isCreatingKB }: UseFileTreeProps
         return file;
       });
 
-      // Update the cache with new status
-      queryClient.setQueryData(["drive-files", folderId], { data: updatedFiles });
+      // Update the cache with new status (keeping the cursor for the next page)
+      queryClient.setQueryData<FileListResponse>(connectionFilesKey(connectionId, folderId), { ...folderData, data: updatedFiles });
 
       return { hasPending, hasErrors };
     },
-    [queryClient]
+    [queryClient, connectionId]
   );
 
-  // Poll folder status periodically
+  // Poll a folder's status once; the scheduler decides when to run it again
   const pollFolderStatus = useCallback(
-    async (folderPath: string, folderId: string) => {
-      if (!kbId) return;
+    async (folderPath: string, folderId: string): Promise<PollResult> => {
+      if (!kbId) return "settled";
+
+      // The status stream already pushes folder statuses into the cache; keep watching (backing off)
+      // so polling picks up again if the stream drops
+      if (isKBStatusStreamOpen(queryClient, kbId)) {
+        console.log(`📡 Skipping folder polling for ${folderPath}: status stream is open`);
+        return "unchanged";
+      }
 
       try {
         console.log(`🔄 Background polling for folder: ${folderPath}`);
@@ -192,34 +292,41 @@ export function useFileTree({ kbId, statusMap, isCreatingKB }: UseFileTreeProps
         console.log(`📊 Poll result for ${folderPath}: hasPending=${hasPending}, hasErrors=${hasErrors}, hasChanges=${hasChanges}`);
 
         // Continue polling if there are still pending files
-        if (hasPending) {
-          setTimeout(() => pollFolderStatus(folderPath, folderId), POLL_INTERVAL);
-        } else {
-          console.log(`✅ Polling stopped for ${folderPath}: all files settled`);
-        }
+        if (!hasPending) return "settled";
+        return hasChanges ? "changed" : "unchanged";
       } catch (error) {
         console.error(`❌ Polling failed for ${folderPath}:`, error);
         // Don't retry on error to avoid infinite loops
+        return "settled";
       }
     },
     [kbId, fetchKBStatusForFolder, updateCachedFilesWithStatus, queryClient]
   );
 
-  // Toggle folder expansion
-  const toggleFolder = useCallback(
-    async (folderId: string) => {
-      const isExpanded = expandedFolders.has(folderId);
+  // Watch a folder through the shared scheduler (deduplicated per KB and path)
+  const watchFolderStatus = useCallback(
+    (folderPath: string, folderId: string) => {
+      if (!kbId) return;
+      scheduler.watch({ kbId, path: folderPath, task: () => pollFolderStatus(folderPath, folderId) });
+    },
+    [kbId, scheduler, pollFolderStatus]
+  );
 
-      if (isExpanded) {
-        // Collapse folder
-        setExpandedFolders((prev) => {
-          const newSet = new Set(prev);
-          newSet.delete(folderId);
-          return newSet;
-        });
-        return;
-      }
+  // Stop folder polls when the KB changes or the tree unmounts (the root is watched by useKnowledgeBaseStatus)
+  useEffect(() => {
+    if (!kbId) return;
+
+    return () => {
+      scheduler
+        .getWatchedPaths()
+        .filter((watched) => watched.kbId === kbId && watched.path !== "/")
+        .forEach((watched) => scheduler.unwatch(watched.key));
+    };
+  }, [kbId, scheduler]);
 
+  // Load a folder's contents and statuses into the caches (shared by the tree and breadcrumb views)
+  const loadFolder = useCallback(
+    async (folderId: string) => {
       // Cancel any ongoing prefetch for this folder to avoid conflicts
       cancelPrefetch(folderId);
 
@@ -261,11 +368,8 @@ export function useFileTree({ kbId, statusMap, isCreatingKB }: UseFileTreeProps
             // Start background polling if there are pending files (don't block UI)
             if (hasPending) {
               console.log(`🔄 Background polling started for folder: ${folderPath}`);
-              setTimeout(() => pollFolderStatus(folderPath, folderId), POLL_INTERVAL);
+              watchFolderStatus(folderPath, folderId);
             }
-            
-            // Expand immediately with cached data
-            setExpandedFolders((prev) => new Set(prev).add(folderId));
           } else {
             // ❌ CACHE MISS: No optimistic cache, fetch fresh status
             console.log(`🌐 No cached status found for: ${folderPath}, fetching fresh data`);
@@ -290,18 +394,18 @@ export function useFileTree({ kbId, statusMap, isCreatingKB }: UseFileTreeProps
             // Start polling if there are pending files
             if (hasPending) {
               console.log(`Starting polling for folder: ${folderPath}`);
-              setTimeout(() => pollFolderStatus(folderPath, folderId), POLL_INTERVAL);
+              watchFolderStatus(folderPath, folderId);
             }
-            
-            setExpandedFolders((prev) => new Set(prev).add(folderId));
           }
-        } else {
-          // No KB or no files, just expand
-          setExpandedFolders((prev) => new Set(prev).add(folderId));
         }
       } catch (error) {
         console.error("Failed to load folder contents:", error);
-        setExpandedFolders((prev) => new Set(prev).add(folderId));
+        if (error instanceof ResponseValidationError) {
+          toast.error(`Couldn't read folder contents: ${error.message}`, {
+            autoClose: 5000,
+            toastId: `folder-invalid-${folderId}`
+          });
+        }
       } finally {
         setLoadingFolders((prev) => {
           const newSet = new Set(prev);
@@ -310,7 +414,174 @@ export function useFileTree({ kbId, statusMap, isCreatingKB }: UseFileTreeProps
         });
       }
     },
-    [expandedFolders, fetchFolderContents, kbId, getFolderPath, fetchKBStatusForFolder, updateCachedFilesWithStatus, pollFolderStatus, errorToastShown, cancelPrefetch, queryClient]
+    [fetchFolderContents, kbId, getFolderPath, fetchKBStatusForFolder, updateCachedFilesWithStatus, watchFolderStatus, errorToastShown, cancelPrefetch, queryClient]
+  );
+
+  // Expand a folder: load its contents and statuses, then show it (also when loading failed)
+  const expandFolder = useCallback(
+    async (folderId: string) => {
+      await loadFolder(folderId);
+      setExpandedFolders((prev) => new Set(prev).add(folderId));
+    },
+    [loadFolder]
+  );
+
+  // Toggle folder expansion
+  const toggleFolder = useCallback(
+    async (folderId: string) => {
+      if (expandedFolders.has(folderId)) {
+        // Collapse folder
+        setExpandedFolders((prev) => {
+          const newSet = new Set(prev);
+          newSet.delete(folderId);
+          return newSet;
+        });
+        return;
+      }
+
+      await expandFolder(folderId);
+    },
+    [expandedFolders, expandFolder]
+  );
+
+  // Re-open a saved set of folders (parents come first, so each one is in the tree when its turn comes)
+  const restoreExpandedFolders = useCallback(
+    async (folderIds: string[]) => {
+      setExpandedFolders(new Set());
+      for (const folderId of folderIds) {
+        await expandFolder(folderId);
+      }
+    },
+    [expandFolder]
+  );
+
+  // Append the next page of a folder ("root" for the root listing, or the search hits while searching) to its cached contents
+  const loadMoreFolderContents = useCallback(
+    async (folderId: string) => {
+      const isSearchPage = folderId === "root" && isSearching;
+      const cacheKey = isSearchPage ? connectionSearchKey(connectionId, debouncedSearchQuery) : connectionFilesKey(connectionId, folderId);
+      const current = queryClient.getQueryData<FileListResponse>(cacheKey);
+      if (!connection || !current?.next_cursor || loadingMoreFolders.has(folderId)) return;
+
+      setLoadingMoreFolders((prev) => new Set(prev).add(folderId));
+
+      try {
+        const cursor = current.next_cursor;
+        const nextPage = isSearchPage
+          ? await searchResources(connection, debouncedSearchQuery, { cursor })
+          : await listResources(connection, folderId === "root" ? undefined : folderId, { cursor });
+        console.log(`📄 Loaded ${nextPage.data.length} more items for folder: ${folderId}`);
+
+        // The cache may have changed while the page was loading (status updates, optimistic edits)
+        queryClient.setQueryData<FileListResponse>(cacheKey, (prev) => {
+          const base = prev || current;
+          const knownIds = new Set(base.data.map((file) => file.id));
+          return {
+            ...base,
+            data: [...base.data, ...nextPage.data.filter((file) => !knownIds.has(file.id))],
+            next_cursor: nextPage.next_cursor,
+          };
+        });
+
+        // Nested pages take their statuses from the folder's KB listing, fetched once rather than on every page
+        if (kbId && !isSearchPage && folderId !== "root" && nextPage.data.length > 0) {
+          const folderPath = getFolderPath(nextPage.data);
+          const { hasPending } = updateCachedFilesWithStatus(folderId, await getCachedKBStatusForFolder(folderPath));
+          if (hasPending) watchFolderStatus(folderPath, folderId);
+        }
+      } catch (error) {
+        console.error(`❌ Failed to load more items for folder ${folderId}:`, error);
+        toast.error("Couldn't load more files. Please try again.", {
+          autoClose: 5000,
+          toastId: `load-more-error-${folderId}`
+        });
+      } finally {
+        setLoadingMoreFolders((prev) => {
+          const newSet = new Set(prev);
+          newSet.delete(folderId);
+          return newSet;
+        });
+      }
+    },
+    [queryClient, connection, connectionId, isSearching, debouncedSearchQuery, loadingMoreFolders, kbId, getFolderPath, updateCachedFilesWithStatus, getCachedKBStatusForFolder, watchFolderStatus]
+  );
+
+  // Breadcrumb mode: drill into a folder shown in the current listing
+  const openFolder = useCallback(
+    async (folderId: string) => {
+      const listing = queryClient.getQueryData<FileListResponse>(connectionFilesKey(connectionId, browseFolderId || "root"));
+      const folder = listing?.data.find((file) => file.id === folderId && file.type === "directory");
+      if (!folder) return;
+
+      await loadFolder(folderId);
+      setBreadcrumbTrail((prev) => [...prev, { id: folder.id, name: folder.name }]);
+    },
+    [queryClient, connectionId, browseFolderId, loadFolder]
+  );
+
+  // Go back up to a folder in the trail (-1 for the root)
+  const navigateToBreadcrumb = useCallback((index: number) => {
+    setBreadcrumbTrail((prev) => prev.slice(0, index + 1));
+  }, []);
+
+  // Open folders by path (e.g. "/Finance/Q3" from a shared link), expanding each parent on the way.
+  // Replaces the currently expanded folders; a folder that can't be found stops its chain
+  const expandFolderPaths = useCallback(
+    async (folderPaths: string[]) => {
+      setExpandedFolders(new Set());
+      if (!connection) return;
+      const expanded = new Set<string>();
+      const missing: string[] = [];
+
+      for (const folderPath of folderPaths) {
+        const segments = folderPath.split("/").filter(Boolean);
+        let parentId = "root";
+
+        for (let depth = 1; depth <= segments.length; depth++) {
+          const name = segments.slice(0, depth).join("/");
+          let folder: FileItem | undefined;
+
+          // The folder may be on a page that hasn't been loaded yet
+          for (let page = 0; page < MAX_PATH_LOOKUP_PAGES; page++) {
+            const listing =
+              parentId === "root"
+                ? await queryClient.fetchQuery({
+                    queryKey: connectionFilesKey(connectionId, "root"),
+                    queryFn: ({ signal }) => listResources(connection, undefined, { signal }),
+                    staleTime: STALE_TIME,
+                  })
+                : queryClient.getQueryData<FileListResponse>(connectionFilesKey(connectionId, parentId));
+
+            folder = listing?.data.find((file) => file.type === "directory" && file.name === name);
+            if (folder || !listing?.next_cursor) break;
+
+            await loadMoreFolderContents(parentId);
+            const afterLoad = queryClient.getQueryData<FileListResponse>(connectionFilesKey(connectionId, parentId));
+            if (afterLoad?.next_cursor === listing.next_cursor) break; // The page failed to load
+          }
+
+          if (!folder) {
+            missing.push(`/${name}`);
+            break;
+          }
+
+          if (!expanded.has(folder.id)) {
+            await expandFolder(folder.id);
+            expanded.add(folder.id);
+          }
+          parentId = folder.id;
+        }
+      }
+
+      if (missing.length > 0) {
+        console.warn(`⚠️ Folders not found: ${missing.join(", ")}`);
+        toast.warning(`Couldn't find ${missing.length === 1 ? `folder ${missing[0]}` : `${missing.length} folders`} from the link.`, {
+          autoClose: 5000,
+          toastId: 'folder-path-missing'
+        });
+      }
+    },
+    [queryClient, connection, connectionId, expandFolder, loadMoreFolderContents]
   );
 
   // Build hierarchical file tree
@@ -320,9 +591,11 @@ export function useFileTree({ kbId, statusMap, isCreatingKB }: UseFileTreeProps
         const isExpanded = expandedFolders.has(file.id);
         const isLoading = loadingFolders.has(file.id);
         let children: FileItem[] = [];
+        let hasMore = false;
 
         if (file.type === "directory" && isExpanded && !isLoading) {
-          const folderData = queryClient.getQueryData<{ data: FileItem[] }>(["drive-files", file.id]);
+          const folderData = queryClient.getQueryData<FileListResponse>(connectionFilesKey(connectionId, file.id));
+          hasMore = !!folderData?.next_cursor;
 
           if (folderData?.data) {
             const currentPath = parentPath ? `${parentPath}/${file.name.split("/").pop()}` : file.name.split("/").pop() || "";
@@ -349,13 +622,15 @@ export function useFileTree({ kbId, statusMap, isCreatingKB }: UseFileTreeProps
           ...file,
           isExpanded,
           isLoading,
+          hasMore,
+          isLoadingMore: loadingMoreFolders.has(file.id),
           children,
           level,
           status: finalStatus,
         };
       });
     },
-    [expandedFolders, loadingFolders, queryClient, refreshTrigger, resolveFileStatus, kbId, getFolderPathFromFileName]
+    [expandedFolders, loadingFolders, loadingMoreFolders, queryClient, connectionId, refreshTrigger, resolveFileStatus, kbId, getFolderPathFromFileName]
   );
 
   // Build file tree from root data - now reactive to optimistic cache changes
@@ -382,26 +657,104 @@ export function useFileTree({ kbId, statusMap, isCreatingKB }: UseFileTreeProps
 
   const flatFiles = useMemo(() => flattenTree(fileTree), [fileTree, flattenTree]);
 
+  // Search hits are shown flat with their full path; level is their depth, so optimistic updates find their folder cache
+  const searchFiles = useMemo(() => {
+    if (!searchData?.data) return [];
+
+    return searchData.data.map((file): FileItem => {
+      const level = file.name.split("/").length - 1;
+      const resolved = resolveFileStatus(file.id, kbId || null, level > 0 ? getFolderPathFromFileName(file.name) : undefined);
+
+      return {
+        ...file,
+        isExpanded: false,
+        isLoading: false,
+        children: [],
+        level,
+        status: resolved === "-" || resolved === null ? undefined : resolved,
+      };
+    });
+  }, [searchData?.data, resolveFileStatus, kbId, getFolderPathFromFileName]);
+
+  // One folder's contents, flat; level stays the real depth so statuses and selection resolve as in the tree
+  const browseFiles = useMemo(() => {
+    const listing = isBrowsingFolder ? browseData?.data : rootData?.data;
+    if (!listing) return [];
+
+    return listing.map((file): FileItem => {
+      const level = breadcrumbTrail.length;
+      const resolved = resolveFileStatus(file.id, kbId || null, level > 0 ? getFolderPathFromFileName(file.name) : undefined);
+
+      return {
+        ...file,
+        isExpanded: false,
+        isLoading: loadingFolders.has(file.id),
+        children: [],
+        level,
+        status: resolved === "-" || resolved === null ? undefined : resolved,
+      };
+    });
+  }, [isBrowsingFolder, browseData?.data, rootData?.data, breadcrumbTrail.length, resolveFileStatus, kbId, getFolderPathFromFileName, loadingFolders]);
+
+  // Paths of the open folders in the tree, e.g. "/Finance/Q3"
+  const expandedFolderPaths = useMemo(
+    () => flatFiles.filter((file) => file.type === "directory" && file.isExpanded).map((file) => `/${file.name}`),
+    [flatFiles]
+  );
+
   // Collapse all folders - useful after deletion
   const collapseAllFolders = useCallback(() => {
     setExpandedFolders(new Set());
     setLoadingFolders(new Set());
+    setLoadingMoreFolders(new Set());
     setErrorToastShown(new Set()); // Reset error toast tracking
   }, []);
 
+  // "Load more" at the bottom of the table pages the current breadcrumb folder instead of the root
+  const loadMoreVisibleContents = useCallback(
+    (folderId: string) => loadMoreFolderContents(folderId === "root" && !isSearching && browseFolderId ? browseFolderId : folderId),
+    [loadMoreFolderContents, isSearching, browseFolderId]
+  );
+
+  const isBreadcrumbMode = viewMode === "breadcrumb";
+  const visibleListing = isSearching ? searchData : isBrowsingFolder ? browseData : rootData;
+
   return {
-    files: flatFiles,
-    isLoading,
-    error,
+    files: isSearching ? searchFiles : isBreadcrumbMode ? browseFiles : flatFiles,
+    isLoading: isLoadingConnections || (isSearching ? isSearchLoading : isBrowsingFolder ? isBrowseLoading : isLoading),
+    error: connectionsError || error,
     expandedFolders,
     toggleFolder,
+    restoreExpandedFolders,
+    expandedFolderPaths,
+    expandFolderPaths,
     collapseAllFolders,
     refetch,
+    // Cursor pagination ("root" loads the next page of the root listing)
+    loadMoreFolderContents: loadMoreVisibleContents,
+    hasMoreRoot: !!visibleListing?.next_cursor,
+    isLoadingMoreRoot: loadingMoreFolders.has(!isSearching && browseFolderId ? browseFolderId : "root"),
+    // Tree or breadcrumb navigation
+    viewMode,
+    setViewMode,
+    breadcrumbTrail,
+    openFolder,
+    navigateToBreadcrumb,
+    // Drive-wide search
+    searchScope,
+    setSearchScope,
+    searchQuery,
+    setSearchQuery,
+    isSearching,
+    isSearchFetching,
     // Prefetch functions
     startPrefetch,
     stopPrefetch,
     registerFolder,
     isPrefetching,
+    // Paths currently polled for status (root and folders)
+    watchedPaths,
+    watchFolderStatus,
     // Force refresh for optimistic updates
     forceRefresh: () => setRefreshTrigger(prev => prev + 1),
   };
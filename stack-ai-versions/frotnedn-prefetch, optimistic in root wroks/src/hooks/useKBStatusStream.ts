@@ -0,0 +1,87 @@
+import { useEffect, useCallback, useRef } from "react";
+import { useQuery, useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { isStatusStreamAvailable, subscribeToKBStatus } from "@/lib/api/statusStream";
+import { useDataManager } from "./useDataManager";
+
+// "open" means a full snapshot arrived and statuses are pushed; anything else means callers keep polling
+export type KBStatusStreamState = "disabled" | "connecting" | "open" | "failed";
+
+const streamStateKey = (kbId: string | null) => ["kb-status-stream", kbId];
+
+// For polling loops scheduled with setTimeout, which would otherwise see a stale state
+export function isKBStatusStreamOpen(queryClient: QueryClient, kbId: string | null): boolean {
+  return queryClient.getQueryData<KBStatusStreamState>(streamStateKey(kbId)) === "open";
+}
+
+// Shared connection state, so polling loops elsewhere (e.g. folder polling in useFileTree) can back off
+export function useKBStatusStreamState(kbId: string | null): KBStatusStreamState {
+  const { data } = useQuery({
+    queryKey: streamStateKey(kbId),
+    queryFn: () => "disabled" as KBStatusStreamState,
+    initialData: "disabled" as KBStatusStreamState,
+    staleTime: Infinity,
+  });
+
+  return data;
+}
+
+interface UseKBStatusStreamProps {
+  kbId: string | null;
+  enabled?: boolean;
+}
+
+// Owns the status stream connection for a KB and pushes snapshots into the KB caches
+export function useKBStatusStream({ kbId, enabled = true }: UseKBStatusStreamProps) {
+  const queryClient = useQueryClient();
+  const { applyStatusSnapshot } = useDataManager();
+  const streamState = useKBStatusStreamState(kbId);
+
+  // applyStatusSnapshot changes identity with every cache update, the connection must not
+  const applySnapshotRef = useRef(applyStatusSnapshot);
+  useEffect(() => {
+    applySnapshotRef.current = applyStatusSnapshot;
+  }, [applyStatusSnapshot]);
+
+  const setStreamState = useCallback(
+    (state: KBStatusStreamState) => {
+      queryClient.setQueryData(streamStateKey(kbId), state);
+    },
+    [queryClient, kbId]
+  );
+
+  // Temp KBs don't exist on the backend yet
+  const canStream = enabled && !!kbId && !kbId.startsWith("temp-") && isStatusStreamAvailable();
+
+  useEffect(() => {
+    if (!canStream || !kbId) return;
+
+    console.log(`📡 [StatusStream] Connecting for KB: ${kbId}`);
+    setStreamState("connecting");
+
+    const unsubscribe = subscribeToKBStatus(kbId, {
+      onReady: () => {
+        console.log(`✅ [StatusStream] Connected for KB: ${kbId}`);
+        setStreamState("open");
+      },
+      onStatus: (event) => applySnapshotRef.current(kbId, event.resource_path, event.data),
+      onInterrupted: () => {
+        console.warn(`⚠️ [StatusStream] Reconnecting for KB: ${kbId}, polling meanwhile`);
+        setStreamState("connecting");
+      },
+      onFail: () => {
+        console.warn(`⚠️ [StatusStream] Unavailable for KB: ${kbId}, falling back to polling`);
+        setStreamState("failed");
+      },
+    });
+
+    return () => {
+      unsubscribe();
+      setStreamState("disabled");
+    };
+  }, [canStream, kbId, setStreamState]);
+
+  return {
+    streamState,
+    isStreaming: streamState === "open",
+  };
+}
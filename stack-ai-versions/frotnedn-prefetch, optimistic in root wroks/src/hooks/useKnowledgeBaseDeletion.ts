@@ -4,11 +4,15 @@ import { deleteKBResource } from "@/lib/api/knowledgeBase";
 import { FileItem } from "@/lib/types/file";
 import { listResources } from "@/lib/api/connections";
 import { listKBResources } from "@/lib/api/knowledgeBase";
+import { fetchAllPages } from "@/lib/api/pagination";
+import { connectionFilesKey } from "@/lib/utils/connections";
+import { useConnections } from "./useConnections";
 
 export function useKnowledgeBaseDeletion(kbId: string | null, statusMap?: Map<string, string>) {
   const [isDeleting, setIsDeleting] = useState(false);
   const [deletingFiles, setDeletingFiles] = useState<Set<string>>(new Set());
   const queryClient = useQueryClient();
+  const { currentConnection } = useConnections();
 
   // Delete multiple files mutation
   const deleteFilesMutation = useMutation({
@@ -57,7 +61,7 @@ export function useKnowledgeBaseDeletion(kbId: string | null, statusMap?: Map<st
       queryClient.removeQueries({ queryKey: ["kb-resources"] });
       queryClient.removeQueries({ queryKey: ["kb-file-status"] });
 
-      // STEP 2: Remove all cached drive files 
+      // STEP 2: Remove all cached connection files
       queryClient.removeQueries({ queryKey: ["drive-files"] });
 
       // STEP 3: Wait a moment for backend to process, then refetch KB resources
@@ -68,18 +72,20 @@ export function useKnowledgeBaseDeletion(kbId: string | null, statusMap?: Map<st
         console.log("Refetching KB resources after deletion...");
         await queryClient.fetchQuery({
           queryKey: ["kb-resources", kbId],
-          queryFn: () => listKBResources(kbId),
+          queryFn: ({ signal }) => fetchAllPages((cursor) => listKBResources(kbId, "/", { signal, cursor })),
           staleTime: 0, // Force fresh fetch
         });
       }
 
-      // STEP 4: Finally refetch root drive files
-      console.log("Refetching root drive files...");
-      await queryClient.fetchQuery({
-        queryKey: ["drive-files", "root"],
-        queryFn: () => listResources(),
-        staleTime: 0, // Force fresh fetch
-      });
+      // STEP 4: Finally refetch the current connection's root files
+      if (currentConnection) {
+        console.log("Refetching root files...");
+        await queryClient.fetchQuery({
+          queryKey: connectionFilesKey(currentConnection.connection_id, "root"),
+          queryFn: ({ signal }) => listResources(currentConnection, undefined, { signal }),
+          staleTime: 0, // Force fresh fetch
+        });
+      }
 
       setIsDeleting(false);
 
@@ -173,10 +179,13 @@ export function useKnowledgeBaseDeletion(kbId: string | null, statusMap?: Map<st
     return actualStatus === "indexed";
   }, [statusMap]);
 
-  // Check if a folder has any deletable files
+  // Check if a folder is in the KB itself or has any deletable files
   const canDeleteFolder = useCallback((folder: FileItem, allFiles: FileItem[]) => {
     if (folder.type !== "directory") return false;
 
+    // Folder entry is known to the KB (root status map, or resolved from its parent's folder status)
+    if (statusMap?.has(folder.id) || folder.status !== undefined) return true;
+
     return allFiles.some((file) => {
       if (file.type !== "file" || !file.name.startsWith(folder.name + "/")) return false;
       
@@ -0,0 +1,122 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useCallback, useMemo, useState } from "react";
+import { listKnowledgeBases } from "@/lib/api/knowledgeBase";
+import { getKBListFromStorage, addKBToStorageList, removeKBFromStorageList, type KBStorageData } from "@/lib/utils/localStorage";
+import type { KnowledgeBase, KnowledgeBaseListResponse } from "@/lib/types/knowledgeBase";
+
+// Both list sources, captured before an optimistic update so it can be rolled back
+export interface KnowledgeBaseListSnapshot {
+  remoteKBs: KnowledgeBaseListResponse | undefined;
+  storedKBs: KBStorageData[];
+}
+
+const KNOWLEDGE_BASES_KEY = ["knowledge-bases"];
+const STALE_TIME = 60 * 1000; // 1 minute
+
+export function useKnowledgeBaseList(currentKB: KnowledgeBase | null) {
+  const queryClient = useQueryClient();
+  // KBs created in this browser (the backend list may be unavailable)
+  const [storedKBs, setStoredKBs] = useState(() => getKBListFromStorage());
+
+  // KBs known to the backend
+  const {
+    data: remoteKBs,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: KNOWLEDGE_BASES_KEY,
+    queryFn: listKnowledgeBases,
+    staleTime: STALE_TIME,
+    retry: false,
+  });
+
+  // Merge backend list with locally stored KBs
+  const knowledgeBases = useMemo(() => {
+    const merged = new Map<string, KnowledgeBase>();
+
+    storedKBs.forEach((kb) => {
+      merged.set(kb.id, { ...kb, is_empty: false });
+    });
+    remoteKBs?.data?.forEach((kb) => {
+      merged.set(kb.id, kb);
+    });
+
+    // Include the current KB, even while it is still an optimistic temp KB
+    if (currentKB && !merged.has(currentKB.id)) {
+      merged.set(currentKB.id, currentKB);
+    }
+
+    return Array.from(merged.values()).sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }, [remoteKBs, currentKB, storedKBs]);
+
+  // Remember a KB locally and refresh the backend list
+  const rememberKnowledgeBase = useCallback(
+    (kb: KnowledgeBase) => {
+      addKBToStorageList({ id: kb.id, name: kb.name, created_at: kb.created_at, description: kb.description, connection_id: kb.connection_id });
+      setStoredKBs(getKBListFromStorage());
+      queryClient.invalidateQueries({ queryKey: KNOWLEDGE_BASES_KEY });
+    },
+    [queryClient]
+  );
+
+  const getListSnapshot = useCallback((): KnowledgeBaseListSnapshot => ({
+    remoteKBs: queryClient.getQueryData<KnowledgeBaseListResponse>(KNOWLEDGE_BASES_KEY),
+    storedKBs: getKBListFromStorage(),
+  }), [queryClient]);
+
+  const restoreListSnapshot = useCallback(
+    (snapshot: KnowledgeBaseListSnapshot) => {
+      if (snapshot.remoteKBs) {
+        queryClient.setQueryData(KNOWLEDGE_BASES_KEY, snapshot.remoteKBs);
+      }
+      // Re-adding overwrites renamed entries and brings back removed ones
+      snapshot.storedKBs.forEach((kb) => addKBToStorageList(kb));
+      setStoredKBs(getKBListFromStorage());
+    },
+    [queryClient]
+  );
+
+  // Optimistically replace a KB's details in both list sources
+  const updateKnowledgeBaseInList = useCallback(
+    (kb: KnowledgeBase) => {
+      queryClient.setQueryData<KnowledgeBaseListResponse>(KNOWLEDGE_BASES_KEY, (prev) =>
+        prev ? { ...prev, data: prev.data.map((existing) => (existing.id === kb.id ? kb : existing)) } : prev
+      );
+      if (getKBListFromStorage().some((stored) => stored.id === kb.id)) {
+        addKBToStorageList({ id: kb.id, name: kb.name, created_at: kb.created_at, description: kb.description, connection_id: kb.connection_id });
+      }
+      setStoredKBs(getKBListFromStorage());
+    },
+    [queryClient]
+  );
+
+  // Optimistically drop a KB from both list sources
+  const removeKnowledgeBaseFromList = useCallback(
+    (kbId: string) => {
+      queryClient.setQueryData<KnowledgeBaseListResponse>(KNOWLEDGE_BASES_KEY, (prev) =>
+        prev ? { ...prev, data: prev.data.filter((existing) => existing.id !== kbId) } : prev
+      );
+      removeKBFromStorageList(kbId);
+      setStoredKBs(getKBListFromStorage());
+    },
+    [queryClient]
+  );
+
+  // Re-read the stored list after it was changed elsewhere
+  const refreshKnowledgeBases = useCallback(() => {
+    setStoredKBs(getKBListFromStorage());
+    queryClient.invalidateQueries({ queryKey: KNOWLEDGE_BASES_KEY });
+  }, [queryClient]);
+
+  return {
+    knowledgeBases,
+    isLoading,
+    error,
+    rememberKnowledgeBase,
+    refreshKnowledgeBases,
+    getListSnapshot,
+    restoreListSnapshot,
+    updateKnowledgeBaseInList,
+    removeKnowledgeBaseFromList,
+  };
+}
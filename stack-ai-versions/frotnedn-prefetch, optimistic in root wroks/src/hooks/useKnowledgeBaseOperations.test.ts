@@ -0,0 +1,369 @@
+import { describe, expect, it, vi } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { toast } from "react-toastify";
+import { createTestQueryClient, createWrapper } from "@/test/queryClient";
+import { addKBResources, createKnowledgeBase, deleteKBResource, syncKnowledgeBase } from "@/lib/api/knowledgeBase";
+import { listResources } from "@/lib/api/connections";
+import { NotFoundError } from "@/lib/api/errors";
+import { addKBToStorageList, getAllCachesFromStorage, getKBFromStorage, saveDeleteQueueToStorage, saveKBToStorage } from "@/lib/utils/localStorage";
+import type { FileItem, FileListResponse } from "@/lib/types/file";
+import type { KnowledgeBase } from "@/lib/types/knowledgeBase";
+import type { DeleteRequest } from "@/lib/types/deleteQueue";
+import { useKnowledgeBaseOperations } from "./useKnowledgeBaseOperations";
+
+vi.mock("@/lib/api/knowledgeBase", () => ({
+  createKnowledgeBase: vi.fn(),
+  syncKnowledgeBase: vi.fn(),
+  deleteKBResource: vi.fn(),
+  addKBResources: vi.fn(),
+  updateKnowledgeBase: vi.fn(),
+  deleteKnowledgeBase: vi.fn(),
+  listKnowledgeBases: vi.fn().mockResolvedValue({ data: [] }),
+  // Status polling never answers, so the tests see exactly what the hook put in the caches
+  listKBResources: vi.fn(() => new Promise(() => {})),
+  listKBResourcesSafe: vi.fn(() => new Promise(() => {})),
+}));
+
+vi.mock("@/lib/api/connections", () => ({
+  listConnections: vi.fn().mockResolvedValue({
+    data: [{ connection_id: "conn-1", name: "Drive", connection_provider: "gdrive" }],
+  }),
+  listResources: vi.fn().mockResolvedValue({ data: [] }),
+}));
+
+vi.mock("react-toastify", () => ({
+  toast: { success: vi.fn(), error: vi.fn(), info: vi.fn(), warn: vi.fn(), warning: vi.fn() },
+}));
+
+const ROOT_FILE: FileItem = { id: "file-1", name: "a.pdf", type: "file", size: 10, level: 0 };
+const FOLDER: FileItem = { id: "folder-1", name: "Reports", type: "directory", size: 0, level: 0 };
+const NESTED_FILE: FileItem = { id: "file-2", name: "Reports/b.pdf", type: "file", size: 20, level: 1 };
+const FILES = [ROOT_FILE, FOLDER, NESTED_FILE];
+
+const REAL_KB: KnowledgeBase = { id: "kb-1", name: "Reports KB", description: "", created_at: "2025-01-01T00:00:00Z", is_empty: false };
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+async function renderOperations() {
+  const queryClient = createTestQueryClient();
+  // The folder was expanded before, so its contents are cached
+  queryClient.setQueryData(["drive-files", "conn-1", "folder-1"], { data: [NESTED_FILE] });
+
+  const view = renderHook(() => useKnowledgeBaseOperations(), { wrapper: createWrapper(queryClient) });
+  await waitFor(() => expect(queryClient.getQueryData(["connections"])).toBeDefined());
+  return { ...view, queryClient };
+}
+
+function queuedRequest(overrides: Partial<DeleteRequest> = {}): DeleteRequest {
+  return {
+    id: "delete-1",
+    fileId: "file-1",
+    fileName: "a.pdf",
+    resourcePath: "/a.pdf",
+    kbId: "kb-1",
+    timestamp: 1,
+    status: "queued",
+    attempts: 0,
+    ...overrides,
+  };
+}
+
+describe("useKnowledgeBaseOperations", () => {
+  describe("KB creation", () => {
+    it("shows the KB right away and hands everything over to the real KB id", async () => {
+      const creation = deferred<KnowledgeBase>();
+      vi.mocked(createKnowledgeBase).mockReturnValue(creation.promise);
+      vi.mocked(syncKnowledgeBase).mockResolvedValue(undefined);
+      const { result, queryClient } = await renderOperations();
+
+      act(() => result.current.createKnowledgeBaseWithFiles(["file-1", "folder-1"], FILES, { name: "Reports KB", description: "" }));
+
+      // Optimistic temp KB with its selection shown as indexed
+      await waitFor(() => expect(result.current.currentKB?.id).toMatch(/^temp-/));
+      const tempId = result.current.currentKB!.id;
+      expect(result.current.isSyncPending).toBe(true);
+      expect(queryClient.getQueryData(["kb-resources", tempId])).toEqual({
+        data: [
+          expect.objectContaining({ id: "file-1", status: "indexed" }),
+          expect.objectContaining({ id: "folder-1", status: "indexed" }),
+        ],
+      });
+      expect(queryClient.getQueryData(["kb-file-status", tempId, "/Reports"])).toEqual({
+        data: [expect.objectContaining({ id: "file-2", status: "indexed" })],
+      });
+
+      // Deleting before the KB exists queues the request against the temp KB
+      await act(() => result.current.deleteSelectedFiles(["file-1"], FILES));
+      expect(result.current.queue).toEqual([expect.objectContaining({ fileId: "file-1", kbId: tempId })]);
+
+      await act(async () => creation.resolve(REAL_KB));
+      await waitFor(() => expect(result.current.currentKB?.id).toBe("kb-1"));
+
+      expect(createKnowledgeBase).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "Reports KB", connection_id: "conn-1", resource_ids: ["file-1", "folder-1"] })
+      );
+      expect(syncKnowledgeBase).toHaveBeenCalledWith("kb-1");
+      expect(result.current.isSyncCompleted).toBe(true);
+      // The KB remembers the connection it was created from
+      expect(result.current.currentKB?.connection_id).toBe("conn-1");
+      expect(getKBFromStorage()?.connection_id).toBe("conn-1");
+
+      // updateQueueKBId: the queued delete (and its registry lock) now target the real KB
+      expect(result.current.queue).toEqual([expect.objectContaining({ fileId: "file-1", kbId: "kb-1" })]);
+      const registry = queryClient.getQueryData<{ entries: Record<string, { kbId: string }> }>(["optimistic-delete-registry"]);
+      expect(registry?.entries["file-1"].kbId).toBe("kb-1");
+
+      // onSuccess: optimistic caches move to the real id, the temp ones are gone
+      expect(queryClient.getQueryData(["kb-resources", "kb-1"])).toEqual({
+        data: [expect.objectContaining({ id: "folder-1", status: "indexed" })],
+      });
+      expect(queryClient.getQueryData(["kb-file-status", "kb-1", "/Reports"])).toEqual({
+        data: [expect.objectContaining({ id: "file-2", status: "indexed" })],
+      });
+      expect(queryClient.getQueryData(["kb-resources", tempId])).toBeUndefined();
+      expect(queryClient.getQueryData(["kb-file-status", tempId, "/Reports"])).toBeUndefined();
+
+      // ...and are persisted for the next session
+      expect(getAllCachesFromStorage().find((cache) => cache.kbId === "kb-1")?.rootResources?.data).toEqual([
+        expect.objectContaining({ id: "folder-1" }),
+      ]);
+      expect(toast.success).toHaveBeenCalledWith("Knowledge base created successfully!", expect.anything());
+    });
+
+    it("rolls back to the previous KB when creation fails", async () => {
+      saveKBToStorage({ id: "kb-old", name: "Old KB", created_at: "2024-01-01T00:00:00Z" });
+      const creation = deferred<KnowledgeBase>();
+      vi.mocked(createKnowledgeBase).mockReturnValue(creation.promise);
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const { result, queryClient } = await renderOperations();
+      expect(result.current.currentKB?.id).toBe("kb-old");
+
+      act(() => result.current.createKnowledgeBaseWithFiles(["file-1", "folder-1"], FILES, { name: "New KB", description: "" }));
+      await waitFor(() => expect(result.current.currentKB?.id).toMatch(/^temp-/));
+      const tempId = result.current.currentKB!.id;
+
+      await act(async () => creation.reject(new Error("boom")));
+      await waitFor(() => expect(result.current.currentKB?.id).toBe("kb-old"));
+
+      // onError: sync state reset and no temp caches left behind
+      expect(result.current.syncState).toBe("idle");
+      expect(queryClient.getQueryData(["kb-resources", tempId])).toBeUndefined();
+      expect(queryClient.getQueryData(["kb-file-status", tempId, "/Reports"])).toBeUndefined();
+      expect(syncKnowledgeBase).not.toHaveBeenCalled();
+      expect(toast.error).toHaveBeenCalledWith("Failed to create knowledge base. Please try again.", expect.anything());
+    });
+
+    it("drops the deletes queued against a KB that was never created", async () => {
+      const creation = deferred<KnowledgeBase>();
+      vi.mocked(createKnowledgeBase).mockReturnValue(creation.promise);
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const { result, queryClient } = await renderOperations();
+
+      act(() => result.current.createKnowledgeBaseWithFiles(["file-1", "folder-1"], FILES));
+      await waitFor(() => expect(result.current.currentKB?.id).toMatch(/^temp-/));
+      await act(() => result.current.deleteSelectedFiles(["file-1"], FILES));
+      expect(result.current.queue).toHaveLength(1);
+
+      await act(async () => creation.reject(new Error("boom")));
+      await waitFor(() => expect(result.current.currentKB).toBeNull());
+
+      expect(result.current.queue).toEqual([]);
+      const registry = queryClient.getQueryData<{ entries: Record<string, unknown> }>(["optimistic-delete-registry"]);
+      expect(registry?.entries).toEqual({});
+      expect(deleteKBResource).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("adding to a KB", () => {
+    it("shows an added folder and its files right away", async () => {
+      saveKBToStorage({ id: "kb-1", name: "KB", created_at: "2025-01-01T00:00:00Z", connection_id: "conn-1" });
+      vi.mocked(addKBResources).mockResolvedValue(undefined);
+      vi.mocked(syncKnowledgeBase).mockResolvedValue(undefined);
+      const { result, queryClient } = await renderOperations();
+
+      await act(async () => result.current.addFilesToKnowledgeBase(["folder-1", "file-2"], FILES));
+      await waitFor(() => expect(result.current.isSyncCompleted).toBe(true));
+
+      expect(addKBResources).toHaveBeenCalledWith("kb-1", { connection_id: "conn-1", resource_ids: ["folder-1"] });
+      expect(queryClient.getQueryData(["kb-resources", "kb-1"])).toEqual({
+        data: [expect.objectContaining({ id: "folder-1", status: "pending" })],
+      });
+      expect(queryClient.getQueryData(["kb-file-status", "kb-1", "/Reports"])).toEqual({
+        data: [expect.objectContaining({ id: "file-2", status: "pending" })],
+      });
+    });
+
+    it("loads only the added folder's own listing and watches the folders it touched", async () => {
+      saveKBToStorage({ id: "kb-1", name: "KB", created_at: "2025-01-01T00:00:00Z", connection_id: "conn-1" });
+      vi.mocked(addKBResources).mockResolvedValue(undefined);
+      vi.mocked(syncKnowledgeBase).mockResolvedValue(undefined);
+      const subfolder: FileItem = { id: "folder-2", name: "Reports/Q3", type: "directory", size: 0, level: 1 };
+      vi.mocked(listResources).mockResolvedValueOnce({ data: [NESTED_FILE, subfolder] });
+      const { result, queryClient } = await renderOperations();
+      // Only the first page of the folder was loaded when it was expanded
+      queryClient.setQueryData<FileListResponse>(["drive-files", "conn-1", "folder-1"], { data: [NESTED_FILE], next_cursor: "page-2" });
+      const watchFolder = vi.fn();
+
+      await act(async () => result.current.addFilesToKnowledgeBase(["folder-1"], FILES, watchFolder));
+      await waitFor(() => expect(result.current.isSyncCompleted).toBe(true));
+
+      expect(listResources).toHaveBeenCalledTimes(1);
+      expect(listResources).toHaveBeenCalledWith(expect.objectContaining({ connection_id: "conn-1" }), "folder-1", expect.anything()); // Not its subfolder
+      expect(queryClient.getQueryData(["kb-file-status", "kb-1", "/Reports"])).toEqual({
+        data: [expect.objectContaining({ id: "file-2", status: "pending" })],
+      });
+      expect(watchFolder).toHaveBeenCalledTimes(1);
+      expect(watchFolder).toHaveBeenCalledWith("/Reports", "folder-1");
+    });
+
+    it("puts back the delete locks and queued deletes of re-added files when adding fails", async () => {
+      saveKBToStorage({ id: "kb-1", name: "KB", created_at: "2025-01-01T00:00:00Z", connection_id: "conn-1" });
+      vi.mocked(addKBResources).mockRejectedValue(new Error("boom"));
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const { result, queryClient } = await renderOperations();
+      queryClient.setQueryData(["kb-resources", "kb-1"], { data: [{ ...ROOT_FILE, status: "indexed" }] });
+
+      // Deleted (still inside the undo window), then added back
+      await act(() => result.current.deleteSelectedFiles(["file-1"], FILES));
+      const [deleteRequest] = result.current.queue;
+
+      await act(async () => result.current.addFilesToKnowledgeBase(["file-1"], FILES));
+      await waitFor(() => expect(toast.error).toHaveBeenCalledWith("Failed to add files to the knowledge base. Please try again.", expect.anything()));
+
+      expect(result.current.queue).toEqual([deleteRequest]);
+      const registry = queryClient.getQueryData<{ entries: Record<string, unknown> }>(["optimistic-delete-registry"]);
+      expect(Object.keys(registry?.entries || {})).toEqual(["file-1"]);
+      expect(queryClient.getQueryData(["kb-resources", "kb-1"])).toEqual({ data: [] });
+    });
+  });
+
+  describe("undoing a deletion", () => {
+    it("only takes back what that deletion did", async () => {
+      saveKBToStorage({ id: "kb-1", name: "KB", created_at: "2025-01-01T00:00:00Z", connection_id: "conn-1" });
+      const { result, queryClient } = await renderOperations();
+      queryClient.setQueryData(["kb-resources", "kb-1"], {
+        data: [
+          { ...ROOT_FILE, status: "indexed" },
+          { ...FOLDER, status: "indexed" },
+        ],
+      });
+      queryClient.setQueryData(["kb-file-status", "kb-1", "/Reports"], { data: [{ ...NESTED_FILE, status: "indexed" }] });
+
+      // The folder deletion, then another one and a status update while its undo toast is up
+      await act(() => result.current.deleteSelectedFiles(["folder-1"], FILES));
+      await act(() => result.current.deleteSelectedFiles(["file-1"], FILES));
+      const newFile = { id: "file-3", name: "c.pdf", type: "file" as const, size: 5, status: "pending" as const };
+      act(() => {
+        queryClient.setQueryData<{ data: FileItem[] }>(["kb-resources", "kb-1"], (prev) => ({ data: [...prev!.data, newFile] }));
+      });
+
+      const [[, folderToast]] = vi.mocked(toast.info).mock.calls as unknown as Array<[unknown, { data: { onUndo: () => void } }]>;
+      act(() => folderToast.data.onUndo());
+
+      // The folder and its file are back, the other deletion and the new file are untouched
+      expect(queryClient.getQueryData<{ data: FileItem[] }>(["kb-resources", "kb-1"])?.data.map((item) => item.id)).toEqual([
+        "file-3",
+        "folder-1",
+      ]);
+      expect(queryClient.getQueryData<{ data: FileItem[] }>(["kb-file-status", "kb-1", "/Reports"])?.data.map((item) => item.id)).toEqual([
+        "file-2",
+      ]);
+      const registry = queryClient.getQueryData<{ entries: Record<string, unknown> }>(["optimistic-delete-registry"]);
+      expect(Object.keys(registry?.entries || {})).toEqual(["file-1"]);
+      expect(result.current.queue.map((request) => request.fileId)).toEqual(["file-1"]);
+      expect(toast.success).toHaveBeenCalledWith("Deletion undone", expect.anything());
+    });
+  });
+
+  describe("deleting a folder", () => {
+    it("doesn't wait for collapsed subfolders, which are locked once they've loaded", async () => {
+      saveKBToStorage({ id: "kb-1", name: "KB", created_at: "2025-01-01T00:00:00Z", connection_id: "conn-1" });
+      const subfolder: FileItem = { id: "folder-2", name: "Reports/2024", type: "directory", size: 0, level: 1 };
+      const subfolderListing = deferred<FileListResponse>();
+      vi.mocked(listResources).mockReturnValueOnce(subfolderListing.promise);
+      const { result, queryClient } = await renderOperations();
+      queryClient.setQueryData(["kb-resources", "kb-1"], { data: [{ ...FOLDER, status: "indexed" }] });
+      queryClient.setQueryData(["drive-files", "conn-1", "folder-1"], { data: [NESTED_FILE, subfolder] });
+      const lockedIds = () =>
+        Object.keys(queryClient.getQueryData<{ entries: Record<string, unknown> }>(["optimistic-delete-registry"])?.entries || {});
+
+      await act(() => result.current.deleteSelectedFiles(["folder-1"], [...FILES, subfolder]));
+
+      expect(toast.info).toHaveBeenCalled();
+      expect(queryClient.getQueryData(["kb-resources", "kb-1"])).toEqual({ data: [] });
+      expect(lockedIds().sort()).toEqual(["file-2", "folder-1", "folder-2"]);
+
+      await act(async () => subfolderListing.resolve({ data: [{ id: "file-4", name: "Reports/2024/d.pdf", type: "file", size: 5 }] }));
+      await waitFor(() => expect(lockedIds()).toContain("file-4"));
+
+      // Undo takes back the late locks too
+      const [[, undoToast]] = vi.mocked(toast.info).mock.calls as unknown as Array<[unknown, { data: { onUndo: () => void } }]>;
+      act(() => undoToast.data.onUndo());
+      expect(lockedIds()).toEqual([]);
+    });
+  });
+
+  describe("connections", () => {
+    it("only offers the current connection's KBs and leaves a KB from another connection", async () => {
+      saveKBToStorage({ id: "kb-other", name: "Other", created_at: "2025-01-02T00:00:00Z", connection_id: "conn-2" });
+      addKBToStorageList({ id: "kb-1", name: "Mine", created_at: "2025-01-01T00:00:00Z", connection_id: "conn-1" });
+      addKBToStorageList({ id: "kb-legacy", name: "Legacy", created_at: "2024-01-01T00:00:00Z" });
+
+      const { result } = await renderOperations();
+
+      // The stored connection is gone, conn-1 is current
+      await waitFor(() => expect(result.current.currentKB).toBeNull());
+      expect(getKBFromStorage()).toBeNull();
+      expect(result.current.knowledgeBases.map((kb) => kb.id)).toEqual(["kb-1", "kb-legacy"]);
+      expect(result.current.switchKnowledgeBase("kb-other")).toBe(false);
+    });
+  });
+
+  describe("delete queue processing", () => {
+    it("sends deletes restored from a previous session and drops them once done", async () => {
+      saveKBToStorage({ id: "kb-1", name: "KB", created_at: "2025-01-01T00:00:00Z" });
+      saveDeleteQueueToStorage([queuedRequest()]);
+      vi.mocked(deleteKBResource).mockResolvedValue({ success: true });
+
+      const { result } = await renderOperations();
+
+      await waitFor(() => expect(deleteKBResource).toHaveBeenCalledWith("kb-1", "/a.pdf"));
+      await waitFor(() => expect(result.current.queue).toEqual([]));
+      expect(result.current.queueProcessing).toBe(false);
+      expect(toast.success).toHaveBeenCalledWith("Successfully processed delete queue", expect.anything());
+    });
+
+    it("treats a 404 as already deleted", async () => {
+      saveKBToStorage({ id: "kb-1", name: "KB", created_at: "2025-01-01T00:00:00Z" });
+      saveDeleteQueueToStorage([queuedRequest()]);
+      vi.mocked(deleteKBResource).mockRejectedValue(new NotFoundError("Not found", "/knowledge-bases/kb-1/resources"));
+
+      const { result } = await renderOperations();
+
+      await waitFor(() => expect(deleteKBResource).toHaveBeenCalled());
+      await waitFor(() => expect(result.current.queue).toEqual([]));
+    });
+
+    it("keeps a failed delete queued with a backoff", async () => {
+      saveKBToStorage({ id: "kb-1", name: "KB", created_at: "2025-01-01T00:00:00Z" });
+      saveDeleteQueueToStorage([queuedRequest()]);
+      vi.mocked(deleteKBResource).mockRejectedValue(new Error("boom"));
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const { result } = await renderOperations();
+
+      await waitFor(() => expect(result.current.queue[0]?.attempts).toBe(1));
+      expect(result.current.queue[0]).toMatchObject({ status: "queued", lastError: "boom" });
+      expect(result.current.queue[0].nextAttemptAt).toBeGreaterThan(Date.now());
+      expect(deleteKBResource).toHaveBeenCalledTimes(1);
+    });
+  });
+});
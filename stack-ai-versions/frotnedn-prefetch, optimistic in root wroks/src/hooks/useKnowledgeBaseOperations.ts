@@ -1,17 +1,56 @@
-import { useState, useCallback, useMemo, useEffect } from "react";
+import { useState, useCallback, useMemo, useEffect, useRef } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { createKnowledgeBase, syncKnowledgeBase, deleteKBResource } from "@/lib/api/knowledgeBase";
-import { saveKBToStorage, getKBFromStorage, clearKBFromStorage, clearCacheFromStorage } from "@/lib/utils/localStorage";
-import { deduplicateResourceIds } from "@/lib/utils/resourceDeduplication";
+import { createKnowledgeBase, syncKnowledgeBase, deleteKBResource, addKBResources, updateKnowledgeBase, deleteKnowledgeBase } from "@/lib/api/knowledgeBase";
+import { saveKBToStorage, getKBFromStorage, clearKBFromStorage, clearCacheFromStorage, clearSavedViewsFromStorage, moveSavedViewsInStorage } from "@/lib/utils/localStorage";
+import { getDefaultKBDetails } from "@/lib/utils/knowledgeBase";
+import { listResources } from "@/lib/api/connections";
+import { fetchAllPages } from "@/lib/api/pagination";
+import { buildParentMap, deduplicateResourceIds } from "@/lib/utils/resourceDeduplication";
+import { PROVIDER_DETAILS, connectionFilesKey } from "@/lib/utils/connections";
 import { useKnowledgeBaseStatus } from "./useKnowledgeBaseStatus";
 import { useKnowledgeBaseDeletion } from "./useKnowledgeBaseDeletion";
-import { useDataManager, type DeleteRequest } from "./useDataManager";
-import type { KnowledgeBase } from "@/lib/types/knowledgeBase";
-import type { FileItem } from "@/lib/types/file";
+import { useKnowledgeBaseList } from "./useKnowledgeBaseList";
+import { useDataManager, MAX_DELETE_ATTEMPTS } from "./useDataManager";
+import { useConnections } from "./useConnections";
+import { NotFoundError } from "@/lib/api/errors";
+import type { KnowledgeBase, KBDetails } from "@/lib/types/knowledgeBase";
+import type { FileItem, FileListResponse } from "@/lib/types/file";
+import type { DeleteRequest } from "@/lib/types/deleteQueue";
 import { toast } from 'react-toastify';
+import { UndoDeleteToast, type UndoDeleteToastData } from "@/components/file-picker/UndoDeleteToast";
+
+// Grace period before deletes are sent, while an "Undo" toast is shown (0 sends them right away)
+const DEFAULT_DELETE_UNDO_WINDOW = 5000; // 5 seconds
+const configuredUndoWindow = Number(process.env.NEXT_PUBLIC_DELETE_UNDO_WINDOW_MS);
+const DELETE_UNDO_WINDOW =
+  Number.isFinite(configuredUndoWindow) && configuredUndoWindow >= 0 ? configuredUndoWindow : DEFAULT_DELETE_UNDO_WINDOW;
+
+// Set when the backend indexes folders recursively, so nested selections can be sent as just their top folder
+const RECURSIVE_INDEXING = process.env.NEXT_PUBLIC_KB_RECURSIVE_INDEXING === "true";
+
+// A KB only holds resources of the connection it was created from. KBs stored before connections
+// were tracked don't know theirs, so they are treated as belonging to any connection
+function isKBForConnection(kb: KnowledgeBase, connectionId: string | null): boolean {
+  return !kb.connection_id || !connectionId || kb.connection_id === connectionId;
+}
+
+// KB cache entries a deletion took out, by cache key
+type RemovedEntries = Array<[readonly unknown[], FileItem[]]>;
+
+// Everything needed to take back a deletion that is still inside its undo window.
+// Only what this deletion changed is kept, so undoing it leaves concurrent changes alone
+interface PendingUndo {
+  kbId: string;
+  requestIds: string[];
+  lockedIds: string[]; // Registry entries added by the deletion, including folder descendants
+  removedEntries: RemovedEntries;
+  deadline: number;
+}
 
 export function useKnowledgeBaseOperations() {
   const queryClient = useQueryClient();
+  const { currentConnection } = useConnections();
+  const connectionId = currentConnection?.connection_id ?? null;
   
   const [currentKB, setCurrentKB] = useState<KnowledgeBase | null>(() => {
     // Initialize from localStorage on mount
@@ -33,6 +72,7 @@ export function useKnowledgeBaseOperations() {
   const {
     // Sync state
     syncState,
+    syncKbId,
     isSyncPending,
     isSyncCompleted,
     setSyncPending,
@@ -44,32 +84,42 @@ export function useKnowledgeBaseOperations() {
     queueProcessing,
     queueCount,
     queueHasItems,
+    failedDeletes,
     queueDeleteRequest,
     removeFromQueue,
+    releaseDeletes,
+    restoreDeletes,
+    recordDeleteFailure,
+    retryFailedDeletes,
     updateQueueKBId,
+    updateRegistryKBId,
     setQueueProcessing,
     clearQueue,
     
     // Registry operations
     markFileAsDeleted,
+    markFilesAsDeleted,
+    removeFromRegistry,
     clearRegistry,
     resolveFileStatus,
     
     // Cache operations
     updateKBResourcesCache,
     removeFromKBResourcesCache,
+    updateFolderStatusCache,
+    removeFromFolderStatusCache,
     setFolderContentsAsIndexed,
+    addToKBResourcesCache,
+    addToFolderStatusCache,
     
     // Folder helpers
     getFolderPathFromFileName,
     getFolderContents,
     getAllDescendantFileIds,
+    getAllDescendantFolders,
     
     // Cache persistence
     persistCacheToStorage,
-    
-    // Complete cleanup
-    clearAllState,
   } = useDataManager();
 
   // Poll KB status after creation - enable polling when we have a KB
@@ -79,62 +129,117 @@ export function useKnowledgeBaseOperations() {
     allFilesSettled,
     isLoading: isPolling,
     shouldPoll,
+    resumePolling,
   } = useKnowledgeBaseStatus({
     kbId: currentKB?.id || null,
     enabled: hasKB,
   });
 
+  // All KBs the user can switch between
+  const {
+    knowledgeBases: allKnowledgeBases,
+    isLoading: isLoadingKnowledgeBases,
+    rememberKnowledgeBase,
+    getListSnapshot,
+    restoreListSnapshot,
+    updateKnowledgeBaseInList,
+    removeKnowledgeBaseFromList,
+  } = useKnowledgeBaseList(currentKB);
+
+  // Only the current connection's KBs can be switched to, their resources come from it
+  const knowledgeBases = useMemo(
+    () => allKnowledgeBases.filter(kb => isKBForConnection(kb, connectionId)),
+    [allKnowledgeBases, connectionId]
+  );
+
   // Handle file deletion capabilities
   const { isDeleting: isActuallyDeleting, isFileDeleting, canDeleteFile, canDeleteFolder } = useKnowledgeBaseDeletion(currentKB?.id || null, statusMap);
 
-  // Process delete queue when sync completes
+  // Wakes the queue effect up when a backed-off delete becomes due
+  const [queueRetryTick, setQueueRetryTick] = useState(0);
+
+  // Process delete queue once no sync is pending (this also resumes deletes restored after a reload)
   useEffect(() => {
-    console.log(`🔍 Queue effect triggered: isSyncCompleted=${isSyncCompleted}, hasItems=${queueHasItems}, processing=${queueProcessing}, kbId=${currentKB?.id}`);
+    console.log(`🔍 Queue effect triggered: isSyncPending=${isSyncPending}, hasItems=${queueHasItems}, processing=${queueProcessing}, kbId=${currentKB?.id}`);
     
-    if (isSyncCompleted && queueHasItems && !queueProcessing) {
-      console.log("🔄 Sync completed, processing delete queue");
+    if (!isSyncPending && queueHasItems && !queueProcessing) {
+      console.log("🔄 No sync pending, processing delete queue");
       processQueue();
     }
-  }, [isSyncCompleted, queueHasItems, queueProcessing, currentKB?.id]);
+  }, [isSyncPending, queueHasItems, queueProcessing, queueRetryTick, currentKB?.id]);
+
+  // Schedule the next run for deletes that are waiting out their retry backoff
+  useEffect(() => {
+    const retryTimes = queue
+      .filter(request => request.status === "queued" && request.nextAttemptAt)
+      .map(request => request.nextAttemptAt as number);
+    if (retryTimes.length === 0) return;
+
+    const timer = setTimeout(() => setQueueRetryTick(tick => tick + 1), Math.max(0, Math.min(...retryTimes) - Date.now()));
+    return () => clearTimeout(timer);
+  }, [queue]);
 
   // Process delete queue function
   const processQueue = useCallback(async () => {
-    if (!currentKB?.id || queueProcessing || !queueHasItems) return;
+    if (queueProcessing || !queueHasItems) return;
+
+    const now = Date.now();
+    const dueRequests = queue.filter(
+      request => request.status === "queued" && (request.nextAttemptAt || 0) <= now
+    );
+    if (dueRequests.length === 0) return;
 
-    console.log(`🔄 Processing delete queue: ${queueCount} items`);
+    console.log(`🔄 Processing delete queue: ${dueRequests.length} of ${queueCount} items due`);
     setQueueProcessing(true);
 
+    let deletedCount = 0;
     try {
       // Process queue items one by one with delay
-      for (const request of queue as DeleteRequest[]) {
+      for (const [index, request] of dueRequests.entries()) {
         try {
-          console.log(`🗑️ Processing queued delete: ${request.fileName}`);
+          console.log(`🗑️ Processing queued delete: ${request.fileName} (attempt ${request.attempts + 1})`);
           await deleteKBResource(request.kbId, request.resourcePath);
           
           // Remove from queue on success
           removeFromQueue(request.id);
+          deletedCount++;
           
           console.log(`✅ Successfully deleted: ${request.fileName}`);
-          
-          // Add delay between deletions
-          if (queue.length > 1) {
-            await new Promise(resolve => setTimeout(resolve, 1000));
-          }
         } catch (error) {
+          if (error instanceof NotFoundError) {
+            // Already gone on the backend (e.g. an earlier attempt went through)
+            removeFromQueue(request.id);
+            deletedCount++;
+            continue;
+          }
+
           console.error(`❌ Failed to delete ${request.fileName}:`, error);
-          // Remove failed request from queue to prevent infinite retry
-          removeFromQueue(request.id);
+          recordDeleteFailure(request.id, error instanceof Error ? error.message : String(error));
+
+          if (request.attempts + 1 >= MAX_DELETE_ATTEMPTS) {
+            toast.error(`Couldn't delete ${request.fileName} after ${MAX_DELETE_ATTEMPTS} attempts.`, {
+              autoClose: 5000,
+              toastId: `queue-delete-failed-${request.id}`
+            });
+          }
+        }
+
+        // Add delay between deletions
+        if (index < dueRequests.length - 1) {
+          await new Promise(resolve => setTimeout(resolve, 1000));
         }
       }
       
-      toast.success(`Successfully processed delete queue`, {
-        autoClose: 3000,
-        toastId: 'queue-processing-success'
-      });
+      if (deletedCount > 0) {
+        toast.success(`Successfully processed delete queue`, {
+          autoClose: 3000,
+          toastId: 'queue-processing-success'
+        });
+      }
     } finally {
       setQueueProcessing(false);
     }
-  }, [currentKB?.id, queue, queueProcessing, queueHasItems, queueCount, setQueueProcessing, removeFromQueue]);
+  }, [queue, queueProcessing, queueHasItems, queueCount, setQueueProcessing, removeFromQueue, recordDeleteFailure]);
 
   // Helper to find all files within selected folders
   const findAllFilesInSelectedFolders = useCallback(
@@ -150,18 +255,15 @@ export function useKnowledgeBaseOperations() {
           // Check if folder contents are cached
           let folderContents = getFolderContents(selectedId);
           
-          if (folderContents.length === 0) {
+          if (folderContents.length === 0 && currentConnection) {
             // 🚀 EAGER FETCHING: Folder not cached, fetch contents now
             console.log(`🌐 Folder ${selectedItem.name} not cached, fetching contents for optimistic updates...`);
             
             try {
               // Fetch folder contents from API
               const response = await queryClient.fetchQuery({
-                queryKey: ["drive-files", selectedId],
-                queryFn: async () => {
-                  const { listResources } = await import("@/lib/api/connections");
-                  return listResources(selectedId);
-                },
+                queryKey: connectionFilesKey(connectionId, selectedId),
+                queryFn: ({ signal }) => fetchAllPages((cursor) => listResources(currentConnection, selectedId, { signal, cursor })),
                 staleTime: 5 * 60 * 1000, // 5 minutes
               });
               
@@ -202,23 +304,160 @@ export function useKnowledgeBaseOperations() {
 
       return { folderFiles, allFileIds };
     },
-    [getFolderContents, getFolderPathFromFileName, getAllDescendantFileIds, queryClient]
+    [getFolderContents, getFolderPathFromFileName, getAllDescendantFileIds, queryClient, currentConnection, connectionId]
+  );
+
+  // Load all pages of a folder's own listing into the drive-files cache (not its subfolders)
+  const ensureFolderContentsCached = useCallback(
+    async (folderId: string): Promise<FileItem[]> => {
+      if (!currentConnection) return [];
+
+      try {
+        // A folder expanded in the tree may only have its first pages cached
+        const cached = queryClient.getQueryData<FileListResponse>(connectionFilesKey(connectionId, folderId));
+        const response = await queryClient.fetchQuery({
+          queryKey: connectionFilesKey(connectionId, folderId),
+          queryFn: ({ signal }) => fetchAllPages((cursor) => listResources(currentConnection, folderId, { signal, cursor })),
+          staleTime: cached?.next_cursor ? 0 : 5 * 60 * 1000, // 5 minutes
+        });
+        return response?.data || [];
+      } catch (error) {
+        // Continue with whatever is cached
+        console.error(`❌ Failed to load folder contents for ${folderId}:`, error);
+        return [];
+      }
+    },
+    [queryClient, currentConnection, connectionId]
+  );
+
+  // Load a folder's whole subtree into the drive-files cache so its descendants are known
+  const ensureFolderTreeCached = useCallback(
+    async (folderId: string) => {
+      const loadFolder = async (id: string): Promise<void> => {
+        const contents = await ensureFolderContentsCached(id);
+
+        // One folder at a time, a large drive shouldn't fire all its listings at once
+        for (const subfolder of contents.filter(item => item.type === "directory")) {
+          await loadFolder(subfolder.id);
+        }
+      };
+
+      await loadFolder(folderId);
+    },
+    [ensureFolderContentsCached]
+  );
+
+  // IDs locked in the registry right now (the rendered entries can be behind a concurrent deletion)
+  const getLockedIds = useCallback(
+    () => new Set(Object.keys(queryClient.getQueryData<{ entries: Record<string, unknown> }>(["optimistic-delete-registry"])?.entries || {})),
+    [queryClient]
+  );
+
+  // The entries a removal is about to take out of a KB cache
+  const getRemovedEntries = useCallback(
+    (queryKey: readonly unknown[], ids: string[]): RemovedEntries => {
+      const items = queryClient.getQueryData<{ data: FileItem[] }>(queryKey)?.data.filter(item => ids.includes(item.id)) || [];
+      return items.length > 0 ? [[queryKey, items]] : [];
+    },
+    [queryClient]
+  );
+
+  // Optimistically remove a folder and all its descendants from the KB caches.
+  // Returns the registry entries it added and the cache entries it removed, for undo
+  const removeFolderOptimistically = useCallback(
+    (folder: FileItem, allFiles: FileItem[], kbId: string): { lockedIds: string[]; removedEntries: RemovedEntries } => {
+      const folderPath = `/${folder.name}`;
+      const descendantFolders = getAllDescendantFolders(folder.id);
+      const descendantFileIds = getAllDescendantFileIds(getFolderContents(folder.id), allFiles);
+
+      // Names for the registry entries come from the cached folder listings
+      const resourceNames = new Map<string, string>();
+      [folder, ...descendantFolders].forEach(item => {
+        getFolderContents(item.id).forEach(child => resourceNames.set(child.id, child.name));
+      });
+
+      const descendantIds = [...descendantFolders.map(item => item.id), ...descendantFileIds];
+      const removedIds = [folder.id, ...descendantIds];
+      const removedEntries: RemovedEntries = [];
+
+      // 1. Lock every descendant so polling can't bring it back
+      const alreadyLocked = getLockedIds();
+      markFilesAsDeleted(
+        descendantIds.map(id => ({
+          fileId: id,
+          fileName: resourceNames.get(id) || id,
+        })),
+        kbId
+      );
+
+      // 2. Drop the folder from its parent cache
+      if ((folder.level || 0) === 0) {
+        removedEntries.push(...getRemovedEntries(["kb-resources", kbId], removedIds));
+        removeFromKBResourcesCache(kbId, removedIds);
+      } else {
+        const parentPath = getFolderPathFromFileName(folder.name);
+        if (queryClient.getQueryData(["kb-file-status", kbId, parentPath])) {
+          removedEntries.push(...getRemovedEntries(["kb-file-status", kbId, parentPath], [folder.id]));
+          removeFromFolderStatusCache(kbId, parentPath, [folder.id]);
+        }
+      }
+
+      // 3. Reconcile every cached folder status at or below the folder path
+      queryClient
+        .getQueryCache()
+        .findAll({ queryKey: ["kb-file-status", kbId] })
+        .map(query => query.queryKey[2] as string)
+        .filter(path => path === folderPath || path.startsWith(folderPath + "/"))
+        .forEach(path => {
+          removedEntries.push(...getRemovedEntries(["kb-file-status", kbId, path], removedIds));
+          removeFromFolderStatusCache(kbId, path, removedIds);
+        });
+
+      console.log(`📁 Optimistically removed folder ${folderPath}: ${descendantFileIds.length} files, ${descendantFolders.length} subfolders`);
+      return { lockedIds: descendantIds.filter(id => !alreadyLocked.has(id)), removedEntries };
+    },
+    [
+      getLockedIds,
+      getRemovedEntries,
+      getAllDescendantFolders,
+      getAllDescendantFileIds,
+      getFolderContents,
+      getFolderPathFromFileName,
+      markFilesAsDeleted,
+      removeFromKBResourcesCache,
+      removeFromFolderStatusCache,
+      queryClient
+    ]
+  );
+
+  // Minimal set of IDs to send for a selection, using the parent/child relationships of the loaded folder listings
+  const dedupeSelection = useCallback(
+    (resourceIds: string[], files: FileItem[]) => {
+      const listings = queryClient
+        .getQueriesData<FileListResponse>({ queryKey: ["drive-files", connectionId] })
+        .filter(([, data]) => !!data?.data)
+        .map(([queryKey, data]): [string | null, FileItem[]] => [queryKey[2] === "root" ? null : String(queryKey[2]), data!.data]);
+
+      return deduplicateResourceIds(resourceIds, files, { recursive: RECURSIVE_INDEXING, parentIds: buildParentMap(listings) });
+    },
+    [queryClient, connectionId]
   );
 
   // OPTIMISTIC KB CREATION WITH FOLDER SUPPORT
   const createKBMutation = useMutation({
     mutationKey: ["createKB"],
-    mutationFn: async ({ resourceIds, files }: { resourceIds: string[]; files: FileItem[] }) => {
-      const deduplicatedIds = deduplicateResourceIds(resourceIds, files);
+    mutationFn: async ({ resourceIds, files, details }: { resourceIds: string[]; files: FileItem[]; details: KBDetails }) => {
+      const deduplicatedIds = dedupeSelection(resourceIds, files);
 
       const kbData = {
-        name: `Knowledge Base ${new Date().toLocaleString()}`,
-        description: "Created from Google Drive files",
+        ...details,
+        connection_id: connectionId ?? undefined,
         resource_ids: deduplicatedIds,
       };
 
       console.log("Creating KB with data:", kbData);
-      const kb = await createKnowledgeBase(kbData);
+      const createdKB = await createKnowledgeBase(kbData);
+      const kb = { ...createdKB, connection_id: createdKB.connection_id ?? kbData.connection_id };
 
       console.log("KB created, triggering sync:", kb.id);
       await syncKnowledgeBase(kb.id);
@@ -226,7 +465,7 @@ export function useKnowledgeBaseOperations() {
 
       return { kb, resourceIds: deduplicatedIds, files };
     },
-    onMutate: async ({ resourceIds, files }) => {
+    onMutate: async ({ resourceIds, files, details }) => {
       console.log("🚀 OPTIMISTIC KB CREATION START");
       
       // 1. Set sync state to pending
@@ -236,9 +475,11 @@ export function useKnowledgeBaseOperations() {
       // 2. IMMEDIATELY create fake KB for UI state
       const optimisticKB = {
         id: tempKbId,
-        name: `Knowledge Base ${new Date().toLocaleString()}`,
+        name: details.name,
+        description: details.description,
         created_at: new Date().toISOString(),
         is_empty: false,
+        connection_id: connectionId ?? undefined,
       };
       
       // 3. IMMEDIATELY update component state (hasKB becomes true)
@@ -296,6 +537,9 @@ export function useKnowledgeBaseOperations() {
       // Update any queued delete requests from temp KB ID to real KB ID
       if (context?.optimisticKB) {
         updateQueueKBId(context.optimisticKB.id, kb.id);
+        updateRegistryKBId(context.optimisticKB.id, kb.id);
+        moveSavedViewsInStorage(context.optimisticKB.id, kb.id);
+        queryClient.removeQueries({ queryKey: ["saved-views", context.optimisticKB.id] });
       }
       
       // Replace optimistic KB with real KB
@@ -306,7 +550,10 @@ export function useKnowledgeBaseOperations() {
         id: kb.id,
         name: kb.name,
         created_at: kb.created_at,
+        description: kb.description,
+        connection_id: kb.connection_id,
       });
+      rememberKnowledgeBase(kb);
       
       // Transfer optimistic caches from temp ID to real KB ID
       if (context?.optimisticKB) {
@@ -350,6 +597,18 @@ export function useKnowledgeBaseOperations() {
     },
     onError: (error, variables, context) => {
       console.error("❌ KB CREATION FAILED:", error);
+
+      // Deletes queued against the KB that was never created have nothing to delete: drop them and their locks
+      // before the sync state resets and lets the queue run
+      if (context?.optimisticKB) {
+        const tempKbId = context.optimisticKB.id;
+        const queue = queryClient.getQueryData<{ queue: DeleteRequest[] }>(["delete-queue"])?.queue || [];
+        queue.filter(request => request.kbId === tempKbId).forEach(request => removeFromQueue(request.id));
+        const registry = queryClient.getQueryData<{ entries: Record<string, { kbId: string }> }>(["optimistic-delete-registry"]);
+        Object.entries(registry?.entries || {})
+          .filter(([, entry]) => entry.kbId === tempKbId)
+          .forEach(([fileId]) => removeFromRegistry(fileId));
+      }
       
       // Reset sync state
       resetSyncState();
@@ -379,171 +638,611 @@ export function useKnowledgeBaseOperations() {
     },
   });
 
-  // OPTIMISTIC FILE DELETION WITH QUEUE
-  const deleteFilesMutation = useMutation({
-    mutationKey: ["deleteFiles"],
-    mutationFn: async ({ fileIds, files }: { fileIds: string[]; files: FileItem[] }) => {
-      if (!currentKB?.id) throw new Error("No KB ID");
-      
-      // If sync is pending, this will be handled by the queue
-      if (isSyncPending) {
-        throw new Error("Sync is pending - delete should be queued");
+  // OPTIMISTIC ADD TO EXISTING KB
+  const addFilesMutation = useMutation({
+    mutationKey: ["addFilesToKB"],
+    mutationFn: async ({ kbId, resourceIds, files }: {
+      kbId: string;
+      resourceIds: string[];
+      files: FileItem[];
+      watchFolder?: (folderPath: string, folderId: string) => void; // Polls a folder's statuses once the sync has started
+    }) => {
+      const deduplicatedIds = dedupeSelection(resourceIds, files);
+
+      console.log(`Adding ${deduplicatedIds.length} resources to KB:`, kbId);
+      await addKBResources(kbId, { connection_id: connectionId ?? undefined, resource_ids: deduplicatedIds });
+
+      console.log("Resources added, triggering sync:", kbId);
+      await syncKnowledgeBase(kbId);
+      console.log("✅ Sync API call completed successfully");
+
+      return { kbId, resourceIds: deduplicatedIds };
+    },
+    onMutate: async ({ kbId, resourceIds, files }) => {
+      console.log("🚀 OPTIMISTIC ADD TO KB START");
+
+      // 1. Snapshot caches for rollback
+      const previousRootData = queryClient.getQueryData<{ data: FileItem[] }>(["kb-resources", kbId]);
+      const previousFolderData = new Map<string, { data: FileItem[] } | undefined>();
+      // Folder paths with pending entries, by folder ID, to be watched once the sync has started
+      const pendingFolders = new Map<string, string>();
+      const addToFolder = (folderPath: string, folderFiles: FileItem[], folderId?: string) => {
+        if (!previousFolderData.has(folderPath)) {
+          previousFolderData.set(folderPath, queryClient.getQueryData<{ data: FileItem[] }>(["kb-file-status", kbId, folderPath]));
+        }
+        if (folderId) pendingFolders.set(folderPath, folderId);
+        addToFolderStatusCache(kbId, folderPath, folderFiles);
+      };
+
+      // 2. Group added files and folders by their KB location (root cache vs folder status cache)
+      const addedItems = resourceIds
+        .map(id => files.find(f => f.id === id))
+        .filter((file): file is FileItem => !!file);
+      const rootItems = addedItems.filter(item => (item.level || 0) === 0);
+      const itemsByFolder = new Map<string, FileItem[]>();
+      addedItems
+        .filter(item => (item.level || 0) > 0)
+        .forEach(item => {
+          const folderPath = getFolderPathFromFileName(item.name);
+          itemsByFolder.set(folderPath, [...(itemsByFolder.get(folderPath) || []), item]);
+        });
+
+      // 3. Re-added items must not stay locked as deleted or be deleted by a queued request
+      const releasedDeletes = [releaseDeletes(addedItems.map(item => item.id))];
+
+      // 4. Hold deletes in the queue until the sync finishes
+      const previousSyncState = syncState;
+      setSyncPending(kbId);
+
+      // 5. IMMEDIATELY show added items as "pending" (rendered as "indexed")
+      if (rootItems.length > 0) {
+        addToKBResourcesCache(kbId, rootItems);
       }
-      
-      // Direct deletion for when sync is complete
-      const deletePromises = fileIds.map(async (fileId) => {
-        const file = files.find(f => f.id === fileId);  
-        if (!file) return;
-        
-        const resourcePath = `/${file.name}`;
-        return deleteKBResource(currentKB.id, resourcePath);
+      itemsByFolder.forEach((folderItems, folderPath) => {
+        const parentFolder = files.find(file => file.type === "directory" && `/${file.name}` === folderPath);
+        addToFolder(folderPath, folderItems, parentFolder?.id);
       });
 
-      await Promise.all(deletePromises);
-      return { fileIds };
+      // 6. An added folder brings in its direct files (subfolders are sent on their own); only its own listing is loaded
+      for (const folder of addedItems.filter(item => item.type === "directory")) {
+        const folderFiles = (await ensureFolderContentsCached(folder.id)).filter(item => item.type === "file");
+        if (folderFiles.length === 0) continue;
+
+        releasedDeletes.push(releaseDeletes(folderFiles.map(file => file.id)));
+        addToFolder(`/${folder.name}`, folderFiles, folder.id);
+      }
+
+      console.log(`✅ Optimistically added ${addedItems.length} items to KB ${kbId}`);
+
+      return { previousRootData, previousFolderData, pendingFolders, previousSyncState, releasedDeletes };
     },
-    onSuccess: ({ fileIds }, variables, context) => {
-      console.log("🎉 DIRECT FILE DELETION SUCCESS");
-      
-      // Remove files from optimistic delete registry since they're actually deleted
-      fileIds.forEach(fileId => {
-        // Note: Don't remove from registry here as the files are already 
-        // removed from cache optimistically. The registry entry will be 
-        // cleaned up when the cache update happens.
+    onSuccess: ({ kbId, resourceIds }, { watchFolder }, context) => {
+      console.log("🎉 ADD TO KB SUCCESS");
+
+      setSyncCompleted(kbId);
+      resumePolling();
+      context?.pendingFolders.forEach((folderId, folderPath) => watchFolder?.(folderPath, folderId));
+      persistCacheToStorage(kbId);
+
+      toast.success(`Added ${resourceIds.length} item(s) to the knowledge base`, {
+        autoClose: 3000,
+        toastId: 'kb-add-success'
       });
-      
-      // Persist cache after successful deletion
-      if (currentKB?.id) {
-        persistCacheToStorage(currentKB.id);
+    },
+    onError: (error, { kbId }, context) => {
+      console.error("❌ ADD TO KB FAILED:", error);
+
+      // Revert optimistic caches
+      if (context) {
+        updateKBResourcesCache(kbId, () => context.previousRootData || { data: [] });
+        context.previousFolderData.forEach((folderData, folderPath) => {
+          updateFolderStatusCache(kbId, folderPath, () => folderData || { data: [] });
+        });
+        context.releasedDeletes.forEach(released => restoreDeletes(released));
+
+        if (context.previousSyncState === "synced") {
+          setSyncCompleted(kbId);
+        } else {
+          resetSyncState();
+        }
       }
-      
-      toast.success(`Successfully deleted ${fileIds.length} file(s)`, {
+
+      toast.error("Failed to add files to the knowledge base. Please try again.", {
+        autoClose: 5000,
+        toastId: 'kb-add-error'
+      });
+    },
+  });
+
+  const renameKBMutation = useMutation({
+    mutationKey: ["renameKB"],
+    mutationFn: async ({ kbId, details }: { kbId: string; details: KBDetails }) => {
+      console.log(`Updating KB details: ${kbId}`, details);
+      return updateKnowledgeBase(kbId, details);
+    },
+    onMutate: ({ kbId, details }) => {
+      // 1. Snapshot list and current KB for rollback
+      const previousList = getListSnapshot();
+      const previousKB = currentKB;
+
+      // 2. IMMEDIATELY show the new details everywhere
+      const existing = allKnowledgeBases.find(kb => kb.id === kbId);
+      if (existing) {
+        updateKnowledgeBaseInList({ ...existing, ...details });
+      }
+      if (currentKB?.id === kbId) {
+        const renamedKB = { ...currentKB, ...details };
+        setCurrentKB(renamedKB);
+        saveKBToStorage({
+          id: renamedKB.id,
+          name: renamedKB.name,
+          created_at: renamedKB.created_at,
+          description: renamedKB.description,
+          connection_id: renamedKB.connection_id,
+        });
+      }
+
+      return { previousList, previousKB };
+    },
+    onSuccess: () => {
+      toast.success("Knowledge base updated", {
+        autoClose: 3000,
+        toastId: 'kb-rename-success'
+      });
+    },
+    onError: (error, { kbId }, context) => {
+      console.error("❌ KB RENAME FAILED:", error);
+
+      if (context) {
+        restoreListSnapshot(context.previousList);
+        if (context.previousKB?.id === kbId) {
+          setCurrentKB(context.previousKB);
+          saveKBToStorage({
+            id: context.previousKB.id,
+            name: context.previousKB.name,
+            created_at: context.previousKB.created_at,
+            description: context.previousKB.description,
+            connection_id: context.previousKB.connection_id,
+          });
+        }
+      }
+
+      toast.error("Failed to update knowledge base. Please try again.", {
+        autoClose: 5000,
+        toastId: 'kb-rename-error'
+      });
+    },
+  });
+
+  const deleteKBMutation = useMutation({
+    mutationKey: ["deleteKB"],
+    mutationFn: async ({ kbId }: { kbId: string }) => {
+      console.log(`Deleting KB: ${kbId}`);
+      await deleteKnowledgeBase(kbId);
+      return { kbId };
+    },
+    onMutate: ({ kbId }) => {
+      console.log(`🚀 OPTIMISTIC KB DELETE START: ${kbId}`);
+
+      // 1. Snapshot list and current KB for rollback
+      const previousList = getListSnapshot();
+      const previousKB = currentKB;
+      const wasCurrent = currentKB?.id === kbId;
+
+      // 2. Leave the KB first, otherwise the stored current KB is merged back into the list
+      if (wasCurrent) {
+        resetSyncState();
+        clearKBFromStorage();
+        setCurrentKB(null);
+      }
+
+      // 3. IMMEDIATELY remove it from the switcher
+      removeKnowledgeBaseFromList(kbId);
+
+      return { previousList, previousKB, wasCurrent };
+    },
+    onSuccess: ({ kbId }) => {
+      console.log("🎉 KB DELETE SUCCESS");
+
+      // Drop everything cached for the deleted KB
+      clearCacheFromStorage(kbId);
+      clearSavedViewsFromStorage(kbId);
+      queryClient.removeQueries({ queryKey: ["saved-views", kbId] });
+      queryClient.removeQueries({ queryKey: ["kb-resources", kbId] });
+      queryClient.removeQueries({
+        predicate: (query) => {
+          const [type, queryKbId] = query.queryKey;
+          return type === "kb-file-status" && queryKbId === kbId;
+        }
+      });
+
+      toast.success("Knowledge base deleted", {
         autoClose: 3000,
-        toastId: 'file-deletion-success'
+        toastId: 'kb-delete-success'
       });
     },
     onError: (error, variables, context) => {
-      console.error("❌ DIRECT FILE DELETION FAILED:", error);
-      
-      toast.error("Failed to delete files. Please try again.", {
+      console.error("❌ KB DELETE FAILED:", error);
+
+      if (context) {
+        restoreListSnapshot(context.previousList);
+        if (context.wasCurrent && context.previousKB) {
+          setSyncCompleted(context.previousKB.id);
+          setCurrentKB(context.previousKB);
+          saveKBToStorage({
+            id: context.previousKB.id,
+            name: context.previousKB.name,
+            created_at: context.previousKB.created_at,
+            description: context.previousKB.description,
+            connection_id: context.previousKB.connection_id,
+          });
+        }
+      }
+
+      toast.error("Failed to delete knowledge base. Please try again.", {
         autoClose: 5000,
-        toastId: 'file-deletion-error'
+        toastId: 'kb-delete-error'
       });
     },
   });
 
   // Public functions
   const createKnowledgeBaseWithFiles = useCallback(
-    (resourceIds: string[], files: FileItem[]) => {
+    (resourceIds: string[], files: FileItem[], details?: KBDetails) => {
       if (resourceIds.length === 0) {
         console.warn("No files selected for KB creation");
         return;
       }
 
+      // Resolve the name once so the optimistic KB and the request agree
+      const defaults = getDefaultKBDetails(currentConnection ? PROVIDER_DETAILS[currentConnection.connection_provider].label : undefined);
+      const kbDetails = {
+        name: details?.name.trim() || defaults.name,
+        description: details?.description.trim() || defaults.description,
+      };
+
       console.log(`🚀 Starting optimistic KB creation with ${resourceIds.length} files`);
-      createKBMutation.mutate({ resourceIds, files });
+      createKBMutation.mutate({ resourceIds, files, details: kbDetails });
+    },
+    [createKBMutation, currentConnection]
+  );
+
+  // Deletions still inside their undo window, keyed by their first queued request
+  const pendingUndosRef = useRef(new Map<string, PendingUndo>());
+
+  // Take back a deletion before any API call was sent: unqueue, unlock and restore the caches
+  const undoDelete = useCallback(
+    (undoId: string) => {
+      const pending = pendingUndosRef.current.get(undoId);
+      pendingUndosRef.current.delete(undoId);
+
+      // Read the queue from the cache, this callback lives on in the toast
+      const queue = queryClient.getQueryData<{ queue: DeleteRequest[] }>(["delete-queue"])?.queue || [];
+      const stillQueued = pending?.requestIds.every(id => queue.some(request => request.id === id && request.attempts === 0));
+      if (!pending || Date.now() >= pending.deadline || !stillQueued) {
+        toast.warn("Too late to undo, the deletion is already being processed.", {
+          autoClose: 3000,
+          toastId: 'undo-delete-too-late'
+        });
+        return;
+      }
+
+      pending.requestIds.forEach(id => removeFromQueue(id));
+      pending.lockedIds.forEach(id => removeFromRegistry(id));
+
+      // Put back only the entries this deletion removed, whatever changed since stays
+      pending.removedEntries.forEach(([queryKey, items]) => {
+        queryClient.setQueryData<{ data: FileItem[] }>(queryKey, prev => {
+          if (!prev) return prev;
+          const present = new Set(prev.data.map(item => item.id));
+          return { ...prev, data: [...prev.data, ...items.filter(item => !present.has(item.id))] };
+        });
+      });
+      persistCacheToStorage(pending.kbId);
+
+      console.log(`↩️ Undid deletion of ${pending.requestIds.length} item(s)`);
+      toast.success("Deletion undone", {
+        autoClose: 2000,
+        toastId: 'undo-delete-success'
+      });
     },
-    [createKBMutation]
+    [removeFromQueue, removeFromRegistry, persistCacheToStorage, queryClient]
   );
 
   const deleteSelectedFiles = useCallback(
-    (selectedIds: string[], files: FileItem[]) => {
+    async (selectedIds: string[], files: FileItem[]) => {
       if (!currentKB?.id) {
         console.warn("No KB ID available for deletion");
         return;
       }
 
-      console.log(`🗑️ Starting optimistic file deletion: ${selectedIds.length} files`);
+      const kbId = currentKB.id;
+      const selectedItems = selectedIds
+        .map(id => files.find(f => f.id === id))
+        .filter((file): file is FileItem => !!file);
+      const selectedFolders = selectedItems.filter(item => item.type === "directory");
 
-      // 1. IMMEDIATELY mark files as deleted in registry (locks their status)
-      selectedIds.forEach(fileId => {
-        const file = files.find(f => f.id === fileId);
-        if (file) {
-          markFileAsDeleted(fileId, file.name, currentKB.id);
-        }
+      // A folder delete covers everything below it, so only send the top-most selected items
+      const itemsToDelete = selectedItems.filter(item => 
+        !selectedFolders.some(folder => item.name.startsWith(folder.name + "/"))
+      );
+      const idsToDelete = itemsToDelete.map(item => item.id);
+
+      console.log(`🗑️ Starting optimistic deletion: ${itemsToDelete.length} items (${selectedFolders.length} folders selected)`);
+
+      // 0. Keep track of what this deletion changes so it can be undone (entries locked by other deletions stay)
+      const kbQueryKey = ["kb-resources", kbId];
+      const rootData = queryClient.getQueryData<{ data: FileItem[] }>(kbQueryKey);
+      const alreadyLocked = getLockedIds();
+      const lockedIds = idsToDelete.filter(id => !alreadyLocked.has(id));
+      const removedEntries = getRemovedEntries(kbQueryKey, idsToDelete);
+
+      // 1. IMMEDIATELY mark items as deleted in registry (locks their status)
+      itemsToDelete.forEach(item => {
+        markFileAsDeleted(item.id, item.name, kbId);
       });
 
       // 2. IMMEDIATELY remove from KB resources cache (shows as "-" in UI)
-      const kbQueryKey = ["kb-resources", currentKB.id];
-      const currentKBData = queryClient.getQueryData<{ data: FileItem[] }>(kbQueryKey);
-      
-      if (currentKBData?.data) {
+      if (rootData?.data) {
         const filteredData = {
-          ...currentKBData,
-          data: currentKBData.data.filter(resource => !selectedIds.includes(resource.id))
+          ...rootData,
+          data: rootData.data.filter(resource => !idsToDelete.includes(resource.id))
         };
         
         queryClient.setQueryData(kbQueryKey, filteredData);
         console.log("✅ Files immediately removed from KB cache, UI should show '-' status");
       }
 
-      // 3. Handle deletion based on sync state
-      if (isSyncPending) {
-        // Queue the deletions for later processing
-        console.log("🕒 Sync is pending, queueing delete requests");
-        selectedIds.forEach(fileId => {
-          const file = files.find(f => f.id === fileId);
-          if (file) {
-            queueDeleteRequest(fileId, file.name, currentKB.id);
-          }
+      // 3. Recursively remove folder contents that are cached right away. Collapsed subfolders load in the
+      // background and are removed once known, unless the deletion was undone meanwhile (its folder is unlocked)
+      itemsToDelete.filter(item => item.type === "directory").forEach(folder => {
+        const removal = removeFolderOptimistically(folder, files, kbId);
+        lockedIds.push(...removal.lockedIds);
+        removedEntries.push(...removal.removedEntries);
+
+        ensureFolderTreeCached(folder.id).then(() => {
+          if (!getLockedIds().has(folder.id)) return;
+          // The pending undo holds these same arrays, so it also takes back what's removed late
+          const lateRemoval = removeFolderOptimistically(folder, files, kbId);
+          lockedIds.push(...lateRemoval.lockedIds);
+          removedEntries.push(...lateRemoval.removedEntries);
         });
-        
-        toast.info(
-          `Queued ${selectedIds.length} file(s) for deletion. They will be processed when sync completes.`,
-          {
-            autoClose: 4000,
-            toastId: 'files-queued-for-deletion'
-          }
-        );
-      } else {
-        // Execute deletion immediately
-        console.log("✅ Sync is complete, executing delete immediately");
-        deleteFilesMutation.mutate({ fileIds: selectedIds, files });
+      });
+
+      // 4. With an undo window, hold the deletes in the queue until it passes
+      if (DELETE_UNDO_WINDOW > 0) {
+        const deadline = Date.now() + DELETE_UNDO_WINDOW;
+        const requestIds = itemsToDelete.map(item => queueDeleteRequest(item.id, item.name, kbId, deadline));
+        const undoId = requestIds[0];
+
+        pendingUndosRef.current.forEach((pending, id) => {
+          if (pending.deadline <= Date.now()) pendingUndosRef.current.delete(id);
+        });
+        pendingUndosRef.current.set(undoId, {
+          kbId,
+          requestIds,
+          lockedIds,
+          removedEntries,
+          deadline,
+        });
+
+        const message = isSyncPending
+          ? `Queued ${itemsToDelete.length} item(s) for deletion. They will be processed when sync completes.`
+          : `Deleting ${itemsToDelete.length} item(s)`;
+        toast.info<UndoDeleteToastData>(UndoDeleteToast, {
+          autoClose: DELETE_UNDO_WINDOW,
+          closeOnClick: false,
+          toastId: `undo-delete-${undoId}`,
+          data: { message, onUndo: () => undoDelete(undoId) },
+        });
+        return;
       }
+
+      // 5. Without one, the queue sends them right away (or once the sync completes)
+      itemsToDelete.forEach(item => {
+        queueDeleteRequest(item.id, item.name, kbId);
+      });
+
+      toast.info(
+        isSyncPending
+          ? `Queued ${itemsToDelete.length} item(s) for deletion. They will be processed when sync completes.`
+          : `Deleting ${itemsToDelete.length} item(s)`,
+        {
+          autoClose: 4000,
+          toastId: 'files-queued-for-deletion'
+        }
+      );
     },
     [
       currentKB?.id, 
       isSyncPending, 
       markFileAsDeleted, 
+      getLockedIds,
+      getRemovedEntries,
       queueDeleteRequest, 
-      deleteFilesMutation, 
+      ensureFolderTreeCached,
+      removeFolderOptimistically,
+      undoDelete,
       queryClient
     ]
   );
 
+  const addFilesToKnowledgeBase = useCallback(
+    (resourceIds: string[], files: FileItem[], watchFolder?: (folderPath: string, folderId: string) => void) => {
+      if (!currentKB?.id) {
+        console.warn("No KB ID available for adding files");
+        return;
+      }
+
+      if (resourceIds.length === 0) {
+        console.warn("No files selected to add to KB");
+        return;
+      }
+
+      if (isSyncPending) {
+        console.warn("Sync is pending - wait for it to finish before adding files");
+        return;
+      }
+
+      // The selection comes from the current connection, the KB may belong to another one
+      if (!isKBForConnection(currentKB, connectionId)) {
+        toast.warning("This knowledge base belongs to another source. Switch back to it to add files.", {
+          autoClose: 5000,
+          toastId: 'kb-add-other-connection'
+        });
+        return;
+      }
+
+      console.log(`🚀 Starting optimistic add of ${resourceIds.length} files to KB ${currentKB.id}`);
+      addFilesMutation.mutate({ kbId: currentKB.id, resourceIds, files, watchFolder });
+    },
+    [currentKB, connectionId, isSyncPending, addFilesMutation]
+  );
+
+  // Leave the current KB and go back to create mode; other KBs keep their caches
   const createNewKB = useCallback(() => {
-    console.log("🔄 Creating new KB - clearing ALL state and cache");
+    console.log("🔄 Creating new KB - leaving current KB");
+    
+    // 1. Persist the current KB's cache so it is intact when switching back
+    if (currentKB?.id && !currentKB.id.startsWith("temp-")) {
+      persistCacheToStorage(currentKB.id);
+    }
     
-    // 1. Use comprehensive cleanup from DataManager (this handles everything)
-    clearAllState();
+    // 2. Reset sync state for the next KB
+    resetSyncState();
     
-    // 2. Clear KB from localStorage  
+    // 3. Clear current KB from localStorage (the KB list is kept)
     clearKBFromStorage();
     
-    // 3. Clear ALL React Query caches to ensure clean state
-    queryClient.clear();
-    console.log("🗑️ Cleared all React Query caches");
-    
     // 4. Reset component state
     setCurrentKB(null);
-    
-    // 5. Force page reload to ensure completely clean state
-    console.log("🔄 Reloading page for clean state");
-    window.location.reload();
-  }, [clearAllState, queryClient]);
+  }, [currentKB?.id, persistCacheToStorage, resetSyncState]);
+
+  // Leave the KB when another connection is picked (or the stored one is gone), its files aren't listed there
+  useEffect(() => {
+    if (!currentKB || isKBForConnection(currentKB, connectionId)) return;
+
+    console.log(`🔌 KB ${currentKB.id} belongs to connection ${currentKB.connection_id}, leaving it for ${connectionId}`);
+    createNewKB();
+  }, [currentKB, connectionId, createNewKB]);
+
+  // Returns whether the switch happened
+  const switchKnowledgeBase = useCallback(
+    (kbId: string): boolean => {
+      if (kbId === currentKB?.id) return true;
+
+      // The sync state and delete queue belong to the KB being synced
+      if (isSyncPending || createKBMutation.isPending || addFilesMutation.isPending) {
+        toast.info("Please wait for the current knowledge base to finish syncing before switching.", {
+          autoClose: 4000,
+          toastId: 'kb-switch-blocked'
+        });
+        return false;
+      }
+
+      const kb = knowledgeBases.find(k => k.id === kbId);
+      if (!kb) {
+        console.warn(`Unknown KB: ${kbId}`);
+        return false;
+      }
+
+      console.log(`🔀 Switching KB: ${currentKB?.id} → ${kb.id}`);
+
+      if (currentKB?.id) {
+        persistCacheToStorage(currentKB.id);
+      }
+
+      // Existing KBs are already synced, so deletes can run immediately
+      setSyncCompleted(kb.id);
+      setCurrentKB(kb);
+      saveKBToStorage({
+        id: kb.id,
+        name: kb.name,
+        created_at: kb.created_at,
+        description: kb.description,
+        connection_id: kb.connection_id,
+      });
+      return true;
+    },
+    [currentKB?.id, isSyncPending, createKBMutation.isPending, addFilesMutation.isPending, knowledgeBases, persistCacheToStorage, setSyncCompleted]
+  );
+
+  // Give up on a permanently failed delete and show the file's real status again
+  const dismissFailedDelete = useCallback(
+    (requestId: string) => {
+      const request = failedDeletes.find(r => r.id === requestId);
+      if (!request) return;
+
+      removeFromQueue(request.id);
+      removeFromRegistry(request.fileId);
+      resumePolling();
+    },
+    [failedDeletes, removeFromQueue, removeFromRegistry, resumePolling]
+  );
+
+  // KBs still being created or synced can't be renamed or deleted yet
+  const isKBLocked = useCallback(
+    (kbId: string) => kbId.startsWith("temp-") || (isSyncPending && syncKbId === kbId),
+    [isSyncPending, syncKbId]
+  );
+
+  const renameKnowledgeBase = useCallback(
+    (kbId: string, details: KBDetails) => {
+      const name = details.name.trim();
+      if (!name) {
+        console.warn("KB name can't be empty");
+        return;
+      }
+
+      if (isKBLocked(kbId)) {
+        toast.info("Please wait for the knowledge base to finish syncing before renaming it.", {
+          autoClose: 4000,
+          toastId: 'kb-rename-blocked'
+        });
+        return;
+      }
+
+      renameKBMutation.mutate({ kbId, details: { name, description: details.description.trim() } });
+    },
+    [isKBLocked, renameKBMutation]
+  );
+
+  const deleteKnowledgeBasePermanently = useCallback(
+    (kbId: string) => {
+      if (isKBLocked(kbId)) {
+        toast.info("Please wait for the knowledge base to finish syncing before deleting it.", {
+          autoClose: 4000,
+          toastId: 'kb-delete-blocked'
+        });
+        return;
+      }
+
+      deleteKBMutation.mutate({ kbId });
+    },
+    [isKBLocked, deleteKBMutation]
+  );
 
   return {
     currentKB,
     hasKB,
+    knowledgeBases,
+    isLoadingKnowledgeBases,
+    switchKnowledgeBase,
+    renameKnowledgeBase,
+    isRenamingKB: renameKBMutation.isPending,
+    deleteKnowledgeBasePermanently,
+    isDeletingKB: deleteKBMutation.isPending,
     isCreating: createKBMutation.isPending,
     createKnowledgeBaseWithFiles,
     createNewKB,
+    isAdding: addFilesMutation.isPending,
+    addFilesToKnowledgeBase,
     statusMap, // Use original status map since resolveFileStatus handles optimistic overrides
     statusCounts,
     allFilesSettled,
     isPolling,
     // Deletion functions
-    isDeleting: deleteFilesMutation.isPending,
+    isDeleting: queueProcessing, // Deletes are sent by the queue
     isActuallyDeleting, // From useKnowledgeBaseDeletion - tracks actual API calls
     deleteSelectedFiles,
     isFileDeleting,
@@ -557,5 +1256,8 @@ export function useKnowledgeBaseOperations() {
     queueProcessing,
     queueCount,
     queueHasItems,
+    failedDeletes,
+    retryFailedDeletes,
+    dismissFailedDelete,
   };
 }
@@ -1,8 +1,11 @@
 import { useQuery } from "@tanstack/react-query";
-import { useEffect, useState, useMemo } from "react";
+import { useEffect, useState, useMemo, useCallback } from "react";
 import { listKBResources } from "@/lib/api/knowledgeBase";
+import { fetchAllPages } from "@/lib/api/pagination";
 import { FileItem } from "@/lib/types/file";
 import { useOptimisticDeleteRegistry } from "./useOptimisticDeleteRegistry";
+import { useKBStatusStream } from "./useKBStatusStream";
+import { usePollingScheduler } from "./usePollingScheduler";
 import { toast } from 'react-toastify';
 
 interface UseKnowledgeBaseStatusProps {
@@ -10,13 +13,8 @@ interface UseKnowledgeBaseStatusProps {
   enabled?: boolean;
 }
 
-// Constants
-const POLL_INTERVAL = 1000; // 1 second for faster updates
-const MAX_POLL_DURATION = 2 * 60 * 1000; // 2 minutes
-
 export function useKnowledgeBaseStatus({ kbId, enabled = true }: UseKnowledgeBaseStatusProps) {
   const [shouldPoll, setShouldPoll] = useState(true);
-  const [pollingStartTime] = useState(Date.now());
   const [hasShownErrorToast, setHasShownErrorToast] = useState(false);
 
   // Get optimistic delete registry
@@ -24,13 +22,17 @@ export function useKnowledgeBaseStatus({ kbId, enabled = true }: UseKnowledgeBas
     filterPollingResponse, 
     isFileStatusLocked,
     getFileStatusOverride
-  } = useOptimisticDeleteRegistry();
+  } = useOptimisticDeleteRegistry(kbId);
 
   // Don't poll for temporary/optimistic KB IDs
   const isTemporaryKB = kbId?.startsWith('temp-') || false;
   const shouldEnablePolling = enabled && !!kbId && !isTemporaryKB && shouldPoll;
 
-  // Poll KB resources
+  // Pushed status updates; polling below is the fallback
+  const { streamState, isStreaming } = useKBStatusStream({ kbId, enabled: enabled && !isTemporaryKB });
+  const { scheduler, watchedPaths } = usePollingScheduler(kbId);
+
+  // KB resources; refetched by the polling scheduler (the initial fetch still goes through the query when streaming)
   const {
     data: kbResources,
     isLoading,
@@ -38,13 +40,32 @@ export function useKnowledgeBaseStatus({ kbId, enabled = true }: UseKnowledgeBas
     refetch,
   } = useQuery({
     queryKey: ["kb-resources", kbId],
-    queryFn: () => listKBResources(kbId!),
+    queryFn: ({ signal }) => fetchAllPages((cursor) => listKBResources(kbId!, "/", { signal, cursor })),
     enabled: shouldEnablePolling,
-    refetchInterval: shouldEnablePolling ? POLL_INTERVAL : false,
-    refetchIntervalInBackground: true,
     staleTime: 0, // Always consider data stale for polling
   });
 
+  // Poll the KB root through the shared scheduler (backs off while nothing changes, pauses in hidden tabs)
+  useEffect(() => {
+    if (!shouldEnablePolling || isStreaming || !kbId) return;
+
+    let previousStatuses = "";
+    return scheduler.watch({
+      kbId,
+      path: "/",
+      task: async () => {
+        const { data } = await refetch();
+        const files = (data?.data || []).filter((item) => item.type === "file");
+        const statuses = files.map((file) => `${file.id}:${file.status}`).join("|");
+        const changed = statuses !== previousStatuses;
+        previousStatuses = statuses;
+
+        if (!files.some((file) => file.status === "pending" || file.status === "pending_delete")) return "settled";
+        return changed ? "changed" : "unchanged";
+      },
+    });
+  }, [shouldEnablePolling, isStreaming, kbId, refetch, scheduler]);
+
   // Filter polling data to exclude optimistically deleted files
   const filteredKbResources = useMemo(() => {
     if (!kbResources?.data) return null;
@@ -69,14 +90,6 @@ export function useKnowledgeBaseStatus({ kbId, enabled = true }: UseKnowledgeBas
 
     const resources = filteredKbResources.data;
 
-    // Check polling timeout first
-    const pollingDuration = Date.now() - pollingStartTime;
-    if (pollingDuration > MAX_POLL_DURATION) {
-      console.log("Polling timeout reached, stopping polling");
-      setShouldPoll(false);
-      return;
-    }
-
     // If empty KB (data is empty array), this means all files are deleted or not indexed
     // We should stop polling in this case
     if (resources.length === 0) {
@@ -126,7 +139,7 @@ export function useKnowledgeBaseStatus({ kbId, enabled = true }: UseKnowledgeBas
 
     // Continue polling
     console.log("Files still pending, continuing polling...");
-  }, [filteredKbResources, pollingStartTime, hasShownErrorToast, enabled, kbId]);
+  }, [filteredKbResources, hasShownErrorToast, enabled, kbId]);
 
   // Reset polling when KB changes
   useEffect(() => {
@@ -136,6 +149,14 @@ export function useKnowledgeBaseStatus({ kbId, enabled = true }: UseKnowledgeBas
     }
   }, [kbId]);
 
+  // Restart polling for the current KB (e.g. after more files were added to it)
+  const resumePolling = useCallback(() => {
+    setShouldPoll(true);
+    if (kbId) {
+      scheduler.poke(kbId, "/");
+    }
+  }, [kbId, scheduler]);
+
   // Build status map for quick lookups
   // IMPORTANT: Only include files that are actually in the KB and not optimistically deleted
   // Files not in this map will fall back to their default status
@@ -220,5 +241,8 @@ export function useKnowledgeBaseStatus({ kbId, enabled = true }: UseKnowledgeBas
     error,
     refetch,
     shouldPoll, // Expose for debugging
+    resumePolling,
+    streamState,
+    watchedPaths, // Root and folder paths currently being polled for this KB
   };
 }
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import type { QueryClient } from "@tanstack/react-query";
+import { createTestQueryClient, createWrapper } from "@/test/queryClient";
+import { useOptimisticDeleteRegistry } from "./useOptimisticDeleteRegistry";
+
+// The registry is read when the hook mounts, so reads go through a fresh hook on the same client
+function renderRegistry(queryClient: QueryClient, kbId?: string | null) {
+  return renderHook(() => useOptimisticDeleteRegistry(kbId), { wrapper: createWrapper(queryClient) });
+}
+
+describe("useOptimisticDeleteRegistry", () => {
+  it("locks deleted files and overrides their status", () => {
+    const queryClient = createTestQueryClient();
+    const writer = renderRegistry(queryClient);
+
+    act(() => writer.result.current.markFileAsDeleted("file-1", "a.pdf", "kb-1"));
+
+    const { result } = renderRegistry(queryClient, "kb-1");
+    expect(result.current.isFileMarkedAsDeleted("file-1")).toBe(true);
+    expect(result.current.isFileStatusLocked("file-1")).toBe(true);
+    expect(result.current.getFileStatusOverride("file-1")).toBe("-");
+    expect(result.current.getFileStatusOverride("file-2")).toBeNull();
+    expect(result.current.getDeletedFileEntry("file-1")).toMatchObject({ fileName: "a.pdf", kbId: "kb-1" });
+  });
+
+  it("only sees the entries of the given KB", () => {
+    const queryClient = createTestQueryClient();
+    const writer = renderRegistry(queryClient);
+
+    act(() => {
+      writer.result.current.markFileAsDeleted("file-1", "a.pdf", "kb-1");
+      writer.result.current.markFileAsDeleted("file-2", "b.pdf", "kb-2");
+    });
+
+    expect(renderRegistry(queryClient, "kb-1").result.current.registryStats.fileIds).toEqual(["file-1"]);
+    expect(renderRegistry(queryClient, "kb-2").result.current.registryStats.fileIds).toEqual(["file-2"]);
+    expect(renderRegistry(queryClient).result.current.registryStats.count).toBe(2);
+  });
+
+  it("filters deleted files out of polling responses", () => {
+    const queryClient = createTestQueryClient();
+    const writer = renderRegistry(queryClient);
+    act(() => writer.result.current.markFileAsDeleted("file-1", "a.pdf", "kb-1"));
+
+    const { result } = renderRegistry(queryClient, "kb-1");
+    expect(result.current.filterPollingResponse([{ id: "file-1" }, { id: "file-2" }])).toEqual([{ id: "file-2" }]);
+  });
+
+  it("unlocks removed entries and clears everything", () => {
+    const queryClient = createTestQueryClient();
+    const writer = renderRegistry(queryClient);
+
+    act(() => {
+      writer.result.current.markFileAsDeleted("file-1", "a.pdf", "kb-1");
+      writer.result.current.markFileAsDeleted("file-2", "b.pdf", "kb-1");
+      writer.result.current.removeFileFromRegistry("file-1");
+    });
+    expect(renderRegistry(queryClient, "kb-1").result.current.registryStats.fileIds).toEqual(["file-2"]);
+
+    act(() => writer.result.current.clearRegistry());
+    expect(renderRegistry(queryClient, "kb-1").result.current.registryStats.hasEntries).toBe(false);
+  });
+});
@@ -16,7 +16,8 @@ interface OptimisticDeleteRegistryData {
 
 const OPTIMISTIC_DELETE_REGISTRY_KEY = ["optimistic-delete-registry"];
 
-export function useOptimisticDeleteRegistry() {
+// Pass a KB ID to only see entries for that KB (the registry is shared by all KBs)
+export function useOptimisticDeleteRegistry(kbId?: string | null) {
   const queryClient = useQueryClient();
 
   // Get current registry from React Query cache
@@ -25,7 +26,12 @@ export function useOptimisticDeleteRegistry() {
     return data || { entries: {}, lastUpdated: Date.now() };
   }, [queryClient]);
 
-  const { entries } = registryData;
+  const entries = useMemo(() => {
+    if (!kbId) return registryData.entries;
+    return Object.fromEntries(
+      Object.entries(registryData.entries).filter(([, entry]) => entry.kbId === kbId)
+    );
+  }, [registryData, kbId]);
 
   // Update registry data
   const updateRegistryData = useCallback(
@@ -1,7 +1,10 @@
-import { useCallback } from "react";
+import { useCallback, useMemo } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { createKnowledgeBase, syncKnowledgeBase, deleteKBResource } from "@/lib/api/knowledgeBase";
 import { FileItem } from "@/lib/types/file";
+import { getDefaultKBDetails } from "@/lib/utils/knowledgeBase";
+import { connectionFilesKey } from "@/lib/utils/connections";
+import { useConnections } from "./useConnections";
 import { toast } from 'react-toastify';
 
 interface OptimisticFileState {
@@ -13,11 +16,13 @@ interface OptimisticFileState {
 
 export function useOptimisticFileOperations() {
   const queryClient = useQueryClient();
+  const { currentConnection } = useConnections();
+  const connectionId = currentConnection?.connection_id ?? null;
+  const rootQueryKey = useMemo(() => connectionFilesKey(connectionId, "root"), [connectionId]);
 
   // Helper to update file status in root cache optimistically
   const updateRootFileStatus = useCallback(
     (fileIds: string[], newStatus: FileItem["status"], isOptimistic: boolean = false) => {
-      const rootQueryKey = ["drive-files", "root"];
       const currentData = queryClient.getQueryData<{ data: FileItem[] }>(rootQueryKey);
       
       if (!currentData?.data) return null;
@@ -42,7 +47,7 @@ export function useOptimisticFileOperations() {
       queryClient.setQueryData(rootQueryKey, updatedData);
       return previousData;
     },
-    [queryClient]
+    [queryClient, rootQueryKey]
   );
 
   // Helper to rollback optimistic updates
@@ -50,16 +55,14 @@ export function useOptimisticFileOperations() {
     (fileIds: string[], previousData: { data: FileItem[] } | null) => {
       if (!previousData) return;
       
-      const rootQueryKey = ["drive-files", "root"];
       queryClient.setQueryData(rootQueryKey, previousData);
     },
-    [queryClient]
+    [queryClient, rootQueryKey]
   );
 
   // Helper to get files that need their status normalized (pending -> indexed)
   const normalizeFileStatus = useCallback(
     (fileIds: string[]) => {
-      const rootQueryKey = ["drive-files", "root"];
       const currentData = queryClient.getQueryData<{ data: FileItem[] }>(rootQueryKey);
       
       if (!currentData?.data) return;
@@ -79,7 +82,7 @@ export function useOptimisticFileOperations() {
 
       queryClient.setQueryData(rootQueryKey, updatedData);
     },
-    [queryClient]
+    [queryClient, rootQueryKey]
   );
 
   // Optimistic KB creation mutation
@@ -93,8 +96,7 @@ export function useOptimisticFileOperations() {
       files: FileItem[] 
     }) => {
       const kbData = {
-        name: `Knowledge Base ${new Date().toLocaleString()}`,
-        description: "Created from Google Drive files",
+        ...getDefaultKBDetails(),
         resource_ids: resourceIds,
       };
 
@@ -110,7 +112,7 @@ export function useOptimisticFileOperations() {
       console.log("Optimistic KB creation: updating selected files to indexed");
       
       // Cancel any outgoing refetches so they don't overwrite our optimistic update
-      await queryClient.cancelQueries({ queryKey: ["drive-files", "root"] });
+      await queryClient.cancelQueries({ queryKey: rootQueryKey });
       
       // Snapshot the previous value for rollback
       const previousData = updateRootFileStatus(resourceIds, "indexed", true);
@@ -187,7 +189,7 @@ export function useOptimisticFileOperations() {
       console.log("Optimistic file deletion: updating files to show '-' status");
       
       // Cancel any outgoing refetches
-      await queryClient.cancelQueries({ queryKey: ["drive-files", "root"] });
+      await queryClient.cancelQueries({ queryKey: rootQueryKey });
       
       // Snapshot previous state and update to undefined status (shows as "-")
       const previousData = updateRootFileStatus(fileIds, undefined, true);
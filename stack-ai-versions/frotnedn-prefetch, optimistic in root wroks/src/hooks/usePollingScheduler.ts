@@ -0,0 +1,19 @@
+import { useMemo, useSyncExternalStore } from "react";
+import { pollingScheduler, type WatchedPath } from "@/lib/utils/pollingScheduler";
+
+const EMPTY: WatchedPath[] = [];
+
+// Access the shared status polling scheduler and the paths it is watching
+export function usePollingScheduler(kbId?: string | null) {
+  const allWatched = useSyncExternalStore(pollingScheduler.subscribe, pollingScheduler.getWatchedPaths, () => EMPTY);
+
+  const watchedPaths = useMemo(
+    () => (kbId === undefined ? allWatched : allWatched.filter((watched) => watched.kbId === kbId)),
+    [allWatched, kbId]
+  );
+
+  return {
+    scheduler: pollingScheduler,
+    watchedPaths,
+  };
+}
@@ -3,9 +3,12 @@ import { useQueryClient } from "@tanstack/react-query";
 import { listResources } from "@/lib/api/connections";
 import { listKBResourcesSafe } from "@/lib/api/knowledgeBase";
 import { FileItem } from "@/lib/types/file";
+import type { ConnectionRef } from "@/lib/types/connection";
+import { connectionFilesKey } from "@/lib/utils/connections";
 
 interface UsePrefetchProps {
   kbId?: string | null;
+  connection?: ConnectionRef | null; // Connection whose folders are prefetched
   isEnabled?: boolean;
   isCreatingKB?: boolean;
 }
@@ -16,7 +19,7 @@ interface PrefetchRequest {
   timeoutId: NodeJS.Timeout;
 }
 
-export function usePrefetch({ kbId, isEnabled = true, isCreatingKB = false }: UsePrefetchProps = {}) {
+export function usePrefetch({ kbId, connection, isEnabled = true, isCreatingKB = false }: UsePrefetchProps = {}) {
   const queryClient = useQueryClient();
   const activePrefetches = useRef<Map<string, PrefetchRequest>>(new Map());
   const intersectionObserver = useRef<IntersectionObserver | null>(null);
@@ -81,26 +84,29 @@ export function usePrefetch({ kbId, isEnabled = true, isCreatingKB = false }: Us
   // Pre-fetch folder contents and KB status
   const prefetchFolderContents = useCallback(
     async (folderId: string, abortSignal: AbortSignal) => {
+      if (!connection) return;
+      const cacheKey = connectionFilesKey(connection.connection_id, folderId);
+
       try {
         // Check if already cached and fresh
-        const existingData = queryClient.getQueryData(["drive-files", folderId]);
+        const existingData = queryClient.getQueryData(cacheKey);
         let driveResult = existingData as { data: FileItem[] } | undefined;
 
-        // If not cached, prefetch Google Drive contents
+        // If not cached, prefetch the connection's contents (first page only, the rest loads on demand)
         if (!existingData) {
           console.log(`Prefetching folder contents: ${folderId}`);
 
           await queryClient.prefetchQuery({
-            queryKey: ["drive-files", folderId],
+            queryKey: cacheKey,
             queryFn: async () => {
               if (abortSignal.aborted) throw new Error('Aborted');
-              return listResources(folderId);
+              return listResources(connection, folderId, { signal: abortSignal });
             },
             staleTime: 5 * 60 * 1000, // 5 minutes
           });
 
           // Get the cached result to extract folder path
-          driveResult = queryClient.getQueryData<{ data: FileItem[] }>(["drive-files", folderId]);
+          driveResult = queryClient.getQueryData<{ data: FileItem[] }>(cacheKey);
         } else {
           console.log(`Prefetch skipped for ${folderId}: already cached`);
         }
@@ -115,12 +121,12 @@ export function usePrefetch({ kbId, isEnabled = true, isCreatingKB = false }: Us
           const existingKBStatus = queryClient.getQueryData(["kb-file-status", kbId, folderPath]);
           
           if (!existingKBStatus) {
-            // Prefetch KB status - allow even during KB creation as it won't conflict
+            // Prefetch KB status (first page only) - allow even during KB creation as it won't conflict
             await queryClient.prefetchQuery({
               queryKey: ["kb-file-status", kbId, folderPath],
               queryFn: async () => {
                 if (abortSignal.aborted) throw new Error('Aborted');
-                return listKBResourcesSafe(kbId, folderPath);
+                return listKBResourcesSafe(kbId, folderPath, { signal: abortSignal });
               },
               staleTime: 1 * 60 * 1000, // 1 minute for KB status
             });
@@ -137,7 +143,7 @@ export function usePrefetch({ kbId, isEnabled = true, isCreatingKB = false }: Us
         }
       }
     },
-    [queryClient, kbId, getFolderPath, isCreatingKB]
+    [queryClient, kbId, connection, getFolderPath, isCreatingKB]
   );
 
   // Start prefetch on hover with delay
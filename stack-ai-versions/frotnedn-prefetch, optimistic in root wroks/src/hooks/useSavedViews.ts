@@ -0,0 +1,69 @@
+import { useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { getSavedViewsFromStorage, saveSavedViewsToStorage } from "@/lib/utils/localStorage";
+import type { SavedView, SavedViewState } from "@/lib/types/savedView";
+
+const NO_KB_KEY = "no-kb"; // Views saved before any KB exists
+
+const savedViewsKey = (storageKey: string) => ["saved-views", storageKey];
+
+// Named table views (filter, sorting, columns, expanded folders) for the current KB
+export function useSavedViews(kbId: string | null | undefined) {
+  const queryClient = useQueryClient();
+  const storageKey = kbId || NO_KB_KEY;
+
+  const { data: views = [] } = useQuery({
+    queryKey: savedViewsKey(storageKey),
+    queryFn: () => getSavedViewsFromStorage(storageKey),
+    staleTime: Infinity,
+  });
+
+  const updateViews = useCallback(
+    (updater: (prev: SavedView[]) => SavedView[]) => {
+      const current = queryClient.getQueryData<SavedView[]>(savedViewsKey(storageKey)) || getSavedViewsFromStorage(storageKey);
+      const next = updater(current);
+      queryClient.setQueryData(savedViewsKey(storageKey), next);
+      saveSavedViewsToStorage(storageKey, next);
+    },
+    [queryClient, storageKey]
+  );
+
+  // Saving under an existing name overwrites that view; returns the saved view's id
+  const saveView = useCallback(
+    (name: string, state: SavedViewState): string => {
+      let viewId = `view-${Date.now()}`;
+
+      updateViews((prev) => {
+        const existing = prev.find((candidate) => candidate.name === name);
+        if (existing) viewId = existing.id;
+
+        const view: SavedView = { id: viewId, name, updatedAt: Date.now(), ...state };
+        return existing ? prev.map((candidate) => (candidate.id === existing.id ? view : candidate)) : [...prev, view];
+      });
+      console.log(`💾 [SavedViews] Saved view "${name}" for ${storageKey}`);
+      return viewId;
+    },
+    [updateViews, storageKey]
+  );
+
+  const renameView = useCallback(
+    (viewId: string, name: string) => {
+      updateViews((prev) => prev.map((view) => (view.id === viewId ? { ...view, name, updatedAt: Date.now() } : view)));
+    },
+    [updateViews]
+  );
+
+  const deleteView = useCallback(
+    (viewId: string) => {
+      updateViews((prev) => prev.filter((view) => view.id !== viewId));
+    },
+    [updateViews]
+  );
+
+  return {
+    views,
+    saveView,
+    renameView,
+    deleteView,
+  };
+}
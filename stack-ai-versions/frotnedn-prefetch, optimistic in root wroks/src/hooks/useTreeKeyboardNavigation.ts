@@ -0,0 +1,191 @@
+import { useCallback, useEffect, useRef, useState, type FocusEvent, type KeyboardEvent, type RefObject } from "react";
+import { FileItem } from "@/lib/types/file";
+
+interface UseTreeKeyboardNavigationProps {
+  items: FileItem[]; // File rows in display order
+  containerRef: RefObject<HTMLElement | null>;
+  // Folders expand inline; false for flat listings (filtered, search hits, breadcrumb mode)
+  hierarchical: boolean;
+  scrollToItem: (fileId: string) => void;
+  toggleFolder?: (folderId: string) => void;
+  onNavigateUp?: () => void; // Breadcrumb mode: back to the parent folder
+  isSelected: (fileId: string) => boolean;
+  onSelect: (fileId: string, isSelected: boolean) => void;
+}
+
+const ROW_SELECTOR = "[data-row-id]";
+
+// Keyboard support for the file treegrid (row focus mode of the WAI-ARIA treegrid pattern):
+// ↑/↓ move, →/← expand, collapse or move to child/parent, Home/End, Space selects, Enter toggles a folder,
+// Shift+↑/↓ extends the selection, * expands all sibling folders.
+// Focus is tracked by file id with a roving tabindex, so it survives rows re-rendering from polling
+// and rows being unmounted by the virtualizer.
+export function useTreeKeyboardNavigation({
+  items,
+  containerRef,
+  hierarchical,
+  scrollToItem,
+  toggleFolder,
+  onNavigateUp,
+  isSelected,
+  onSelect,
+}: UseTreeKeyboardNavigationProps) {
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const focusedIndexRef = useRef(0); // Where to land if the focused row disappears
+  const hasFocusRef = useRef(false); // Whether keyboard focus is inside the grid
+  const pendingFocusRef = useRef(false);
+
+  // The focused row, or its closest neighbour once it's gone (deleted, filtered out, collapsed away)
+  const activeId =
+    focusedId && items.some((item) => item.id === focusedId)
+      ? focusedId
+      : items[Math.min(focusedIndexRef.current, items.length - 1)]?.id ?? null;
+
+  const moveFocus = useCallback(
+    (index: number) => {
+      const item = items[Math.max(0, Math.min(index, items.length - 1))];
+      if (!item) return;
+
+      focusedIndexRef.current = items.indexOf(item);
+      pendingFocusRef.current = true;
+      setFocusedId(item.id);
+      scrollToItem(item.id);
+    },
+    [items, scrollToItem]
+  );
+
+  // Put DOM focus back on the focused row after it was re-created or scrolled into view
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !activeId) return;
+
+    const lostFocus = hasFocusRef.current && (!document.activeElement || document.activeElement === document.body);
+    if (!pendingFocusRef.current && !lostFocus) return;
+
+    const row = container.querySelector<HTMLElement>(`${ROW_SELECTOR}[data-row-id="${CSS.escape(activeId)}"]`);
+    if (row) {
+      row.focus({ preventScroll: true });
+      pendingFocusRef.current = false;
+    }
+  });
+
+  // Clicking a row or its checkbox focuses it too
+  const handleFocus = useCallback(
+    (file: FileItem) => {
+      hasFocusRef.current = true;
+      focusedIndexRef.current = Math.max(0, items.findIndex((item) => item.id === file.id));
+      setFocusedId(file.id);
+    },
+    [items]
+  );
+
+  const handleBlur = useCallback(
+    (event: FocusEvent<HTMLElement>) => {
+      const next = event.relatedTarget as Node | null;
+      if (next && containerRef.current?.contains(next)) return;
+
+      // A row that was removed (re-render, virtualizer) blurs while detached; focus is restored above.
+      // Otherwise focus really left the grid
+      if (next || (event.target as Node).isConnected) {
+        hasFocusRef.current = false;
+      }
+    },
+    [containerRef]
+  );
+
+  const handleKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLElement>, file: FileItem) => {
+      const index = items.findIndex((item) => item.id === file.id);
+      if (index === -1) return;
+
+      const isOnRow = event.target === event.currentTarget;
+      const isDirectory = file.type === "directory";
+      const level = file.level || 0;
+
+      const selectRow = (item: FileItem | undefined) => {
+        if (item && !isSelected(item.id)) onSelect(item.id, true);
+      };
+
+      switch (event.key) {
+        case "ArrowDown":
+        case "ArrowUp": {
+          const target = items[index + (event.key === "ArrowDown" ? 1 : -1)];
+          if (event.shiftKey) {
+            selectRow(file);
+            selectRow(target);
+          }
+          moveFocus(index + (event.key === "ArrowDown" ? 1 : -1));
+          break;
+        }
+        case "Home":
+          moveFocus(0);
+          break;
+        case "End":
+          moveFocus(items.length - 1);
+          break;
+        case "ArrowRight":
+          if (!isDirectory) return;
+          if (!hierarchical) {
+            toggleFolder?.(file.id); // Breadcrumb mode opens the folder
+          } else if (!file.isExpanded) {
+            toggleFolder?.(file.id);
+          } else if ((items[index + 1]?.level || 0) > level) {
+            moveFocus(index + 1);
+          }
+          break;
+        case "ArrowLeft": {
+          if (hierarchical && isDirectory && file.isExpanded) {
+            toggleFolder?.(file.id);
+            break;
+          }
+          if (!hierarchical) {
+            onNavigateUp?.();
+            break;
+          }
+          // Up to the parent folder row
+          for (let parentIndex = index - 1; parentIndex >= 0; parentIndex--) {
+            if ((items[parentIndex].level || 0) < level) {
+              moveFocus(parentIndex);
+              break;
+            }
+          }
+          break;
+        }
+        case " ":
+          if (!isOnRow) return; // Let the checkbox handle its own Space
+          onSelect(file.id, !isSelected(file.id));
+          break;
+        case "Enter":
+          if (!isOnRow || !isDirectory) return;
+          toggleFolder?.(file.id);
+          break;
+        case "*": {
+          if (!hierarchical) return;
+          const parentPath = file.name.split("/").slice(0, -1).join("/");
+          items
+            .filter(
+              (item) =>
+                item.type === "directory" &&
+                !item.isExpanded &&
+                (item.level || 0) === level &&
+                item.name.split("/").slice(0, -1).join("/") === parentPath
+            )
+            .forEach((sibling) => toggleFolder?.(sibling.id));
+          break;
+        }
+        default:
+          return;
+      }
+
+      event.preventDefault();
+    },
+    [items, hierarchical, moveFocus, toggleFolder, onNavigateUp, isSelected, onSelect]
+  );
+
+  return {
+    focusedId: activeId,
+    handleFocus,
+    handleBlur,
+    handleKeyDown,
+  };
+}
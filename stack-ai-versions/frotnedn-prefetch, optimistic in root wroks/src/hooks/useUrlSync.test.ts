@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { useSearchParams } from "next/navigation";
+import { updateUrlParams } from "@/lib/utils/urlState";
+import { useUrlSync } from "./useUrlSync";
+
+vi.mock("next/navigation", () => ({
+  useSearchParams: vi.fn(),
+}));
+
+vi.mock("@/lib/utils/urlState", () => ({
+  updateUrlParams: vi.fn(),
+}));
+
+function setUrl(search: string) {
+  vi.mocked(useSearchParams).mockReturnValue(new URLSearchParams(search) as unknown as ReturnType<typeof useSearchParams>);
+}
+
+describe("useUrlSync", () => {
+  it("applies the URL value once and doesn't write intermediate states back", async () => {
+    setUrl("?kb=kb-2");
+    const applyToState = vi.fn(() => Promise.resolve());
+
+    const { rerender } = renderHook((props: { stateValue: string }) => useUrlSync({ param: "kb", applyToState, ...props }), {
+      initialProps: { stateValue: "kb-1" },
+    });
+
+    expect(applyToState).toHaveBeenCalledWith("kb-2");
+    // The state catching up re-renders with new callbacks, which must not re-apply the URL
+    rerender({ stateValue: "kb-2" });
+    await waitFor(() => expect(applyToState).toHaveBeenCalledTimes(1));
+    expect(updateUrlParams).not.toHaveBeenCalled();
+  });
+
+  it("corrects the URL without a history entry when the link can't be applied", async () => {
+    setUrl("?kb=gone");
+    const { result } = renderHook(() => useUrlSync({ param: "kb", stateValue: "kb-1", applyToState: () => {} }));
+
+    await waitFor(() => expect(updateUrlParams).toHaveBeenCalledWith({ kb: "kb-1" }, "replace"));
+    expect(result.current.isSynced).toBe(false); // The mocked URL doesn't follow
+  });
+
+  it("corrects the URL when applying the link fails", async () => {
+    setUrl("?folder=/Broken");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const applyToState = vi.fn(() => Promise.reject(new Error("Listing failed")));
+
+    renderHook(() => useUrlSync({ param: "folder", stateValue: "", applyToState }));
+
+    await waitFor(() => expect(updateUrlParams).toHaveBeenCalledWith({ folder: null }, "replace"));
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it("writes state changes with the latest toParam", async () => {
+    setUrl("?folder=a");
+    const { rerender } = renderHook(
+      (props: { stateValue: string; toParam: (value: string) => string[] }) =>
+        useUrlSync({ param: "folder", applyToState: () => {}, ...props }),
+      { initialProps: { stateValue: "a", toParam: (value) => [value] } }
+    );
+
+    act(() => rerender({ stateValue: "a\nb", toParam: (value) => value.split("\n") }));
+
+    expect(updateUrlParams).toHaveBeenCalledWith({ folder: ["a", "b"] }, "push");
+  });
+});
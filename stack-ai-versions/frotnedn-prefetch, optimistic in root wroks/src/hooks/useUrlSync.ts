@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { updateUrlParams, type UrlParam } from "@/lib/utils/urlState";
+
+interface UseUrlSyncOptions {
+  param: UrlParam;
+  // The state, serialized the same way as the URL value ("" when empty)
+  stateValue: string;
+  // Bring the state in line with a URL value (on load and on back/forward); may finish asynchronously
+  applyToState: (urlValue: string) => void | Promise<unknown>;
+  // Serialized value back to what gets written into the param (arrays repeat it)
+  toParam?: (stateValue: string) => string | string[];
+  // Reads the URL value for params that need more than searchParams.get (repeated or normalized ones)
+  fromParam?: (params: URLSearchParams) => string;
+  // Hold off syncing either way until the state can take URL values (e.g. the KB list has loaded)
+  ready?: boolean;
+  // Filter typing replaces the entry instead of adding one per keystroke
+  historyMode?: "push" | "replace";
+}
+
+// Two-way binding between one piece of navigation state and a search param.
+// URL changes (first load, back/forward) are applied to the state; state changes are written to the URL.
+// While a URL value is being applied, intermediate states aren't written back; if it can't be applied
+// fully (e.g. the KB in the link is gone), the URL is corrected to what the state ended up as.
+export function useUrlSync({ param, stateValue, applyToState, toParam, fromParam, ready = true, historyMode = "push" }: UseUrlSyncOptions) {
+  const searchParams = useSearchParams();
+  const urlValue = fromParam ? fromParam(searchParams) : searchParams.get(param) || "";
+
+  const lastUrlRef = useRef<string | undefined>(undefined); // undefined until the URL has been read once
+  const targetRef = useRef<string | null>(null); // URL value being applied
+  const applyingRef = useRef(false);
+  const [appliedTick, setAppliedTick] = useState(0);
+
+  // Each effect reacts to one side only and reads the other side's latest values through these
+  const applyRef = useRef(applyToState);
+  applyRef.current = applyToState;
+  const toParamRef = useRef(toParam);
+  toParamRef.current = toParam;
+  const stateValueRef = useRef(stateValue);
+  stateValueRef.current = stateValue;
+  const urlValueRef = useRef(urlValue);
+  urlValueRef.current = urlValue;
+
+  // URL -> state
+  useEffect(() => {
+    if (!ready || urlValue === lastUrlRef.current) return;
+    lastUrlRef.current = urlValue;
+    if (urlValue === stateValueRef.current) return;
+
+    console.log(`🔗 [UrlSync] Applying ${param}="${urlValue}" from the URL`);
+    targetRef.current = urlValue;
+    applyingRef.current = true;
+    // A link that fails to apply (e.g. its folder listing errors) is corrected from the state like any other
+    Promise.resolve(applyRef.current(urlValue))
+      .catch((error) => console.error(`❌ [UrlSync] Couldn't apply ${param}="${urlValue}":`, error))
+      .finally(() => {
+        applyingRef.current = false;
+        setAppliedTick((tick) => tick + 1);
+      });
+  }, [ready, urlValue, param]);
+
+  // State -> URL
+  useEffect(() => {
+    if (!ready || lastUrlRef.current === undefined || applyingRef.current) return;
+
+    const target = targetRef.current;
+    targetRef.current = null;
+    if (stateValue === urlValueRef.current) return;
+
+    lastUrlRef.current = stateValue;
+    // Correcting a link that couldn't be applied shouldn't add a history entry
+    const toParam = toParamRef.current;
+    updateUrlParams({ [param]: toParam ? toParam(stateValue) : stateValue || null }, target !== null ? "replace" : historyMode);
+  }, [ready, stateValue, appliedTick, param, historyMode]);
+
+  return {
+    isSynced: urlValue === stateValue,
+  };
+}
@@ -1,22 +1,18 @@
 import { apiRequest } from "./client";
+import { authStatusSchema } from "./schemas";
+import type { AuthStatusResponse, LoginCredentials } from "../types/auth";
 
-// Get credentials from environment variables
-const CREDENTIALS = {
-  email: process.env.NEXT_PUBLIC_AUTH_EMAIL,
-  password: process.env.NEXT_PUBLIC_AUTH_PASSWORD,
-};
-
-export async function login() {
-  if (!CREDENTIALS.email || !CREDENTIALS.password) {
-    throw new Error("Auth credentials are not defined in environment variables");
-  }
-
+export async function login(credentials: LoginCredentials) {
   return apiRequest("/auth/login", {
     method: "POST",
-    body: JSON.stringify(CREDENTIALS),
+    body: JSON.stringify(credentials),
   });
 }
 
-export async function checkAuthStatus() {
-  return apiRequest("/auth/status");
+export async function logout() {
+  return apiRequest("/auth/logout", { method: "POST" });
+}
+
+export async function checkAuthStatus(): Promise<AuthStatusResponse> {
+  return apiRequest("/auth/status", { schema: authStatusSchema });
 }
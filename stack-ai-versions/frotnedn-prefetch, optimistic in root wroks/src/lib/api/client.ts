@@ -1,32 +1,185 @@
+import { ApiError, AuthError, NetworkError, RateLimitError, ResponseValidationError, ServerError, TimeoutError, createApiError } from "./errors";
+import { SchemaError, type Schema } from "./validation";
+
 // Simple API client configuration
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL;
+// With NEXT_PUBLIC_API_USE_PROXY=true the browser goes through the app's own /api routes (lib/api/proxy.ts)
+// instead of calling the backend directly; server-side callers always talk to the backend
+const USE_API_PROXY = process.env.NEXT_PUBLIC_API_USE_PROXY === "true" && typeof window !== "undefined";
+const API_BASE_URL = USE_API_PROXY ? "/api" : process.env.API_BASE_URL || process.env.NEXT_PUBLIC_API_BASE_URL;
 if (!API_BASE_URL) {
   console.warn("NEXT_PUBLIC_API_BASE_URL is not defined. Using default API base URL.");
 }
 
-// Basic fetch wrapper with error handling
-export async function apiRequest(endpoint: string, options: RequestInit = {}): Promise<any> {
+const DEFAULT_TIMEOUT = 30 * 1000; // 30 seconds
+
+export interface RetryPolicy {
+  retries: number; // Extra attempts after the first one
+  baseDelay: number; // ms, doubled on every attempt
+  maxDelay: number; // ms
+  shouldRetry: (error: ApiError) => boolean;
+}
+
+// Only transient failures are worth retrying
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelay: 500,
+  maxDelay: 8000,
+  shouldRetry: (error) => error instanceof NetworkError || error instanceof RateLimitError || error instanceof ServerError,
+};
+
+export interface ApiRequestOptions extends RequestInit {
+  timeout?: number; // ms, 0 disables the timeout
+  retry?: Partial<RetryPolicy> | false; // Only applied to GET requests
+}
+
+interface ApiRequestConfig<T> extends ApiRequestOptions {
+  schema?: Schema<T>; // Validates the response body at runtime
+}
+
+type UnauthorizedListener = (error: AuthError) => void;
+const unauthorizedListeners = new Set<UnauthorizedListener>();
+
+// Called whenever a request is rejected with 401 (session expired or signed out elsewhere); returns an unsubscribe
+export function onUnauthorized(listener: UnauthorizedListener): () => void {
+  unauthorizedListeners.add(listener);
+  return () => {
+    unauthorizedListeners.delete(listener);
+  };
+}
+
+// Wait before the next attempt, honouring Retry-After and the caller's signal
+function waitForRetry(delay: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delay);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function getRetryDelay(error: ApiError, attempt: number, policy: RetryPolicy): number {
+  if (error instanceof RateLimitError && error.retryAfter !== null) {
+    return Math.min(error.retryAfter, policy.maxDelay);
+  }
+
+  // Exponential backoff with jitter so parallel folder loads don't retry in lockstep
+  const delay = Math.min(policy.baseDelay * 2 ** attempt, policy.maxDelay);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+// Error bodies may be JSON, plain text or empty
+async function parseBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if (!text) return undefined;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// Single attempt with its own timeout, linked to the caller's signal
+async function requestOnce(url: string, options: RequestInit, timeout: number): Promise<{ status: number; body: unknown }> {
+  const controller = new AbortController();
+  const { signal: callerSignal } = options;
+  let timedOut = false;
+
+  const onAbort = () => controller.abort(callerSignal?.reason);
+  if (callerSignal?.aborted) {
+    onAbort();
+  } else {
+    callerSignal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  const timer =
+    timeout > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout)
+      : undefined;
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, { ...options, signal: controller.signal });
+    } catch (error) {
+      if (timedOut) throw new TimeoutError(url, timeout);
+      // Caller cancellations (e.g. React Query unmounts) keep their AbortError
+      if (callerSignal?.aborted) throw error;
+      throw new NetworkError(url, error);
+    }
+
+    const body = await parseBody(response);
+    if (!response.ok) {
+      throw createApiError(response, url, body);
+    }
+
+    return { status: response.status, body };
+  } finally {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener("abort", onAbort);
+  }
+}
+
+function validateResponse<T>(schema: Schema<T>, url: string, status: number, body: unknown): T {
+  try {
+    return schema(body, "");
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      throw new ResponseValidationError(error.message, status, url, body, error.path);
+    }
+    throw error;
+  }
+}
+
+// Fetch wrapper with typed errors, timeouts, retries for idempotent GETs and optional response validation
+export async function apiRequest<T = unknown>(endpoint: string, options: ApiRequestConfig<T> = {}): Promise<T> {
   if (!API_BASE_URL) {
     throw new Error("API_BASE_URL is not defined in environment variables");
   }
 
   const url = `${API_BASE_URL}${endpoint}`;
-
-  const response = await fetch(url, {
-    ...options,
+  const { timeout = DEFAULT_TIMEOUT, retry, schema, ...init } = options;
+  const requestInit: RequestInit = {
+    ...init,
     headers: {
       "Content-Type": "application/json",
-      ...options.headers,
+      ...init.headers,
     },
-  });
+  };
 
-  if (!response.ok) {
-    // Create a more detailed error object
-    const error = new Error(`API Error: ${response.status}`);
-    (error as any).status = response.status;
-    (error as any).url = url;
-    throw error;
-  }
+  const isIdempotent = (init.method || "GET").toUpperCase() === "GET";
+  const policy: RetryPolicy | null = isIdempotent && retry !== false ? { ...DEFAULT_RETRY_POLICY, ...retry } : null;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const { status, body } = await requestOnce(url, requestInit, timeout);
+      return schema ? validateResponse(schema, url, status, body) : (body as T);
+    } catch (error) {
+      // Auth endpoints report bad credentials with 401 too; that's not an expired session
+      if (error instanceof AuthError && error.status === 401 && !endpoint.startsWith("/auth/")) {
+        unauthorizedListeners.forEach((listener) => listener(error));
+      }
 
-  return response.json();
+      const canRetry = policy && error instanceof ApiError && attempt < policy.retries && policy.shouldRetry(error);
+      if (!canRetry) throw error;
+
+      const delay = getRetryDelay(error, attempt, policy);
+      console.warn(`🔁 [API] ${error.name} for ${endpoint}, retrying in ${Math.round(delay)}ms (${attempt + 1}/${policy.retries})`);
+      await waitForRetry(delay, init.signal);
+    }
+  }
 }
@@ -1,11 +1,55 @@
 import { apiRequest } from "./client";
+import { NotFoundError } from "./errors";
+import { buildListParams, type ListResourcesOptions } from "./pagination";
+import { connectionInfoSchema, connectionListResponseSchema, fileListResponseSchema } from "./schemas";
 import { FileListResponse } from "../types/file";
+import { Connection, ConnectionInfo, ConnectionListResponse, ConnectionProvider, ConnectionRef } from "../types/connection";
 
-export async function getConnectionInfo() {
-  return apiRequest("/connections/info");
+const PROVIDERS: ConnectionProvider[] = ["gdrive", "onedrive", "notion", "local"];
+
+export async function getConnectionInfo(): Promise<ConnectionInfo> {
+  return apiRequest("/connections/info", { schema: connectionInfoSchema });
+}
+
+// Every connection files can be picked from. Backends without /connections have one implicit
+// connection, described by /connections/info
+export async function listConnections(): Promise<ConnectionListResponse> {
+  try {
+    return await apiRequest("/connections", { schema: connectionListResponseSchema });
+  } catch (error) {
+    if (!(error instanceof NotFoundError)) throw error;
+
+    const info = await getConnectionInfo();
+    const provider = PROVIDERS.find((candidate) => candidate === info.connection_provider) || "gdrive";
+    const connection: Connection = {
+      connection_id: info.connection_id || "default",
+      name: info.name || "Google Drive",
+      connection_provider: provider,
+    };
+    return { data: [connection] };
+  }
+}
+
+// Tag listed resources with the connection they belong to
+function withConnection(response: FileListResponse, connection: ConnectionRef): FileListResponse {
+  return {
+    ...response,
+    data: response.data.map((item) => ({ ...item, connection_id: connection.connection_id, provider: connection.connection_provider })),
+  };
+}
+
+// One page of resources matching a full-text query anywhere in the connection (names are full paths)
+export async function searchResources(connection: ConnectionRef, query: string, options: ListResourcesOptions = {}): Promise<FileListResponse> {
+  const { cursor, pageSize, ...requestOptions } = options;
+  const params = buildListParams({ connection_id: connection.connection_id, query, cursor, page_size: pageSize });
+  const response = await apiRequest(`/connections/resources/search${params}`, { ...requestOptions, schema: fileListResponseSchema });
+  return withConnection(response, connection);
 }
 
-export async function listResources(resource_id?: string): Promise<FileListResponse> {
-  const params = resource_id ? `?resource_id=${resource_id}` : "";
-  return apiRequest(`/connections/resources${params}`);
+// One page of a folder's contents (the root when resource_id is omitted)
+export async function listResources(connection: ConnectionRef, resource_id?: string, options: ListResourcesOptions = {}): Promise<FileListResponse> {
+  const { cursor, pageSize, ...requestOptions } = options;
+  const params = buildListParams({ connection_id: connection.connection_id, resource_id, cursor, page_size: pageSize });
+  const response = await apiRequest(`/connections/resources${params}`, { ...requestOptions, schema: fileListResponseSchema });
+  return withConnection(response, connection);
 }
@@ -0,0 +1,123 @@
+// Typed errors thrown by apiRequest, so callers can branch on the failure kind instead of status codes
+
+export class ApiError extends Error {
+  readonly status: number; // 0 when no response was received
+  readonly url: string;
+  readonly body: unknown; // Parsed JSON error payload, or the raw text
+
+  constructor(message: string, status: number, url: string, body?: unknown) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.url = url;
+    this.body = body;
+  }
+}
+
+// The request never got a response (offline, DNS, CORS, ...)
+export class NetworkError extends ApiError {
+  constructor(url: string, cause?: unknown) {
+    super(`Network error while requesting ${url}`, 0, url);
+    this.name = "NetworkError";
+    this.cause = cause;
+  }
+}
+
+// The request was cancelled because it took longer than its timeout
+export class TimeoutError extends NetworkError {
+  readonly timeout: number;
+
+  constructor(url: string, timeout: number) {
+    super(url);
+    this.name = "TimeoutError";
+    this.message = `Request to ${url} timed out after ${timeout}ms`;
+    this.timeout = timeout;
+  }
+}
+
+// 401/403
+export class AuthError extends ApiError {
+  constructor(message: string, status: number, url: string, body?: unknown) {
+    super(message, status, url, body);
+    this.name = "AuthError";
+  }
+}
+
+// 404
+export class NotFoundError extends ApiError {
+  constructor(message: string, url: string, body?: unknown) {
+    super(message, 404, url, body);
+    this.name = "NotFoundError";
+  }
+}
+
+// 429
+export class RateLimitError extends ApiError {
+  readonly retryAfter: number | null; // ms, from the Retry-After header
+
+  constructor(message: string, url: string, body?: unknown, retryAfter: number | null = null) {
+    super(message, 429, url, body);
+    this.name = "RateLimitError";
+    this.retryAfter = retryAfter;
+  }
+}
+
+// 5xx
+export class ServerError extends ApiError {
+  constructor(message: string, status: number, url: string, body?: unknown) {
+    super(message, status, url, body);
+    this.name = "ServerError";
+  }
+}
+
+// The response arrived but didn't match the expected shape
+export class ResponseValidationError extends ApiError {
+  readonly path: string; // Where in the payload validation failed, e.g. "data[3].id"
+
+  constructor(message: string, status: number, url: string, body: unknown, path: string) {
+    super(`Invalid response from ${url}: ${message}`, status, url, body);
+    this.name = "ResponseValidationError";
+    this.path = path;
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+// Pull a human readable message out of common error payload shapes ({ detail }, { message }, { error })
+export function getErrorMessage(status: number, body: unknown): string {
+  if (typeof body === "string" && body.trim()) return body;
+
+  if (body && typeof body === "object") {
+    const { detail, message, error } = body as Record<string, unknown>;
+    const candidate = [detail, message, error].find((value) => typeof value === "string" && value.trim());
+    if (typeof candidate === "string") return candidate;
+  }
+
+  return `API Error: ${status}`;
+}
+
+// Retry-After is either seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Map a failed response to the matching ApiError subclass
+export function createApiError(response: Response, url: string, body: unknown): ApiError {
+  const { status } = response;
+  const message = getErrorMessage(status, body);
+
+  if (status === 401 || status === 403) return new AuthError(message, status, url, body);
+  if (status === 404) return new NotFoundError(message, url, body);
+  if (status === 429) return new RateLimitError(message, url, body, parseRetryAfter(response.headers.get("Retry-After")));
+  if (status >= 500) return new ServerError(message, status, url, body);
+
+  return new ApiError(message, status, url, body);
+}
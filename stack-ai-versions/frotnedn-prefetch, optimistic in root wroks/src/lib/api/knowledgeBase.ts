@@ -1,33 +1,67 @@
-import { apiRequest } from "./client";
-import { KnowledgeBase, CreateKBRequest } from "../types/knowledgeBase";
+import { apiRequest, type ApiRequestOptions } from "./client";
+import { NotFoundError, ServerError } from "./errors";
+import { buildListParams, type ListResourcesOptions } from "./pagination";
+import { deleteKBResourceResponseSchema, fileListResponseSchema, knowledgeBaseListResponseSchema, knowledgeBaseSchema, syncKBResponseSchema } from "./schemas";
+import { KnowledgeBase, KnowledgeBaseListResponse, CreateKBRequest, UpdateKBRequest, AddKBResourcesRequest, DeleteKBResourceResponse, SyncKBResponse } from "../types/knowledgeBase";
 import { FileListResponse } from "../types/file";
 
+export async function listKnowledgeBases(): Promise<KnowledgeBaseListResponse> {
+  return apiRequest("/knowledge-bases", { schema: knowledgeBaseListResponseSchema });
+}
+
 export async function createKnowledgeBase(data: CreateKBRequest): Promise<KnowledgeBase> {
   return apiRequest("/knowledge-bases", {
     method: "POST",
     body: JSON.stringify(data),
+    schema: knowledgeBaseSchema,
+  });
+}
+
+export async function updateKnowledgeBase(kb_id: string, data: UpdateKBRequest): Promise<KnowledgeBase> {
+  return apiRequest(`/knowledge-bases/${kb_id}`, {
+    method: "PATCH",
+    body: JSON.stringify(data),
+    schema: knowledgeBaseSchema,
+  });
+}
+
+// Permanently deletes the KB and everything indexed in it
+export async function deleteKnowledgeBase(kb_id: string): Promise<void> {
+  await apiRequest(`/knowledge-bases/${kb_id}`, {
+    method: "DELETE",
   });
 }
 
-export async function syncKnowledgeBase(kb_id: string) {
+export async function syncKnowledgeBase(kb_id: string): Promise<SyncKBResponse | undefined> {
   return apiRequest(`/knowledge-bases/${kb_id}/sync`, {
     method: "POST",
+    schema: syncKBResponseSchema,
   });
 }
 
-export async function listKBResources(kb_id: string, resource_path: string = "/"): Promise<FileListResponse> {
-  const params = `?resource_path=${encodeURIComponent(resource_path)}`;
-  return apiRequest(`/knowledge-bases/${kb_id}/resources${params}`);
+// Add more connection resources to an existing KB (call syncKnowledgeBase afterwards to index them)
+export async function addKBResources(kb_id: string, data: AddKBResourcesRequest): Promise<void> {
+  await apiRequest(`/knowledge-bases/${kb_id}/resources`, {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+// One page of a KB folder's resources
+export async function listKBResources(kb_id: string, resource_path: string = "/", options: ListResourcesOptions = {}): Promise<FileListResponse> {
+  const { cursor, pageSize, ...requestOptions } = options;
+  const params = buildListParams({ resource_path, cursor, page_size: pageSize });
+  return apiRequest(`/knowledge-bases/${kb_id}/resources${params}`, { ...requestOptions, schema: fileListResponseSchema });
 }
 
 // Safe version that handles 404/500 errors gracefully for folder expansion
-export async function listKBResourcesSafe(kb_id: string, resource_path: string = "/"): Promise<FileListResponse | null> {
+export async function listKBResourcesSafe(kb_id: string, resource_path: string = "/", options?: ListResourcesOptions): Promise<FileListResponse | null> {
   try {
-    const params = `?resource_path=${encodeURIComponent(resource_path)}`;
-    return await apiRequest(`/knowledge-bases/${kb_id}/resources${params}`);
-  } catch (error: any) {
+    // The backend answers 500 for paths it hasn't indexed yet, so retrying only adds latency
+    return await listKBResources(kb_id, resource_path, { retry: false, ...options });
+  } catch (error) {
     // If the folder doesn't exist in KB (404) or server error (500), return null instead of throwing
-    if (error.status === 404 || error.status === 500) {
+    if (error instanceof NotFoundError || (error instanceof ServerError && error.status === 500)) {
       return null;
     }
     // Re-throw other errors (network issues, etc.)
@@ -35,9 +69,11 @@ export async function listKBResourcesSafe(kb_id: string, resource_path: string =
   }
 }
 
-export async function deleteKBResource(kb_id: string, resource_path: string) {
+export async function deleteKBResource(kb_id: string, resource_path: string, options?: ApiRequestOptions): Promise<DeleteKBResourceResponse | undefined> {
   const params = `?resource_path=${encodeURIComponent(resource_path)}`;
   return apiRequest(`/knowledge-bases/${kb_id}/resources${params}`, {
+    ...options,
     method: "DELETE",
+    schema: deleteKBResourceResponseSchema,
   });
 }
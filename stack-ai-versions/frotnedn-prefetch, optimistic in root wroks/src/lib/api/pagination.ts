@@ -0,0 +1,44 @@
+import type { ApiRequestOptions } from "./client";
+import type { FileListResponse } from "../types/file";
+
+// Resource listings are paginated by the backend; callers get one page at a time and follow next_cursor
+export interface ListResourcesOptions extends ApiRequestOptions {
+  cursor?: string;
+  pageSize?: number;
+}
+
+const MAX_PAGES = 200; // Guards against a backend that keeps handing out cursors
+
+// Query string for a listing request, leaving out empty params
+export function buildListParams(params: Record<string, string | number | undefined>): string {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") search.set(key, String(value));
+  });
+
+  const query = search.toString();
+  return query ? `?${query}` : "";
+}
+
+// Follow next_cursor until the listing is complete, for callers that need every item (status, tree walks)
+export async function fetchAllPages(fetchPage: (cursor?: string) => Promise<FileListResponse>): Promise<FileListResponse>;
+export async function fetchAllPages(fetchPage: (cursor?: string) => Promise<FileListResponse | null>): Promise<FileListResponse | null>;
+export async function fetchAllPages(fetchPage: (cursor?: string) => Promise<FileListResponse | null>): Promise<FileListResponse | null> {
+  const firstPage = await fetchPage();
+  if (!firstPage) return null;
+
+  const data = [...firstPage.data];
+  const seenCursors = new Set<string>();
+  let cursor = firstPage.next_cursor;
+
+  for (let page = 1; cursor && !seenCursors.has(cursor) && page < MAX_PAGES; page++) {
+    seenCursors.add(cursor);
+    const nextPage = await fetchPage(cursor);
+    if (!nextPage) break;
+
+    data.push(...nextPage.data);
+    cursor = nextPage.next_cursor;
+  }
+
+  return { data };
+}
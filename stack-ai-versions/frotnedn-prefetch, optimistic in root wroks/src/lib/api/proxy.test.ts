@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const fetchMock = vi.fn();
+
+// The proxy reads its settings when it's loaded
+async function loadProxy(env: Record<string, string> = {}) {
+  vi.resetModules();
+  vi.stubEnv("API_BASE_URL", "https://backend.test");
+  Object.entries(env).forEach(([name, value]) => vi.stubEnv(name, value));
+  return import("./proxy");
+}
+
+function upstreamHeaders(): Headers {
+  return fetchMock.mock.calls[0][1].headers;
+}
+
+describe("proxyRequest", () => {
+  beforeEach(() => {
+    fetchMock.mockResolvedValue(new Response("{}", { status: 200, headers: { "Content-Type": "application/json" } }));
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("answers requests without a session with a 401 and never calls the backend", async () => {
+    const { proxyRequest } = await loadProxy({ API_SERVICE_TOKEN: "service-secret" });
+
+    const response = await proxyRequest(new Request("http://app.test/api/knowledge-bases"));
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: "unauthorized", message: "Not signed in", status: 401 });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("lets auth requests through without a session", async () => {
+    const { proxyRequest } = await loadProxy();
+
+    await proxyRequest(new Request("http://app.test/api/auth/login", { method: "POST", body: "{}" }));
+
+    expect(fetchMock).toHaveBeenCalledWith("https://backend.test/auth/login", expect.anything());
+    expect(upstreamHeaders().has("authorization")).toBe(false);
+  });
+
+  it("forwards the user's own cookie and Authorization header", async () => {
+    const { proxyRequest } = await loadProxy();
+
+    await proxyRequest(
+      new Request("http://app.test/api/connections", { headers: { cookie: "session=abc", authorization: "Bearer user-token" } })
+    );
+
+    expect(upstreamHeaders().get("cookie")).toBe("session=abc");
+    expect(upstreamHeaders().get("authorization")).toBe("Bearer user-token");
+  });
+
+  it("sends the session cookie on as a bearer token when configured", async () => {
+    const { proxyRequest } = await loadProxy({ API_SESSION_COOKIE: "session" });
+
+    await proxyRequest(new Request("http://app.test/api/connections", { headers: { cookie: "theme=dark; session=abc" } }));
+
+    expect(upstreamHeaders().get("authorization")).toBe("Bearer abc");
+  });
+});
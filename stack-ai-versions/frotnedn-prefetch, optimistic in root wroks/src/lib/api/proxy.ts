@@ -0,0 +1,157 @@
+import { getErrorMessage } from "./errors";
+
+// Server side of the backend-for-frontend routes in src/app/api (auth, connections, knowledge-bases).
+// The browser only talks to this app; the backend URL stays on the server, the session cookie is kept
+// on the app's origin, and every failure comes back in one error shape. Requests only ever carry the
+// user's own session: anything outside /auth without one is answered with a 401 here.
+
+// Server-only settings, never exposed to the browser
+const UPSTREAM_BASE_URL = process.env.API_BASE_URL || process.env.NEXT_PUBLIC_API_BASE_URL;
+// Optional name of the backend's session cookie; its value is sent on as a bearer token when the request has none
+const SESSION_COOKIE = process.env.API_SESSION_COOKIE;
+// Browser cache lifetime for folder listings (GET /connections/resources); 0 disables caching
+const LIST_CACHE_SECONDS = Number(process.env.API_PROXY_LIST_CACHE_SECONDS || 0);
+
+const UPSTREAM_TIMEOUT = 30 * 1000; // 30 seconds, same as the client's default
+const PROXY_PREFIX = "/api";
+const AUTH_PREFIX = "/auth/"; // Login and status checks work without a session
+
+// Request headers worth passing on; hop-by-hop and browser-specific ones are dropped
+const FORWARDED_REQUEST_HEADERS = ["accept", "authorization", "content-type", "cookie", "if-none-match", "if-modified-since"];
+const FORWARDED_RESPONSE_HEADERS = ["content-type", "etag", "last-modified", "retry-after"];
+
+// Every error returned by the proxy, whether it came from the backend or the proxy itself.
+// message is what apiRequest shows; details keeps the backend's own payload
+export interface ProxyErrorBody {
+  error: string; // Machine readable code, e.g. "not_found"
+  message: string;
+  status: number;
+  details?: unknown;
+}
+
+function getErrorCode(status: number): string {
+  if (status === 401) return "unauthorized";
+  if (status === 403) return "forbidden";
+  if (status === 404) return "not_found";
+  if (status === 409) return "conflict";
+  if (status === 422) return "invalid_request";
+  if (status === 429) return "rate_limited";
+  if (status === 502) return "bad_gateway";
+  if (status === 504) return "gateway_timeout";
+  if (status >= 500) return "server_error";
+  return "bad_request";
+}
+
+function errorResponse(status: number, message: string, details?: unknown, headers?: Headers): Response {
+  const body: ProxyErrorBody = { error: getErrorCode(status), message, status, details };
+  const responseHeaders = new Headers(headers);
+  responseHeaders.set("Content-Type", "application/json");
+  responseHeaders.set("Cache-Control", "no-store");
+  return new Response(JSON.stringify(body), { status, headers: responseHeaders });
+}
+
+// Cookies set by the backend are scoped to its domain; drop Domain so the browser keeps them for this app
+function rewriteSetCookie(cookie: string): string {
+  return cookie
+    .split(";")
+    .filter((attribute) => !/^\s*domain=/i.test(attribute))
+    .join(";");
+}
+
+function getCookie(request: Request, name: string): string | undefined {
+  const cookies = request.headers.get("cookie") || "";
+  return cookies
+    .split(";")
+    .map((cookie) => cookie.trim().split("="))
+    .find(([cookieName]) => cookieName === name)?.[1];
+}
+
+// Only what the browser sent: its own Authorization header, or its session cookie
+function getUpstreamHeaders(request: Request): Headers {
+  const headers = new Headers();
+  FORWARDED_REQUEST_HEADERS.forEach((name) => {
+    const value = request.headers.get(name);
+    if (value) headers.set(name, value);
+  });
+  const sessionToken = SESSION_COOKIE ? getCookie(request, SESSION_COOKIE) : undefined;
+  if (sessionToken && !headers.has("authorization")) {
+    headers.set("authorization", `Bearer ${sessionToken}`);
+  }
+  return headers;
+}
+
+function hasSession(headers: Headers): boolean {
+  return headers.has("authorization") || headers.has("cookie");
+}
+
+function getCacheControl(request: Request, path: string, status: number): string {
+  const isListing = request.method === "GET" && path === "/connections/resources";
+  if (!isListing || status !== 200 || LIST_CACHE_SECONDS <= 0) return "no-store";
+  // Listings are per user, so only the browser may keep them
+  return `private, max-age=${LIST_CACHE_SECONDS}, stale-while-revalidate=${LIST_CACHE_SECONDS}`;
+}
+
+async function parseErrorBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if (!text) return undefined;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// Forward one request to the backend under the same path (minus /api) and relay the response
+export async function proxyRequest(request: Request): Promise<Response> {
+  if (!UPSTREAM_BASE_URL) {
+    console.error("❌ [Proxy] API_BASE_URL is not defined");
+    return errorResponse(500, "The API proxy is not configured");
+  }
+
+  const { pathname, search } = new URL(request.url);
+  const path = pathname.startsWith(PROXY_PREFIX) ? pathname.slice(PROXY_PREFIX.length) : pathname;
+  const upstreamUrl = `${UPSTREAM_BASE_URL}${path}${search}`;
+  const hasBody = request.method !== "GET" && request.method !== "HEAD";
+
+  const upstreamHeaders = getUpstreamHeaders(request);
+  if (!path.startsWith(AUTH_PREFIX) && !hasSession(upstreamHeaders)) {
+    return errorResponse(401, "Not signed in");
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(upstreamUrl, {
+      method: request.method,
+      headers: upstreamHeaders,
+      body: hasBody ? await request.arrayBuffer() : undefined,
+      signal: AbortSignal.any([request.signal, AbortSignal.timeout(UPSTREAM_TIMEOUT)]),
+      cache: "no-store",
+      redirect: "manual",
+    });
+  } catch (error) {
+    if (request.signal.aborted) return new Response(null, { status: 499 }); // The browser went away
+    if (error instanceof DOMException && error.name === "TimeoutError") {
+      console.warn(`⏱️ [Proxy] ${request.method} ${path} timed out`);
+      return errorResponse(504, "The API did not respond in time");
+    }
+    console.error(`❌ [Proxy] ${request.method} ${path} failed:`, error);
+    return errorResponse(502, "Could not reach the API");
+  }
+
+  const headers = new Headers();
+  FORWARDED_RESPONSE_HEADERS.forEach((name) => {
+    const value = upstream.headers.get(name);
+    if (value) headers.set(name, value);
+  });
+  upstream.headers.getSetCookie().forEach((cookie) => headers.append("Set-Cookie", rewriteSetCookie(cookie)));
+
+  if (!upstream.ok && upstream.status !== 304) {
+    const body = await parseErrorBody(upstream);
+    return errorResponse(upstream.status, getErrorMessage(upstream.status, body), body, headers);
+  }
+
+  headers.set("Cache-Control", getCacheControl(request, path, upstream.status));
+  const isEmpty = upstream.status === 204 || upstream.status === 304;
+  return new Response(isEmpty ? null : upstream.body, { status: upstream.status, headers });
+}
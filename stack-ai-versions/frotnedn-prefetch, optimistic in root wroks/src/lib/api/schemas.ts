@@ -0,0 +1,68 @@
+// Runtime schemas for backend payloads, checked against the shared types at compile time
+import { array, boolean, object, oneOf, optional, string, type Schema } from "./validation";
+import type { FileItem, FileListResponse } from "../types/file";
+import type { Connection, ConnectionInfo, ConnectionListResponse } from "../types/connection";
+import type { DeleteKBResourceResponse, KBStatusEvent, KnowledgeBase, KnowledgeBaseListResponse, SyncKBResponse } from "../types/knowledgeBase";
+import type { AuthStatusResponse } from "../types/auth";
+
+// Only the fields the tree relies on are checked; size and status are already treated as optional downstream
+export const fileItemSchema: Schema<FileItem> = object<FileItem>({
+  id: string,
+  name: string,
+  type: oneOf(["file", "directory"] as const),
+  mime_type: optional(string),
+  indexed_at: optional(string),
+  web_url: optional(string),
+  modified_at: optional(string),
+});
+
+export const fileListResponseSchema: Schema<FileListResponse> = object<FileListResponse>({
+  data: array(fileItemSchema),
+  next_cursor: optional(string),
+});
+
+export const knowledgeBaseSchema: Schema<KnowledgeBase> = object<KnowledgeBase>({
+  id: string,
+  name: string,
+  created_at: string,
+  description: optional(string),
+  connection_id: optional(string),
+});
+
+export const knowledgeBaseListResponseSchema: Schema<KnowledgeBaseListResponse> = object<KnowledgeBaseListResponse>({
+  data: array(knowledgeBaseSchema),
+});
+
+export const kbStatusEventSchema: Schema<KBStatusEvent> = object<KBStatusEvent>({
+  resource_path: string,
+  data: array(fileItemSchema),
+});
+
+// Empty bodies (204) are fine for these
+export const syncKBResponseSchema: Schema<SyncKBResponse | undefined> = optional(
+  object<SyncKBResponse>({ message: optional(string) })
+);
+
+export const deleteKBResourceResponseSchema: Schema<DeleteKBResourceResponse | undefined> = optional(
+  object<DeleteKBResourceResponse>({ success: optional(boolean), message: optional(string) })
+);
+
+export const connectionInfoSchema: Schema<ConnectionInfo> = object<ConnectionInfo>({
+  connection_id: optional(string),
+  name: optional(string),
+  connection_provider: optional(string),
+});
+
+export const connectionSchema: Schema<Connection> = object<Connection>({
+  connection_id: string,
+  name: string,
+  connection_provider: oneOf(["gdrive", "onedrive", "notion", "local"] as const),
+});
+
+export const connectionListResponseSchema: Schema<ConnectionListResponse> = object<ConnectionListResponse>({
+  data: array(connectionSchema),
+});
+
+export const authStatusSchema: Schema<AuthStatusResponse> = object<AuthStatusResponse>({
+  authenticated: boolean,
+});
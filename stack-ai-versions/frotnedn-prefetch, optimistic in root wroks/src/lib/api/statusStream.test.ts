@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { KBStatusStreamHandlers } from "./statusStream";
+
+// Just enough of EventSource to drive the subscription by hand
+class FakeEventSource {
+  static CLOSED = 2;
+  static instances: FakeEventSource[] = [];
+
+  readyState = 1;
+  onerror: (() => void) | null = null;
+  private listeners = new Map<string, Array<(message: MessageEvent<string>) => void>>();
+
+  constructor(public url: string) {
+    FakeEventSource.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (message: MessageEvent<string>) => void) {
+    this.listeners.set(type, [...(this.listeners.get(type) || []), listener]);
+  }
+
+  close() {
+    this.readyState = FakeEventSource.CLOSED;
+  }
+
+  emit(type: string, data: unknown = {}) {
+    this.listeners.get(type)?.forEach((listener) => listener({ data: JSON.stringify(data) } as MessageEvent<string>));
+  }
+
+  fail() {
+    this.onerror?.();
+  }
+}
+
+function createHandlers(): KBStatusStreamHandlers {
+  return { onReady: vi.fn(), onStatus: vi.fn(), onInterrupted: vi.fn(), onFail: vi.fn() };
+}
+
+async function subscribe(handlers: KBStatusStreamHandlers) {
+  vi.resetModules();
+  vi.stubEnv("NEXT_PUBLIC_KB_STATUS_STREAM_URL", "/api/dev");
+  const { subscribeToKBStatus } = await import("./statusStream");
+  const unsubscribe = subscribeToKBStatus("kb-1", handlers);
+  return { source: FakeEventSource.instances[FakeEventSource.instances.length - 1], unsubscribe };
+}
+
+describe("subscribeToKBStatus", () => {
+  beforeEach(() => {
+    FakeEventSource.instances = [];
+    vi.stubGlobal("EventSource", FakeEventSource);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("is only ready once a full snapshot arrived", async () => {
+    const handlers = createHandlers();
+    const { source } = await subscribe(handlers);
+    expect(source.url).toBe("/api/dev/knowledge-bases/kb-1/status/stream");
+
+    source.emit("status", { resource_path: "/", data: [] });
+    expect(handlers.onStatus).toHaveBeenCalledWith({ resource_path: "/", data: [] });
+    expect(handlers.onReady).not.toHaveBeenCalled();
+
+    source.emit("snapshot");
+    source.emit("snapshot");
+    expect(handlers.onReady).toHaveBeenCalledTimes(1);
+  });
+
+  it("falls back right away when the server reports the stream unavailable", async () => {
+    const handlers = createHandlers();
+    const { source } = await subscribe(handlers);
+
+    source.emit("unavailable", { message: "Not authenticated" });
+
+    expect(handlers.onFail).toHaveBeenCalledTimes(1);
+    expect(source.readyState).toBe(FakeEventSource.CLOSED);
+  });
+
+  it("asks for polling while reconnecting and is ready again after the next snapshot", async () => {
+    const handlers = createHandlers();
+    const { source } = await subscribe(handlers);
+    source.emit("snapshot");
+
+    source.fail();
+    expect(handlers.onInterrupted).toHaveBeenCalledTimes(1);
+    expect(handlers.onFail).not.toHaveBeenCalled();
+
+    source.emit("snapshot");
+    expect(handlers.onReady).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up when reconnecting never gets a snapshot through", async () => {
+    const handlers = createHandlers();
+    const { source } = await subscribe(handlers);
+
+    source.fail();
+    source.fail();
+    expect(handlers.onFail).not.toHaveBeenCalled();
+    source.fail();
+
+    expect(handlers.onFail).toHaveBeenCalledTimes(1);
+    expect(handlers.onInterrupted).not.toHaveBeenCalled();
+    expect(source.readyState).toBe(FakeEventSource.CLOSED);
+  });
+});
@@ -0,0 +1,74 @@
+import { kbStatusEventSchema } from "./schemas";
+import { SchemaError } from "./validation";
+import type { KBStatusEvent } from "../types/knowledgeBase";
+
+// Base URL of the status stream, e.g. the backend URL or "/api/dev" for the local stand-in.
+// Without it the app keeps polling.
+const STATUS_STREAM_BASE_URL = process.env.NEXT_PUBLIC_KB_STATUS_STREAM_URL;
+
+const MAX_CONSECUTIVE_ERRORS = 3; // EventSource reconnects by itself, give up after this many failures
+
+export interface KBStatusStreamHandlers {
+  onReady: () => void; // A full snapshot arrived, statuses are pushed from now on
+  onStatus: (event: KBStatusEvent) => void;
+  onInterrupted: () => void; // Connection lost while ready; reconnecting, callers should poll until the next snapshot
+  onFail: () => void; // Stream unavailable, callers should fall back to polling
+}
+
+export function isStatusStreamAvailable(): boolean {
+  return !!STATUS_STREAM_BASE_URL && typeof EventSource !== "undefined";
+}
+
+// Subscribe to status changes for every indexed path of a KB; returns an unsubscribe function
+export function subscribeToKBStatus(kbId: string, handlers: KBStatusStreamHandlers): () => void {
+  if (!isStatusStreamAvailable()) {
+    handlers.onFail();
+    return () => {};
+  }
+
+  const source = new EventSource(`${STATUS_STREAM_BASE_URL}/knowledge-bases/${kbId}/status/stream`);
+  let consecutiveErrors = 0;
+  let isReady = false;
+
+  // An open connection isn't enough, the stream only counts once it has delivered a whole snapshot
+  source.addEventListener("snapshot", () => {
+    consecutiveErrors = 0;
+    if (!isReady) {
+      isReady = true;
+      handlers.onReady();
+    }
+  });
+
+  source.addEventListener("status", (message) => {
+    try {
+      handlers.onStatus(kbStatusEventSchema(JSON.parse((message as MessageEvent<string>).data), ""));
+    } catch (error) {
+      // A bad message shouldn't kill the stream, the next snapshot replaces it anyway
+      const reason = error instanceof SchemaError ? error.message : error;
+      console.error(`❌ [StatusStream] Ignoring malformed status event for KB ${kbId}:`, reason);
+    }
+  });
+
+  // The server couldn't read the KB (e.g. the session expired), reconnecting won't help
+  source.addEventListener("unavailable", (message) => {
+    console.warn(`⚠️ [StatusStream] Stream unavailable for KB ${kbId}:`, (message as MessageEvent<string>).data);
+    source.close();
+    handlers.onFail();
+  });
+
+  source.onerror = () => {
+    consecutiveErrors++;
+    console.warn(`⚠️ [StatusStream] Connection error for KB ${kbId} (${consecutiveErrors}/${MAX_CONSECUTIVE_ERRORS})`);
+    if (isReady) {
+      isReady = false;
+      handlers.onInterrupted();
+    }
+
+    if (source.readyState === EventSource.CLOSED || consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
+      source.close();
+      handlers.onFail();
+    }
+  };
+
+  return () => source.close();
+}
@@ -0,0 +1,80 @@
+// Minimal runtime schemas for API responses, so malformed payloads fail at the API boundary
+// instead of deep inside the file tree. A schema returns the value typed, or throws a SchemaError.
+
+export type Schema<T> = (value: unknown, path: string) => T;
+
+export class SchemaError extends Error {
+  readonly path: string;
+
+  constructor(path: string, expected: string, value: unknown) {
+    const received = value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+    super(`${path || "response"} must be ${expected}, received ${received}`);
+    this.name = "SchemaError";
+    this.path = path;
+  }
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+export const string: Schema<string> = (value, path) => {
+  if (typeof value !== "string") throw new SchemaError(path, "a string", value);
+  return value;
+};
+
+export const number: Schema<number> = (value, path) => {
+  if (typeof value !== "number" || Number.isNaN(value)) throw new SchemaError(path, "a number", value);
+  return value;
+};
+
+export const boolean: Schema<boolean> = (value, path) => {
+  if (typeof value !== "boolean") throw new SchemaError(path, "a boolean", value);
+  return value;
+};
+
+// Accepts anything, for fields we pass through untouched
+export const unknownValue: Schema<unknown> = (value) => value;
+
+export function oneOf<const T extends readonly string[]>(values: T): Schema<T[number]> {
+  return (value, path) => {
+    if (typeof value !== "string" || !values.includes(value)) {
+      throw new SchemaError(path, `one of ${values.join(", ")}`, value);
+    }
+    return value as T[number];
+  };
+}
+
+// Missing and null both count as absent
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) => (value === undefined || value === null ? undefined : schema(value, path));
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new SchemaError(path, "an array", value);
+    return value.map((entry, index) => item(entry, joinPath(path, index)));
+  };
+}
+
+// Only the listed fields are checked (UI-only fields on shared types can be left out)
+type Shape<T> = { [K in keyof T]?: Schema<T[K]> };
+
+// Unknown keys are kept, so newer backend fields don't break older clients
+export function object<T extends object>(shape: Shape<T>): Schema<T> {
+  return (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new SchemaError(path, "an object", value);
+    }
+
+    const record = value as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...record };
+    (Object.keys(shape) as Array<keyof T & string>).forEach((key) => {
+      const parsed = shape[key]!(record[key], joinPath(path, key));
+      if (parsed !== undefined) result[key] = parsed;
+    });
+
+    return result as T;
+  };
+}
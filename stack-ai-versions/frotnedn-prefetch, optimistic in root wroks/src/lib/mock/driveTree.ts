@@ -0,0 +1,111 @@
+import type { FileItem } from "@/lib/types/file";
+
+// Seeded fake Google Drive for the mock backend. The same seed always builds the same tree (names, ids, sizes),
+// so links, saved views and bug reports stay reproducible across restarts.
+
+export interface MockDriveNode {
+  id: string;
+  name: string; // Full path without the leading slash, like the real connection ("Finance/Q3/report.pdf")
+  type: FileItem["type"];
+  size: number;
+  mime_type?: string;
+  parentId: string | null; // null for the Drive root
+}
+
+export interface MockDrive {
+  nodes: Map<string, MockDriveNode>;
+  children: Map<string | null, MockDriveNode[]>; // Parent id (null for the root) -> contents, folders first
+}
+
+const MIME_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  csv: "text/csv",
+  txt: "text/plain",
+  md: "text/markdown",
+  png: "image/png",
+};
+const FOLDER_MIME_TYPE = "application/vnd.google-apps.folder";
+const EXTENSIONS = Object.keys(MIME_TYPES);
+
+const TOP_FOLDERS: Record<string, string[]> = {
+  Finance: ["Q1", "Q2", "Q3", "Q4", "Invoices"],
+  Engineering: ["Design Docs", "Postmortems", "Runbooks"],
+  Marketing: ["Campaigns", "Brand"],
+  HR: ["Policies", "Onboarding"],
+  Legal: ["Contracts", "Contracts 2024"], // Shared name prefix, exercises path handling
+  Archive: ["Scans"],
+};
+const LARGE_FOLDER = "Archive/Scans"; // Enough files to need several pages
+const LARGE_FOLDER_SIZE = 230;
+
+const WORDS = ["report", "summary", "budget", "plan", "notes", "review", "forecast", "roadmap", "minutes", "proposal", "audit", "overview", "draft", "final", "checklist"];
+
+// mulberry32: tiny deterministic PRNG
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function buildMockDrive(seed: number): MockDrive {
+  const random = createRandom(seed);
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const nodes = new Map<string, MockDriveNode>();
+  const children = new Map<string | null, MockDriveNode[]>();
+  let counter = 0;
+
+  const add = (parent: MockDriveNode | null, baseName: string, type: FileItem["type"]): MockDriveNode => {
+    const extension = type === "file" ? baseName.split(".").pop() || "" : "";
+    const node: MockDriveNode = {
+      id: `mock-${seed}-${(++counter).toString(36).padStart(5, "0")}`,
+      name: parent ? `${parent.name}/${baseName}` : baseName,
+      type,
+      size: type === "file" ? Math.floor(1024 + random() * 8 * 1024 * 1024) : 0,
+      mime_type: type === "file" ? MIME_TYPES[extension] : FOLDER_MIME_TYPE,
+      parentId: parent?.id ?? null,
+    };
+    nodes.set(node.id, node);
+    children.set(node.parentId, [...(children.get(node.parentId) || []), node]);
+    return node;
+  };
+
+  const addFiles = (parent: MockDriveNode | null, count: number) => {
+    const usedNames = new Set<string>();
+    for (let i = 0; i < count; i++) {
+      let baseName = `${pick(WORDS)}-${pick(WORDS)}.${pick(EXTENSIONS)}`;
+      if (usedNames.has(baseName)) baseName = baseName.replace(".", ` (${i}).`);
+      usedNames.add(baseName);
+      add(parent, baseName, "file");
+    }
+  };
+
+  Object.entries(TOP_FOLDERS).forEach(([topName, subNames]) => {
+    const top = add(null, topName, "directory");
+    subNames.forEach((subName) => {
+      const sub = add(top, subName, "directory");
+      if (sub.name === LARGE_FOLDER) {
+        addFiles(sub, LARGE_FOLDER_SIZE);
+        return;
+      }
+      // Some subfolders go one level deeper
+      if (random() < 0.4) addFiles(add(sub, "Drafts", "directory"), 3 + Math.floor(random() * 5));
+      addFiles(sub, 4 + Math.floor(random() * 12));
+    });
+    addFiles(top, 2 + Math.floor(random() * 4));
+  });
+  add(null, "Empty folder", "directory");
+  addFiles(null, 6);
+
+  // Folders first, then by name, like Drive
+  children.forEach((items) => items.sort((a, b) => (a.type === b.type ? a.name.localeCompare(b.name) : a.type === "directory" ? -1 : 1)));
+
+  return { nodes, children };
+}
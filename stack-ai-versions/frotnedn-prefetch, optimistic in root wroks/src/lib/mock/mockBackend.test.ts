@@ -0,0 +1,32 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { handleMockRequest } from "./mockBackend";
+
+function control(method: string, action: string, body?: unknown): Promise<Response> {
+  const request = new Request(`http://app.test/api/mock/__mock/${action}`, { method, body: body === undefined ? undefined : JSON.stringify(body) });
+  return handleMockRequest(request, `/__mock/${action}`);
+}
+
+describe("mock backend config", () => {
+  beforeEach(async () => {
+    await control("POST", "reset", { latencyMs: [0, 0] });
+  });
+
+  it("rejects failure rules whose path isn't a valid regular expression", async () => {
+    const response = await control("PATCH", "config", { failures: [{ path: "/knowledge-bases/(" }] });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ detail: 'Invalid failure path "/knowledge-bases/(": not a valid regular expression' });
+    // The previous config stays in place and requests keep working
+    expect((await (await control("GET", "config")).json()).failures).toEqual([]);
+    const status = await handleMockRequest(new Request("http://app.test/api/mock/auth/status"), "/auth/status");
+    expect(status.status).toBe(200);
+  });
+
+  it("fails matching requests as many times as configured", async () => {
+    await control("PATCH", "config", { failures: [{ path: "^/auth/status$", status: 502, times: 1 }] });
+
+    const request = () => handleMockRequest(new Request("http://app.test/api/mock/auth/status"), "/auth/status");
+    expect((await request()).status).toBe(502);
+    expect((await request()).status).toBe(200);
+  });
+});
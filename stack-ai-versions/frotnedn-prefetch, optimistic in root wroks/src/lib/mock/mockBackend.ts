@@ -0,0 +1,504 @@
+import type { Connection } from "@/lib/types/connection";
+import type { FileItem } from "@/lib/types/file";
+import type { KnowledgeBase } from "@/lib/types/knowledgeBase";
+import { buildMockDrive, type MockDrive, type MockDriveNode } from "./driveTree";
+
+// In-memory stand-in for the Stack AI backend, served by src/app/api/mock in development.
+// Implements the endpoints the app uses (auth, connection listings/search, KBs and their resources)
+// on top of seeded fake drives, one per connection. Indexing takes a random while and moves resources pending -> indexed
+// (or error, which the app shows as Failed); latency and failures are configurable from the environment or at runtime via /__mock/config.
+
+export interface MockFailureRule {
+  path: string; // Regular expression matched against the request path, e.g. "^/knowledge-bases/[^/]+/sync$"
+  method?: string; // Any method when omitted
+  status?: number; // Defaults to 500
+  times?: number; // Fail this many matching requests, then stop; every one when omitted
+}
+
+export interface MockBackendConfig {
+  seed: number;
+  latencyMs: [number, number]; // Random delay per request, min-max
+  failureRate: number; // 0-1, share of requests (auth excluded) answered with a 503
+  failures: MockFailureRule[];
+  indexDelayMs: [number, number]; // How long a resource stays pending after a sync
+  indexFailureRate: number; // 0-1, share of resources that end up in error
+  pageSize: number; // Default page size for listings
+  sessionTtlMs: number; // Sessions expire after this long, to exercise re-login
+  email?: string; // Only this account may sign in; any non-empty credentials otherwise
+  password?: string;
+}
+
+type MockEntryStatus = "pending" | "indexed" | "error";
+
+interface MockKBEntry {
+  resourceId: string;
+  status: MockEntryStatus;
+  readyAt: number; // When a pending resource settles
+  outcome: Exclude<MockEntryStatus, "pending">;
+  indexedAt?: string;
+}
+
+interface MockKB {
+  id: string;
+  name: string;
+  description: string;
+  createdAt: string;
+  connectionId: string;
+  resourceIds: Set<string>; // What the KB was asked to index
+  entries: Map<string, MockKBEntry>; // What sync picked up, by resource id
+}
+
+interface MockFailureMatcher {
+  rule: MockFailureRule;
+  pattern: RegExp;
+}
+
+interface MockState {
+  config: MockBackendConfig;
+  failureMatchers: MockFailureMatcher[]; // config.failures, compiled when the config is set
+  drives: Map<string, MockDrive>; // By connection id
+  kbs: Map<string, MockKB>;
+  sessions: Map<string, number>; // Token -> expiry time
+}
+
+const SESSION_COOKIE = "mock_session";
+
+// One of each provider; the first is the default when a request names no connection
+const MOCK_CONNECTIONS: Connection[] = [
+  { connection_id: "mock-gdrive", name: "Google Drive (mock)", connection_provider: "gdrive" },
+  { connection_id: "mock-onedrive", name: "OneDrive (mock)", connection_provider: "onedrive" },
+  { connection_id: "mock-notion", name: "Notion (mock)", connection_provider: "notion" },
+  { connection_id: "mock-local", name: "Uploads (mock)", connection_provider: "local" },
+];
+const MAX_PAGE_SIZE = 1000;
+
+// "200" or "100-600"
+function parseRange(value: string | undefined, fallback: [number, number]): [number, number] {
+  if (!value) return fallback;
+  const [min, max = min] = value.split("-").map(Number);
+  return Number.isNaN(min) || Number.isNaN(max) ? fallback : [Math.min(min, max), Math.max(min, max)];
+}
+
+function parseFailures(value: string | undefined): MockFailureRule[] {
+  if (!value) return [];
+  try {
+    const rules = JSON.parse(value);
+    if (!Array.isArray(rules)) return [];
+    return rules.filter((rule: MockFailureRule) => {
+      try {
+        return !!new RegExp(rule.path);
+      } catch {
+        console.warn(`⚠️ [MockAPI] Ignoring the failure rule for "${rule.path}": not a valid regular expression`);
+        return false;
+      }
+    });
+  } catch {
+    console.warn("⚠️ [MockAPI] MOCK_API_FAILURES is not valid JSON, ignoring it");
+    return [];
+  }
+}
+
+function readConfigFromEnv(): MockBackendConfig {
+  const env = process.env;
+  return {
+    seed: Number(env.MOCK_API_SEED) || 42,
+    latencyMs: parseRange(env.MOCK_API_LATENCY_MS, [100, 400]),
+    failureRate: Number(env.MOCK_API_FAILURE_RATE) || 0,
+    failures: parseFailures(env.MOCK_API_FAILURES),
+    indexDelayMs: parseRange(env.MOCK_API_INDEX_DELAY_MS, [2000, 8000]),
+    indexFailureRate: Number(env.MOCK_API_INDEX_FAILURE_RATE) || 0,
+    pageSize: Number(env.MOCK_API_PAGE_SIZE) || 50,
+    sessionTtlMs: Number(env.MOCK_API_SESSION_TTL_MS) || 60 * 60 * 1000,
+    email: env.MOCK_API_EMAIL || undefined,
+    password: env.MOCK_API_PASSWORD || undefined,
+  };
+}
+
+// Throws on rules that can't be matched, so a bad config is rejected instead of failing every later request
+function compileFailures(rules: MockFailureRule[]): MockFailureMatcher[] {
+  if (!Array.isArray(rules)) throw new Error("failures must be a list of rules");
+  return rules.map((rule) => {
+    if (typeof rule?.path !== "string") throw new Error("Every failure rule needs a path");
+    try {
+      return { rule, pattern: new RegExp(rule.path) };
+    } catch {
+      throw new Error(`Invalid failure path "${rule.path}": not a valid regular expression`);
+    }
+  });
+}
+
+function createState(config: MockBackendConfig): MockState {
+  console.log(`🧪 [MockAPI] Seeding ${MOCK_CONNECTIONS.length} fake drives from seed ${config.seed}`);
+  // Each connection gets its own tree (and ids); the Google Drive one keeps the configured seed
+  const drives = new Map(MOCK_CONNECTIONS.map((connection, index) => [connection.connection_id, buildMockDrive(config.seed + index)]));
+  return { config, failureMatchers: compileFailures(config.failures), drives, kbs: new Map(), sessions: new Map() };
+}
+
+// Kept on globalThis so dev-server reloads don't wipe KBs and sessions
+const globalForMock = globalThis as typeof globalThis & { mockBackendState?: MockState };
+
+function getState(): MockState {
+  globalForMock.mockBackendState ??= createState(readConfigFromEnv());
+  return globalForMock.mockBackendState;
+}
+
+function json(status: number, body: unknown, headers?: HeadersInit): Response {
+  return Response.json(body, { status, headers });
+}
+
+// FastAPI-style error bodies, like the real backend
+function error(status: number, detail: string): Response {
+  return json(status, { detail });
+}
+
+function randomBetween([min, max]: [number, number]): number {
+  return min + Math.random() * (max - min);
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+async function readJson<T>(request: Request): Promise<Partial<T>> {
+  try {
+    return ((await request.json()) as Partial<T>) || {};
+  } catch {
+    return {};
+  }
+}
+
+function getSessionToken(request: Request): string | undefined {
+  const cookies = request.headers.get("cookie") || "";
+  return cookies
+    .split(";")
+    .map((cookie) => cookie.trim().split("="))
+    .find(([name]) => name === SESSION_COOKIE)?.[1];
+}
+
+function isAuthenticated(state: MockState, request: Request): boolean {
+  const token = getSessionToken(request);
+  const expiresAt = token ? state.sessions.get(token) : undefined;
+  if (!token || !expiresAt) return false;
+  if (expiresAt < Date.now()) {
+    state.sessions.delete(token);
+    return false;
+  }
+  return true;
+}
+
+// The drive behind a connection id, the default connection's when none is given
+function getDrive(state: MockState, connectionId: string | null | undefined): MockDrive | undefined {
+  return state.drives.get(connectionId || MOCK_CONNECTIONS[0].connection_id);
+}
+
+// Cursors are plain offsets into the listing
+function paginate(items: FileItem[], searchParams: URLSearchParams, state: MockState) {
+  const offset = Math.max(0, Number(searchParams.get("cursor")) || 0);
+  const pageSize = Math.min(MAX_PAGE_SIZE, Number(searchParams.get("page_size")) || state.config.pageSize);
+  const data = items.slice(offset, offset + pageSize);
+  return offset + pageSize < items.length ? { data, next_cursor: String(offset + pageSize) } : { data };
+}
+
+function toFileItem(node: MockDriveNode): FileItem {
+  return { id: node.id, name: node.name, type: node.type, size: node.size, mime_type: node.mime_type };
+}
+
+function getParentPath(node: MockDriveNode, drive: MockDrive): string {
+  const parent = node.parentId ? drive.nodes.get(node.parentId) : undefined;
+  return parent ? `/${parent.name}` : "/";
+}
+
+function getAncestors(node: MockDriveNode, drive: MockDrive): MockDriveNode[] {
+  const ancestors: MockDriveNode[] = [];
+  let parent = node.parentId ? drive.nodes.get(node.parentId) : undefined;
+  while (parent) {
+    ancestors.push(parent);
+    parent = parent.parentId ? drive.nodes.get(parent.parentId) : undefined;
+  }
+  return ancestors;
+}
+
+// Settle pending resources whose indexing time has passed
+function settleEntry(entry: MockKBEntry): MockKBEntry {
+  if (entry.status === "pending" && entry.readyAt <= Date.now()) {
+    entry.status = entry.outcome;
+    if (entry.outcome === "indexed") entry.indexedAt = new Date(entry.readyAt).toISOString();
+  }
+  return entry;
+}
+
+function toKnowledgeBase(kb: MockKB): KnowledgeBase {
+  return {
+    id: kb.id,
+    name: kb.name,
+    description: kb.description,
+    created_at: kb.createdAt,
+    connection_id: kb.connectionId,
+    is_empty: kb.resourceIds.size === 0 && kb.entries.size === 0,
+  };
+}
+
+function login(state: MockState, body: Partial<{ email: string; password: string }>): Response {
+  const { email, password } = body;
+  const { config } = state;
+  const isValid = config.email ? email === config.email && password === config.password : !!email && !!password;
+  if (!isValid) return error(401, "Incorrect email or password");
+
+  const token = crypto.randomUUID();
+  state.sessions.set(token, Date.now() + config.sessionTtlMs);
+  console.log(`🧪 [MockAPI] Signed in ${email}`);
+  const cookie = `${SESSION_COOKIE}=${token}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${Math.floor(config.sessionTtlMs / 1000)}`;
+  return json(200, { message: "Logged in" }, { "Set-Cookie": cookie });
+}
+
+function logout(state: MockState, request: Request): Response {
+  const token = getSessionToken(request);
+  if (token) state.sessions.delete(token);
+  return json(200, { message: "Logged out" }, { "Set-Cookie": `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0` });
+}
+
+function listResources(state: MockState, searchParams: URLSearchParams): Response {
+  const drive = getDrive(state, searchParams.get("connection_id"));
+  if (!drive) return error(404, "Connection not found");
+
+  const resourceId = searchParams.get("resource_id");
+  if (resourceId && drive.nodes.get(resourceId)?.type !== "directory") {
+    return error(404, "Resource not found");
+  }
+  const items = (drive.children.get(resourceId || null) || []).map(toFileItem);
+  return json(200, paginate(items, searchParams, state));
+}
+
+function searchResources(state: MockState, searchParams: URLSearchParams): Response {
+  const drive = getDrive(state, searchParams.get("connection_id"));
+  if (!drive) return error(404, "Connection not found");
+
+  const query = (searchParams.get("query") || "").trim().toLowerCase();
+  if (!query) return json(200, { data: [] });
+  const items = Array.from(drive.nodes.values())
+    .filter((node) => node.name.toLowerCase().includes(query))
+    .map(toFileItem);
+  return json(200, paginate(items, searchParams, state));
+}
+
+function createKB(
+  state: MockState,
+  body: Partial<{ name: string; description: string; resource_ids: string[]; connection_id: string }>
+): Response {
+  if (!body.name?.trim()) return error(422, "name is required");
+  const connectionId = body.connection_id || MOCK_CONNECTIONS[0].connection_id;
+  const drive = getDrive(state, connectionId);
+  if (!drive) return error(422, `Unknown connection: ${connectionId}`);
+  const unknownIds = (body.resource_ids || []).filter((id) => !drive.nodes.has(id));
+  if (unknownIds.length > 0) return error(422, `Unknown resource ids: ${unknownIds.join(", ")}`);
+
+  const kb: MockKB = {
+    id: crypto.randomUUID(),
+    name: body.name.trim(),
+    description: body.description || "",
+    createdAt: new Date().toISOString(),
+    connectionId,
+    resourceIds: new Set(body.resource_ids),
+    entries: new Map(),
+  };
+  state.kbs.set(kb.id, kb);
+  console.log(`🧪 [MockAPI] Created KB ${kb.id} with ${kb.resourceIds.size} resource(s)`);
+  return json(200, toKnowledgeBase(kb));
+}
+
+// Queue every requested resource that isn't indexed yet. Like the real backend, a folder brings in
+// its direct files; nested folders are only indexed when requested themselves
+function syncKB(state: MockState, kb: MockKB): Response {
+  const { config } = state;
+  const drive = getDrive(state, kb.connectionId)!;
+  const schedule = (node: MockDriveNode) => {
+    const existing = kb.entries.get(node.id);
+    if (existing && settleEntry(existing).status !== "error") return;
+    kb.entries.set(node.id, {
+      resourceId: node.id,
+      status: "pending",
+      readyAt: Date.now() + randomBetween(config.indexDelayMs),
+      outcome: Math.random() < config.indexFailureRate ? "error" : "indexed",
+    });
+  };
+
+  kb.resourceIds.forEach((id) => {
+    const node = drive.nodes.get(id);
+    if (!node) return;
+    schedule(node);
+    if (node.type === "directory") {
+      drive.children.get(node.id)?.filter((child) => child.type === "file").forEach(schedule);
+    }
+  });
+  console.log(`🧪 [MockAPI] Syncing KB ${kb.id}: ${kb.entries.size} resource(s) tracked`);
+  return json(200, { message: "Sync started" });
+}
+
+// Resources directly under resource_path, plus the folders leading to deeper ones (without a status)
+function listKBResources(state: MockState, kb: MockKB, searchParams: URLSearchParams): Response {
+  const drive = getDrive(state, kb.connectionId)!;
+  const resourcePath = searchParams.get("resource_path") || "/";
+  const items = new Map<string, FileItem>();
+
+  kb.entries.forEach((entry) => {
+    const node = drive.nodes.get(entry.resourceId);
+    if (!node) return;
+
+    if (getParentPath(node, drive) === resourcePath) {
+      const { status, indexedAt } = settleEntry(entry);
+      items.set(node.id, { ...toFileItem(node), status, indexed_at: indexedAt });
+    }
+    getAncestors(node, drive)
+      .filter((ancestor) => getParentPath(ancestor, drive) === resourcePath && !items.has(ancestor.id))
+      .forEach((ancestor) => items.set(ancestor.id, toFileItem(ancestor)));
+  });
+
+  if (items.size === 0 && resourcePath !== "/") return error(404, `Resource path ${resourcePath} not found`);
+
+  const sorted = Array.from(items.values()).sort((a, b) => (a.type === b.type ? a.name.localeCompare(b.name) : a.type === "directory" ? -1 : 1));
+  return json(200, paginate(sorted, searchParams, state));
+}
+
+// Removes the resource at resource_path, and everything below it for a folder
+function deleteKBResource(state: MockState, kb: MockKB, searchParams: URLSearchParams): Response {
+  const drive = getDrive(state, kb.connectionId)!;
+  const resourcePath = searchParams.get("resource_path") || "";
+  const target = Array.from(drive.nodes.values()).find((node) => `/${node.name}` === resourcePath);
+  if (!target || (!kb.entries.has(target.id) && !kb.resourceIds.has(target.id))) {
+    return error(404, `Resource path ${resourcePath} not found`);
+  }
+
+  const isRemoved = (id: string) => {
+    const node = drive.nodes.get(id);
+    return id === target.id || (!!node && getAncestors(node, drive).some((ancestor) => ancestor.id === target.id));
+  };
+  Array.from(kb.entries.keys()).filter(isRemoved).forEach((id) => kb.entries.delete(id));
+  Array.from(kb.resourceIds).filter(isRemoved).forEach((id) => kb.resourceIds.delete(id));
+  return json(200, { success: true, message: "Resource removed" });
+}
+
+async function handleKnowledgeBases(state: MockState, request: Request, segments: string[], searchParams: URLSearchParams): Promise<Response> {
+  const { method } = request;
+  const [kbId, child] = segments;
+
+  if (!kbId) {
+    if (method === "GET") return json(200, { data: Array.from(state.kbs.values()).map(toKnowledgeBase) });
+    if (method === "POST") return createKB(state, await readJson(request));
+    return error(405, "Method not allowed");
+  }
+
+  const kb = state.kbs.get(kbId);
+  if (!kb) return error(404, "Knowledge base not found");
+
+  if (!child) {
+    if (method === "GET") return json(200, toKnowledgeBase(kb));
+    if (method === "PATCH") {
+      const body = await readJson<{ name: string; description: string }>(request);
+      if (body.name !== undefined) kb.name = body.name.trim() || kb.name;
+      if (body.description !== undefined) kb.description = body.description;
+      return json(200, toKnowledgeBase(kb));
+    }
+    if (method === "DELETE") {
+      state.kbs.delete(kb.id);
+      return json(200, { success: true });
+    }
+  }
+
+  if (child === "sync" && method === "POST") return syncKB(state, kb);
+
+  if (child === "resources") {
+    if (method === "GET") return listKBResources(state, kb, searchParams);
+    if (method === "DELETE") return deleteKBResource(state, kb, searchParams);
+    if (method === "POST") {
+      const { resource_ids = [] } = await readJson<{ resource_ids: string[] }>(request);
+      const drive = getDrive(state, kb.connectionId)!;
+      resource_ids.filter((id) => drive.nodes.has(id)).forEach((id) => kb.resourceIds.add(id));
+      return json(200, { message: "Resources added" });
+    }
+  }
+
+  return error(405, "Method not allowed");
+}
+
+// Runtime knobs for manual testing and test runs: GET/PATCH /__mock/config, POST /__mock/reset
+async function handleControl(request: Request, action: string): Promise<Response> {
+  const state = getState();
+  if (action === "config" && request.method === "GET") return json(200, state.config);
+  if (action === "config" && request.method === "PATCH") {
+    const config = { ...state.config, ...(await readJson<MockBackendConfig>(request)) };
+    try {
+      state.failureMatchers = compileFailures(config.failures);
+    } catch (err) {
+      return error(400, (err as Error).message);
+    }
+    state.config = config;
+    console.log("🧪 [MockAPI] Config updated", state.config);
+    return json(200, state.config);
+  }
+  if (action === "reset" && request.method === "POST") {
+    const overrides = await readJson<MockBackendConfig>(request);
+    try {
+      globalForMock.mockBackendState = createState({ ...readConfigFromEnv(), ...overrides });
+    } catch (err) {
+      return error(400, (err as Error).message);
+    }
+    return json(200, globalForMock.mockBackendState.config);
+  }
+  return error(404, "Not found");
+}
+
+// First rule matching the request, used up once its `times` run out
+function takeFailure(state: MockState, method: string, path: string): MockFailureRule | undefined {
+  const rule = state.failureMatchers.find(
+    ({ rule: candidate, pattern }) => (!candidate.method || candidate.method.toUpperCase() === method) && pattern.test(path) && candidate.times !== 0
+  )?.rule;
+  if (rule?.times !== undefined) rule.times--;
+  return rule;
+}
+
+// Entry point for the route handler; path is the backend path, e.g. "/knowledge-bases/abc/sync"
+export async function handleMockRequest(request: Request, path: string): Promise<Response> {
+  const { searchParams } = new URL(request.url);
+  const segments = path.split("/").filter(Boolean).map(decodeURIComponent);
+  const { method } = request;
+
+  if (segments[0] === "__mock") return handleControl(request, segments[1]);
+
+  const state = getState();
+  await sleep(randomBetween(state.config.latencyMs), request.signal);
+
+  const isAuthRoute = segments[0] === "auth";
+  const failure = takeFailure(state, method, path);
+  if (failure) return error(failure.status || 500, `Simulated failure for ${method} ${path}`);
+  if (!isAuthRoute && Math.random() < state.config.failureRate) return error(503, "Simulated outage");
+
+  if (isAuthRoute) {
+    if (segments[1] === "login" && method === "POST") return login(state, await readJson(request));
+    if (segments[1] === "logout" && method === "POST") return logout(state, request);
+    if (segments[1] === "status" && method === "GET") return json(200, { authenticated: isAuthenticated(state, request) });
+    return error(404, "Not found");
+  }
+
+  if (!isAuthenticated(state, request)) return error(401, "Not authenticated");
+
+  if (segments[0] === "connections" && method === "GET") {
+    if (!segments[1]) return json(200, { data: MOCK_CONNECTIONS });
+    if (segments[1] === "info") return json(200, MOCK_CONNECTIONS[0]);
+    if (segments[1] === "resources" && segments[2] === "search") return searchResources(state, searchParams);
+    if (segments[1] === "resources" && !segments[2]) return listResources(state, searchParams);
+  }
+
+  if (segments[0] === "knowledge-bases") return handleKnowledgeBases(state, request, segments.slice(1), searchParams);
+
+  return error(404, "Not found");
+}
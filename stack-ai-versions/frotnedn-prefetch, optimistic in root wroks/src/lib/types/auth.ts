@@ -0,0 +1,9 @@
+// Auth related types
+export interface AuthStatusResponse {
+  authenticated: boolean;
+}
+
+export interface LoginCredentials {
+  email: string;
+  password: string;
+}
@@ -0,0 +1,24 @@
+// Connection related types
+
+// Sources files can be picked from
+export type ConnectionProvider = "gdrive" | "onedrive" | "notion" | "local";
+
+// What /connections/info returns for the implicit connection of single-connection backends
+export interface ConnectionInfo {
+  connection_id?: string;
+  name?: string;
+  connection_provider?: string;
+}
+
+export interface Connection {
+  connection_id: string;
+  name: string; // e.g. "Team Drive" or "Uploads"
+  connection_provider: ConnectionProvider;
+}
+
+export interface ConnectionListResponse {
+  data: Connection[];
+}
+
+// Enough to list a connection's resources and tag them with where they came from
+export type ConnectionRef = Pick<Connection, "connection_id" | "connection_provider">;
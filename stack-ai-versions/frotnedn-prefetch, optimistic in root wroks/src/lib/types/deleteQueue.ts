@@ -0,0 +1,13 @@
+// Delete queue related types
+export interface DeleteRequest {
+  id: string;
+  fileId: string;
+  fileName: string;
+  resourcePath: string;
+  kbId: string;
+  timestamp: number;
+  status: "queued" | "failed"; // "failed" = gave up after MAX_DELETE_ATTEMPTS, waits for a manual retry
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt?: number; // Backoff, not processed before this time
+}
@@ -1,3 +1,5 @@
+import type { ConnectionProvider } from "./connection";
+
 // Simple types for files and folders
 export interface FileItem {
   id: string;
@@ -7,14 +9,29 @@ export interface FileItem {
   mime_type?: string;
   status?: "indexed" | "pending" | "pending_delete" | "unknown" | "failed" | "deleted" | "error";
   indexed_at?: string;
+  // Where the resource lives; set by the client from the connection it was listed from
+  connection_id?: string;
+  provider?: ConnectionProvider;
+  // Provider metadata, when the backend has it
+  web_url?: string; // Opens the resource in its source app
+  modified_at?: string;
   // UI state
   isSelected?: boolean;
   isExpanded?: boolean;
   isLoading?: boolean; // For folder loading state
+  hasMore?: boolean; // Expanded folder with pages left to load
+  isLoadingMore?: boolean; // Next page of an expanded folder is loading
   children?: FileItem[];
   level?: number; // For indentation in tree view
 }
 
+// Where the search box looks: rows already loaded into the table, or the whole connected Drive
+export type SearchScope = "loaded" | "drive";
+
+// Inline expandable tree, or one folder at a time with a breadcrumb bar
+export type FolderViewMode = "tree" | "breadcrumb";
+
 export interface FileListResponse {
   data: FileItem[];
+  next_cursor?: string; // Cursor for the next page, absent on the last one
 }
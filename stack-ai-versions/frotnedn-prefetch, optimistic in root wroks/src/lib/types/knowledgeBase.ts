@@ -1,13 +1,48 @@
+import type { FileItem } from "./file";
+
 // Knowledge Base related types
 export interface KnowledgeBase {
   id: string;
   name: string;
   created_at: string;
   is_empty: boolean;
+  description?: string;
+  connection_id?: string; // The connection its resources come from
+}
+
+export interface KnowledgeBaseListResponse {
+  data: KnowledgeBase[];
 }
 
-export interface CreateKBRequest {
+// Name and description chosen by the user in the KB dialogs
+export interface KBDetails {
   name: string;
   description: string;
+}
+
+export interface CreateKBRequest extends KBDetails {
+  connection_id?: string;
   resource_ids: string[];
 }
+
+export type UpdateKBRequest = Partial<KBDetails>;
+
+export interface AddKBResourcesRequest {
+  connection_id?: string;
+  resource_ids: string[];
+}
+
+export interface DeleteKBResourceResponse {
+  success?: boolean;
+  message?: string;
+}
+
+export interface SyncKBResponse {
+  message?: string;
+}
+
+// One message on the KB status stream: the current statuses of everything under resource_path
+export interface KBStatusEvent {
+  resource_path: string;
+  data: FileItem[];
+}
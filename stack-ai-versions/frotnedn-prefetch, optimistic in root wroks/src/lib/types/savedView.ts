@@ -0,0 +1,13 @@
+// Saved table views, stored per knowledge base
+export interface SavedViewState {
+  filterQuery: string;
+  sorting: Array<{ id: string; desc: boolean }>;
+  columnVisibility: Record<string, boolean>;
+  expandedFolders: string[]; // Folder IDs, parents before children
+}
+
+export interface SavedView extends SavedViewState {
+  id: string;
+  name: string;
+  updatedAt: number;
+}
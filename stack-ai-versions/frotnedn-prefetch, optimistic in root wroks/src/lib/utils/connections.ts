@@ -0,0 +1,24 @@
+import type { ConnectionProvider } from "@/lib/types/connection";
+
+export interface ProviderDetails {
+  label: string;
+  rootLabel: string; // Name of the top level in breadcrumbs
+}
+
+export const PROVIDER_DETAILS: Record<ConnectionProvider, ProviderDetails> = {
+  gdrive: { label: "Google Drive", rootLabel: "My Drive" },
+  onedrive: { label: "OneDrive", rootLabel: "My files" },
+  notion: { label: "Notion", rootLabel: "Workspace" },
+  local: { label: "Local uploads", rootLabel: "Uploads" },
+};
+
+// Connection listings are cached per connection, so switching sources never mixes their folders.
+// Keys stay prefixed with "drive-files"/"drive-search" so everything listed can be matched at once.
+// folderId is "root" for the root listing
+export function connectionFilesKey(connectionId: string | null, folderId: string | null) {
+  return ["drive-files", connectionId, folderId] as const;
+}
+
+export function connectionSearchKey(connectionId: string | null, query: string) {
+  return ["drive-search", connectionId, query] as const;
+}
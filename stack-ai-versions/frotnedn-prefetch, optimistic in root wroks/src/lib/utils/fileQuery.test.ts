@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import type { FileItem } from "@/lib/types/file";
+import { compileFileQuery, fileQueryFilterFn, type FileQueryCondition } from "./fileQuery";
+
+const MB = 1024 ** 2;
+
+const FILES: FileItem[] = [
+  { id: "report", name: "Reports/quarterly report.pdf", type: "file", size: 8 * MB, mime_type: "application/pdf", status: "indexed", indexed_at: "2024-03-10T12:00:00Z" },
+  { id: "draft", name: "Reports/draft.docx", type: "file", size: 200 * 1024, mime_type: "application/vnd.openxmlformats-officedocument.wordprocessingml.document", status: "failed" },
+  { id: "archive", name: "Reports/2023/archive.pdf", type: "file", size: 5 * MB, mime_type: "application/pdf", status: "indexed", indexed_at: "2023-12-01T08:00:00Z" },
+  { id: "notes", name: "notes.txt", type: "file", size: 900, mime_type: "text/plain" },
+  { id: "slides", name: "slides.pptx", type: "file", size: 3 * MB, status: "error" },
+  { id: "reports", name: "Reports", type: "directory", size: 0 },
+];
+
+// Ids of the files that pass every column filter, the way the table applies them
+function search(query: string): string[] {
+  const { filters } = compileFileQuery(query);
+  return FILES.filter((file) => filters.every((filter) => fileQueryFilterFn(file, filter.value as FileQueryCondition[]))).map(
+    (file) => file.id
+  );
+}
+
+describe("compileFileQuery", () => {
+  it("groups the conditions by the column they filter", () => {
+    const { filters, errors } = compileFileQuery("status:failed type:pdf mime:text name:draft report");
+    expect(errors).toEqual([]);
+    expect(filters.map((filter) => [filter.id, (filter.value as FileQueryCondition[]).map((condition) => condition.field)])).toEqual([
+      ["status", ["status"]],
+      ["mime_type", ["type", "mime"]],
+      ["name", ["name", "text"]],
+    ]);
+  });
+
+  it("parses sizes with units into bytes", () => {
+    const sizes = (query: string) =>
+      (compileFileQuery(query).filters[0].value as FileQueryCondition[]).map((condition) => [condition.operator, condition.numeric]);
+
+    expect(sizes("size>5MB")).toEqual([[">", 5 * MB]]);
+    expect(sizes("size>=1.5kb size<2GB")).toEqual([
+      [">=", 1536],
+      ["<", 2 * 1024 ** 3],
+    ]);
+    expect(sizes("size<=100")).toEqual([["<=", 100]]);
+  });
+
+  it("compiles globs in name and path, anchored at the root for paths", () => {
+    const [condition] = compileFileQuery("path:Reports/*").filters[0].value as FileQueryCondition[];
+    expect(condition.pattern?.source).toBe("^\\/reports\\/.*$");
+
+    const [plain] = compileFileQuery("path:/Reports").filters[0].value as FileQueryCondition[];
+    expect(plain.pattern).toBeUndefined();
+  });
+
+  it("keeps quoted phrases together and drops the quotes", () => {
+    const { filters, tokens } = compileFileQuery('name:"quarterly report" -"draft"');
+    expect(tokens).toHaveLength(2);
+    expect(filters[0].value).toEqual([
+      expect.objectContaining({ field: "name", value: "quarterly report", negate: false }),
+      expect.objectContaining({ field: "text", value: "draft", negate: true }),
+    ]);
+  });
+
+  describe("errors", () => {
+    it("reports unknown fields with the offsets of the whole term", () => {
+      const { tokens, errors, filters } = compileFileQuery("status:failed owner:me");
+      const message = 'Unknown field "owner" (use name, path, type, ext, mime, size, status, indexed, indexed_at)';
+
+      expect(errors).toEqual([{ start: 14, end: 22, message }]);
+      expect(tokens).toEqual([
+        { start: 0, end: 13, keyEnd: 7 },
+        { start: 14, end: 22, keyEnd: 20, error: message },
+      ]);
+      // The valid terms still apply
+      expect(filters.map((filter) => filter.id)).toEqual(["status"]);
+    });
+
+    it("reports invalid values and comparisons", () => {
+      expect(compileFileQuery("size>big").errors).toEqual([
+        { start: 0, end: 8, message: 'Invalid size "big" (try 500KB or 5MB)' },
+      ]);
+      expect(compileFileQuery("indexed>yesterday").errors).toEqual([
+        { start: 0, end: 17, message: 'Invalid date "yesterday" (try 2024-01-31)' },
+      ]);
+      expect(compileFileQuery("name>draft").errors).toEqual([{ start: 0, end: 10, message: "name can't be compared with >" }]);
+      expect(compileFileQuery("status:").errors).toEqual([{ start: 0, end: 7, message: "Missing value for status" }]);
+    });
+
+    it("reports unclosed quotes up to the end of the query", () => {
+      expect(compileFileQuery('type:pdf "quarterly report').errors).toEqual([{ start: 9, end: 26, message: "Unclosed quote" }]);
+    });
+
+    it("skips the whitespace around terms in the offsets", () => {
+      expect(compileFileQuery("  draft   size>x ").tokens).toEqual([
+        { start: 2, end: 7 },
+        { start: 10, end: 16, keyEnd: 15, error: 'Invalid size "x" (try 500KB or 5MB)' },
+      ]);
+    });
+  });
+});
+
+describe("fileQueryFilterFn", () => {
+  it("keeps every file without conditions", () => {
+    expect(fileQueryFilterFn(FILES[0], undefined)).toBe(true);
+    expect(fileQueryFilterFn(FILES[0], [])).toBe(true);
+    expect(search("")).toEqual(FILES.map((file) => file.id));
+  });
+
+  it("matches bare words against the name and the status", () => {
+    expect(search("report")).toEqual(["report", "draft", "archive", "reports"]);
+    expect(search("failed")).toEqual(["draft"]);
+  });
+
+  it("matches field qualifiers", () => {
+    expect(search("status:indexed")).toEqual(["report", "archive"]);
+    expect(search("status:none")).toEqual(["notes", "reports"]);
+    expect(search("type:pdf")).toEqual(["report", "archive"]);
+    expect(search("ext:.txt")).toEqual(["notes"]);
+    expect(search("type:folder")).toEqual(["reports"]);
+    expect(search("mime:wordprocessing")).toEqual(["draft"]);
+    expect(search("name:arch")).toEqual(["archive"]);
+    expect(search("indexed:2024-03")).toEqual(["report"]);
+    expect(search("indexed<2024-01-01")).toEqual(["archive"]);
+  });
+
+  it("treats failed and error as the same status", () => {
+    expect(search("status:failed")).toEqual(["draft", "slides"]);
+    expect(search("status:error")).toEqual(["draft", "slides"]);
+    expect(search("-status:failed type:file")).toEqual(["report", "archive", "notes"]);
+  });
+
+  it("compares sizes, only for files", () => {
+    expect(search("size>5MB")).toEqual(["report"]);
+    expect(search("size>=5MB")).toEqual(["report", "archive"]);
+    expect(search("size<1kb")).toEqual(["notes"]);
+    expect(search("size=900")).toEqual(["notes"]);
+  });
+
+  it("matches path prefixes and globs", () => {
+    expect(search("path:/Reports")).toEqual(["report", "draft", "archive", "reports"]);
+    expect(search("path:/Reports/*.pdf")).toEqual(["report", "archive"]);
+    expect(search("path:Reports/????/*")).toEqual(["archive"]);
+    expect(search("name:*.docx")).toEqual(["draft"]);
+    // Name globs match the base name, not the path
+    expect(search("name:Reports*")).toEqual(["reports"]);
+  });
+
+  it("negates terms", () => {
+    expect(search("-name:draft type:file")).toEqual(["report", "archive", "notes", "slides"]);
+    expect(search("-status:none")).toEqual(["report", "draft", "archive", "slides"]);
+    expect(search("-size>1MB type:file")).toEqual(["draft", "notes"]);
+    expect(search("-report")).toEqual(["notes", "slides"]);
+  });
+
+  it("matches quoted phrases", () => {
+    expect(search('"quarterly report"')).toEqual(["report"]);
+    expect(search('name:"quarterly report"')).toEqual(["report"]);
+    expect(search('-"quarterly report" type:pdf')).toEqual(["archive"]);
+  });
+
+  it("ANDs terms together", () => {
+    expect(search("type:pdf status:indexed size<6MB")).toEqual(["archive"]);
+  });
+
+  it("ignores terms with errors", () => {
+    expect(search("owner:me type:pdf")).toEqual(["report", "archive"]);
+    expect(search("size>big")).toEqual(FILES.map((file) => file.id));
+  });
+});
@@ -0,0 +1,264 @@
+import type { ColumnFiltersState } from "@tanstack/react-table";
+import { FileItem } from "@/lib/types/file";
+
+/**
+ * Structured filter queries for the file table, e.g.
+ *   status:failed type:pdf size>5MB path:/Reports/* -name:draft "quarterly report"
+ * Terms are ANDed; a leading "-" negates a term; bare words keep the old name/status substring match.
+ * A query compiles into TanStack column filters, one entry per column holding that column's conditions.
+ */
+
+export type FileQueryField = "text" | "name" | "path" | "type" | "mime" | "size" | "status" | "indexed";
+export type FileQueryOperator = ":" | "=" | ">" | ">=" | "<" | "<=";
+
+export interface FileQueryCondition {
+  field: FileQueryField;
+  operator: FileQueryOperator;
+  value: string; // Lowercased
+  negate: boolean;
+  numeric?: number; // Bytes for size, epoch ms for indexed
+  pattern?: RegExp; // Compiled glob for name and path
+}
+
+// One term of the query, with character offsets for highlighting
+export interface FileQueryToken {
+  start: number;
+  end: number;
+  keyEnd?: number; // End of "field" + operator, when the term has one
+  error?: string;
+}
+
+export interface FileQueryError {
+  start: number;
+  end: number;
+  message: string;
+}
+
+export interface CompiledFileQuery {
+  filters: ColumnFiltersState;
+  tokens: FileQueryToken[];
+  errors: FileQueryError[];
+}
+
+// Table column each field filters through (mime_type and indexed_at are hidden columns)
+const FIELD_COLUMNS: Record<FileQueryField, string> = {
+  text: "name",
+  name: "name",
+  path: "name",
+  type: "mime_type",
+  mime: "mime_type",
+  size: "size",
+  status: "status",
+  indexed: "indexed_at",
+};
+
+const FIELD_ALIASES: Record<string, FileQueryField> = {
+  name: "name",
+  path: "path",
+  type: "type",
+  ext: "type",
+  mime: "mime",
+  size: "size",
+  status: "status",
+  indexed: "indexed",
+  indexed_at: "indexed",
+};
+
+const COMPARABLE_FIELDS: FileQueryField[] = ["size", "indexed"];
+
+// Statuses that mean the same to the user (indexing failures come back as "error" and show as Failed)
+const STATUS_ALIASES: Record<string, string> = {
+  failed: "error",
+  error: "failed",
+};
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4,
+};
+
+const TERM_PATTERN = /^(-?)([a-z_]+)(>=|<=|:|=|>|<)(.*)$/i;
+
+// Split on whitespace, keeping quoted phrases together
+function tokenize(query: string): Array<{ text: string; start: number; end: number; unclosed: boolean }> {
+  const terms: Array<{ text: string; start: number; end: number; unclosed: boolean }> = [];
+  let index = 0;
+
+  while (index < query.length) {
+    if (/\s/.test(query[index])) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    let inQuotes = false;
+    while (index < query.length && (inQuotes || !/\s/.test(query[index]))) {
+      if (query[index] === '"') inQuotes = !inQuotes;
+      index++;
+    }
+    terms.push({ text: query.slice(start, index), start, end: index, unclosed: inQuotes });
+  }
+
+  return terms;
+}
+
+function unquote(value: string): string {
+  return value.replace(/"/g, "");
+}
+
+// "*" matches anything, "?" one character; the whole value has to match
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split("")
+    .map((char) => (char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
+
+function parseSize(value: string): number | null {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb|tb)?$/);
+  if (!match) return null;
+  return Math.round(parseFloat(match[1]) * SIZE_UNITS[match[2] || "b"]);
+}
+
+function buildCondition(field: FileQueryField, operator: FileQueryOperator, rawValue: string, negate: boolean): FileQueryCondition | string {
+  const value = unquote(rawValue).toLowerCase();
+  if (!value) return `Missing value for ${field}`;
+
+  if ((operator === ">" || operator === ">=" || operator === "<" || operator === "<=") && !COMPARABLE_FIELDS.includes(field)) {
+    return `${field} can't be compared with ${operator}`;
+  }
+
+  const condition: FileQueryCondition = { field, operator, value, negate };
+
+  if (field === "size") {
+    const bytes = parseSize(value);
+    if (bytes === null) return `Invalid size "${rawValue}" (try 500KB or 5MB)`;
+    condition.numeric = bytes;
+  } else if (field === "indexed") {
+    const timestamp = Date.parse(value);
+    if (Number.isNaN(timestamp)) return `Invalid date "${rawValue}" (try 2024-01-31)`;
+    condition.numeric = timestamp;
+  } else if ((field === "name" || field === "path") && /[*?]/.test(value)) {
+    condition.pattern = globToRegExp(field === "path" && !value.startsWith("/") ? `/${value}` : value);
+  }
+
+  return condition;
+}
+
+export function compileFileQuery(query: string): CompiledFileQuery {
+  const tokens: FileQueryToken[] = [];
+  const errors: FileQueryError[] = [];
+  const conditionsByColumn = new Map<string, FileQueryCondition[]>();
+
+  const addError = (token: FileQueryToken, message: string) => {
+    token.error = message;
+    errors.push({ start: token.start, end: token.end, message });
+  };
+
+  tokenize(query).forEach((term) => {
+    const token: FileQueryToken = { start: term.start, end: term.end };
+    tokens.push(token);
+
+    if (term.unclosed) {
+      addError(token, "Unclosed quote");
+      return;
+    }
+
+    let condition: FileQueryCondition | string;
+    const match = term.text.match(TERM_PATTERN);
+
+    if (match && !term.text.startsWith('"')) {
+      const [, negation, key, operator, value] = match;
+      const field = FIELD_ALIASES[key.toLowerCase()];
+      token.keyEnd = term.start + negation.length + key.length + operator.length;
+
+      if (!field) {
+        addError(token, `Unknown field "${key}" (use ${Object.keys(FIELD_ALIASES).join(", ")})`);
+        return;
+      }
+      condition = buildCondition(field, operator as FileQueryOperator, value, negation === "-");
+    } else {
+      const negate = term.text.startsWith("-") && term.text.length > 1;
+      condition = buildCondition("text", ":", negate ? term.text.slice(1) : term.text, negate);
+    }
+
+    if (typeof condition === "string") {
+      addError(token, condition);
+      return;
+    }
+
+    const columnId = FIELD_COLUMNS[condition.field];
+    conditionsByColumn.set(columnId, [...(conditionsByColumn.get(columnId) || []), condition]);
+  });
+
+  return {
+    filters: Array.from(conditionsByColumn, ([id, value]) => ({ id, value })),
+    tokens,
+    errors,
+  };
+}
+
+function compare(actual: number, operator: FileQueryOperator, expected: number): boolean {
+  switch (operator) {
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    default:
+      return actual === expected;
+  }
+}
+
+function matchesPositive(file: FileItem, condition: FileQueryCondition): boolean {
+  const { field, value, operator, numeric, pattern } = condition;
+  const fullName = file.name.toLowerCase();
+  const baseName = fullName.split("/").pop() || fullName;
+  const status = file.status?.toLowerCase() || "";
+
+  switch (field) {
+    case "text":
+      return fullName.includes(value) || status.includes(value);
+    case "name":
+      return pattern ? pattern.test(baseName) : baseName.includes(value);
+    case "path": {
+      const path = `/${fullName}`;
+      return pattern ? pattern.test(path) : path.startsWith(value.startsWith("/") ? value : `/${value}`);
+    }
+    case "type":
+      if (value === "folder" || value === "directory") return file.type === "directory";
+      if (value === "file") return file.type === "file";
+      return baseName.endsWith(`.${value.replace(/^\./, "")}`) || !!file.mime_type?.toLowerCase().includes(value);
+    case "mime":
+      return !!file.mime_type?.toLowerCase().includes(value);
+    case "size":
+      return file.type === "file" && typeof file.size === "number" && compare(file.size, operator, numeric!);
+    case "status":
+      // "none" finds files that aren't in the knowledge base
+      if (value === "none" || value === "-") return !status;
+      return status === value || status === STATUS_ALIASES[value];
+    case "indexed": {
+      if (!file.indexed_at) return false;
+      if (operator === ":" || operator === "=") return file.indexed_at.toLowerCase().startsWith(value);
+      const indexedAt = Date.parse(file.indexed_at);
+      return !Number.isNaN(indexedAt) && compare(indexedAt, operator, numeric!);
+    }
+  }
+}
+
+export function matchesFileQueryCondition(file: FileItem, condition: FileQueryCondition): boolean {
+  const matches = matchesPositive(file, condition);
+  return condition.negate ? !matches : matches;
+}
+
+// Column filterFn: the column's filter value is the list of conditions compiled for it
+export function fileQueryFilterFn(file: FileItem, conditions: FileQueryCondition[] | undefined): boolean {
+  return !conditions?.length || conditions.every((condition) => matchesFileQueryCondition(file, condition));
+}
@@ -0,0 +1,11 @@
+import { KBDetails } from "@/lib/types/knowledgeBase";
+
+/**
+ * Name and description for a new KB when the user doesn't provide any
+ */
+export function getDefaultKBDetails(sourceLabel?: string): KBDetails {
+  return {
+    name: `Knowledge Base ${new Date().toLocaleString()}`,
+    description: sourceLabel ? `Created from files in ${sourceLabel}` : "Created from connected files",
+  };
+}
@@ -1,25 +1,42 @@
-const KB_STORAGE_KEY = "stackai_knowledge_base";
+import type { DeleteRequest } from "@/lib/types/deleteQueue";
+import type { SavedView } from "@/lib/types/savedView";
+
+const KB_STORAGE_KEY = "stackai_knowledge_base"; // Currently selected KB
+const KB_LIST_STORAGE_KEY = "stackai_knowledge_bases";
 const CACHE_STORAGE_KEY = "stackai_cache_data";
+const DELETE_QUEUE_STORAGE_KEY = "stackai_delete_queue";
+const SAVED_VIEWS_STORAGE_KEY = "stackai_saved_views"; // Views keyed by KB ID
+const CONNECTION_STORAGE_KEY = "stackai_connection"; // Currently selected connection ID
+const CACHE_VERSION = "2.0";
+const CACHE_MAX_AGE = 24 * 60 * 60 * 1000; // 24 hours
 
 export interface KBStorageData {
   id: string;
   name: string;
   created_at: string;
+  description?: string;
+  connection_id?: string; // Missing for KBs stored before connections were tracked
 }
 
-// Cache data structure for persistence
-export interface CacheStorageData {
+// Cached KB state for a single knowledge base
+export interface KBCacheNamespace {
   kbId: string;
   timestamp: number;
   rootResources: { data: any[] } | null;
   folderStatuses: Record<string, { data: any[] }>;
   optimisticRegistry: Record<string, any>;
+}
+
+// Cache data structure for persistence, namespaced per KB so switching KBs doesn't clobber caches
+export interface CacheStorageData {
   version: string; // For cache migration if needed
+  namespaces: Record<string, KBCacheNamespace>;
 }
 
 export function saveKBToStorage(kb: KBStorageData): void {
   try {
     localStorage.setItem(KB_STORAGE_KEY, JSON.stringify(kb));
+    addKBToStorageList(kb);
   } catch (error) {
     console.error("Failed to save KB to localStorage:", error);
   }
@@ -43,63 +60,234 @@ export function clearKBFromStorage(): void {
   }
 }
 
+export function saveConnectionToStorage(connectionId: string): void {
+  try {
+    localStorage.setItem(CONNECTION_STORAGE_KEY, connectionId);
+  } catch (error) {
+    console.error("Failed to save connection to localStorage:", error);
+  }
+}
+
+export function getConnectionFromStorage(): string | null {
+  try {
+    return localStorage.getItem(CONNECTION_STORAGE_KEY);
+  } catch (error) {
+    console.error("Failed to get connection from localStorage:", error);
+    return null;
+  }
+}
+
 export function hasStoredKB(): boolean {
   return getKBFromStorage() !== null;
 }
 
+// Known KBs, so the switcher still works when the backend can't list them
+export function getKBListFromStorage(): KBStorageData[] {
+  try {
+    const stored = localStorage.getItem(KB_LIST_STORAGE_KEY);
+    const list: KBStorageData[] = stored ? JSON.parse(stored) : [];
+
+    // Migrate the single KB stored before multi-KB support
+    const current = getKBFromStorage();
+    if (current && !list.some((kb) => kb.id === current.id)) {
+      list.push(current);
+    }
+
+    return list;
+  } catch (error) {
+    console.error("Failed to get KB list from localStorage:", error);
+    return [];
+  }
+}
+
+export function addKBToStorageList(kb: KBStorageData): void {
+  try {
+    const list = getKBListFromStorage().filter((stored) => stored.id !== kb.id);
+    localStorage.setItem(KB_LIST_STORAGE_KEY, JSON.stringify([...list, kb]));
+  } catch (error) {
+    console.error("Failed to add KB to localStorage list:", error);
+  }
+}
+
+export function removeKBFromStorageList(kbId: string): void {
+  try {
+    const list = getKBListFromStorage().filter((stored) => stored.id !== kbId);
+    localStorage.setItem(KB_LIST_STORAGE_KEY, JSON.stringify(list));
+  } catch (error) {
+    console.error("Failed to remove KB from localStorage list:", error);
+  }
+}
+
+// Read the whole cache, migrating the old single-KB format and dropping expired namespaces
+function readCacheStorage(): CacheStorageData {
+  const empty: CacheStorageData = { version: CACHE_VERSION, namespaces: {} };
+  const stored = localStorage.getItem(CACHE_STORAGE_KEY);
+  if (!stored) return empty;
+
+  const parsed = JSON.parse(stored);
+
+  // v1.0 stored one KB at the top level
+  const namespaces: Record<string, KBCacheNamespace> =
+    parsed.version === CACHE_VERSION
+      ? parsed.namespaces || {}
+      : parsed.kbId
+        ? {
+            [parsed.kbId]: {
+              kbId: parsed.kbId,
+              timestamp: parsed.timestamp,
+              rootResources: parsed.rootResources,
+              folderStatuses: parsed.folderStatuses || {},
+              optimisticRegistry: parsed.optimisticRegistry || {},
+            },
+          }
+        : {};
+
+  Object.keys(namespaces).forEach((kbId) => {
+    if (Date.now() - namespaces[kbId].timestamp > CACHE_MAX_AGE) {
+      console.log(`📅 [Cache] Cache expired for KB: ${kbId}, clearing`);
+      delete namespaces[kbId];
+    }
+  });
+
+  return { version: CACHE_VERSION, namespaces };
+}
+
+function writeCacheStorage(cacheData: CacheStorageData): void {
+  if (Object.keys(cacheData.namespaces).length === 0) {
+    localStorage.removeItem(CACHE_STORAGE_KEY);
+    return;
+  }
+  localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(cacheData));
+}
+
 // New: Cache persistence functions
-export function saveCacheToStorage(cacheData: CacheStorageData): void {
+export function saveCacheToStorage(cacheData: KBCacheNamespace): void {
   try {
-    localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(cacheData));
+    const current = readCacheStorage();
+    writeCacheStorage({
+      ...current,
+      namespaces: { ...current.namespaces, [cacheData.kbId]: cacheData },
+    });
     console.log(`💾 [Cache] Saved cache to localStorage for KB: ${cacheData.kbId}`);
   } catch (error) {
     console.error("Failed to save cache to localStorage:", error);
   }
 }
 
-export function getCacheFromStorage(): CacheStorageData | null {
+export function getCacheFromStorage(kbId: string): KBCacheNamespace | null {
   try {
-    const stored = localStorage.getItem(CACHE_STORAGE_KEY);
-    const parsed = stored ? JSON.parse(stored) : null;
-    
-    if (parsed) {
-      // Check if cache is not too old (24 hours)
-      const maxAge = 24 * 60 * 60 * 1000; // 24 hours
-      if (Date.now() - parsed.timestamp > maxAge) {
-        console.log("📅 [Cache] Cache expired, clearing");
-        clearCacheFromStorage();
-        return null;
-      }
-      console.log(`📖 [Cache] Loaded cache from localStorage for KB: ${parsed.kbId}`);
+    const cached = readCacheStorage().namespaces[kbId] || null;
+    if (cached) {
+      console.log(`📖 [Cache] Loaded cache from localStorage for KB: ${kbId}`);
     }
-    
-    return parsed;
+    return cached;
   } catch (error) {
     console.error("Failed to get cache from localStorage:", error);
     return null;
   }
 }
 
-export function clearCacheFromStorage(): void {
+export function getAllCachesFromStorage(): KBCacheNamespace[] {
   try {
-    localStorage.removeItem(CACHE_STORAGE_KEY);
-    console.log("🗑️ [Cache] Cleared cache from localStorage");
+    return Object.values(readCacheStorage().namespaces);
+  } catch (error) {
+    console.error("Failed to get caches from localStorage:", error);
+    return [];
+  }
+}
+
+// Clear one KB's cache, or every KB's cache when no ID is given
+export function clearCacheFromStorage(kbId?: string): void {
+  try {
+    if (kbId) {
+      const current = readCacheStorage();
+      delete current.namespaces[kbId];
+      writeCacheStorage(current);
+      console.log(`🗑️ [Cache] Cleared cache from localStorage for KB: ${kbId}`);
+    } else {
+      localStorage.removeItem(CACHE_STORAGE_KEY);
+      console.log("🗑️ [Cache] Cleared cache from localStorage");
+    }
   } catch (error) {
     console.error("Failed to clear cache from localStorage:", error);
   }
 }
 
-export function updateCacheInStorage(updater: (prev: CacheStorageData | null) => CacheStorageData | null): void {
+export function updateCacheInStorage(kbId: string, updater: (prev: KBCacheNamespace | null) => KBCacheNamespace | null): void {
   try {
-    const current = getCacheFromStorage();
+    const current = getCacheFromStorage(kbId);
     const updated = updater(current);
-    
+
     if (updated) {
       saveCacheToStorage(updated);
     } else {
-      clearCacheFromStorage();
+      clearCacheFromStorage(kbId);
     }
   } catch (error) {
     console.error("Failed to update cache in localStorage:", error);
   }
-} 
\ No newline at end of file
+}
+
+// Pending deletes outlive the page, the optimistic registry already hides these files
+export function saveDeleteQueueToStorage(queue: DeleteRequest[]): void {
+  try {
+    if (queue.length === 0) {
+      localStorage.removeItem(DELETE_QUEUE_STORAGE_KEY);
+      return;
+    }
+    localStorage.setItem(DELETE_QUEUE_STORAGE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    console.error("Failed to save delete queue to localStorage:", error);
+  }
+}
+
+export function getDeleteQueueFromStorage(): DeleteRequest[] {
+  try {
+    const stored = localStorage.getItem(DELETE_QUEUE_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Failed to get delete queue from localStorage:", error);
+    return [];
+  }
+}
+
+function getAllSavedViews(): Record<string, SavedView[]> {
+  const stored = localStorage.getItem(SAVED_VIEWS_STORAGE_KEY);
+  return stored ? JSON.parse(stored) : {};
+}
+
+export function getSavedViewsFromStorage(kbId: string): SavedView[] {
+  try {
+    return getAllSavedViews()[kbId] || [];
+  } catch (error) {
+    console.error("Failed to get saved views from localStorage:", error);
+    return [];
+  }
+}
+
+export function saveSavedViewsToStorage(kbId: string, views: SavedView[]): void {
+  try {
+    const allViews = getAllSavedViews();
+    if (views.length === 0) {
+      delete allViews[kbId];
+    } else {
+      allViews[kbId] = views;
+    }
+    localStorage.setItem(SAVED_VIEWS_STORAGE_KEY, JSON.stringify(allViews));
+  } catch (error) {
+    console.error("Failed to save views to localStorage:", error);
+  }
+}
+
+export function clearSavedViewsFromStorage(kbId: string): void {
+  saveSavedViewsToStorage(kbId, []);
+}
+
+// Views of a temp KB move to its real ID once the backend created it
+export function moveSavedViewsInStorage(fromKbId: string, toKbId: string): void {
+  const views = getSavedViewsFromStorage(fromKbId);
+  if (views.length === 0) return;
+
+  saveSavedViewsToStorage(toKbId, [...getSavedViewsFromStorage(toKbId), ...views]);
+  saveSavedViewsToStorage(fromKbId, []);
+}
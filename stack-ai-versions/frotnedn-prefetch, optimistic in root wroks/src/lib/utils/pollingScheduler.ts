@@ -0,0 +1,183 @@
+// Central scheduler for KB status polling (root and folders).
+// - One watch per key, so the same folder is never polled twice
+// - Backs off exponentially while nothing changes, resets when statuses move
+// - Pauses while the tab is hidden and polls right away when it comes back
+
+// What a poll found: statuses moved, nothing moved, or everything settled (stop watching)
+export type PollResult = "changed" | "unchanged" | "settled";
+
+export interface PollWatchOptions {
+  kbId: string;
+  path: string; // "/" for the KB root
+  task: () => Promise<PollResult>;
+  baseInterval?: number; // ms
+  maxInterval?: number; // ms
+}
+
+export interface WatchedPath {
+  key: string;
+  kbId: string;
+  path: string;
+  interval: number; // Current delay between polls, grows while nothing changes
+}
+
+interface WatchEntry extends WatchedPath {
+  task: () => Promise<PollResult>;
+  baseInterval: number;
+  maxInterval: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  running: boolean;
+}
+
+const DEFAULT_BASE_INTERVAL = 1000; // 1 second
+const DEFAULT_MAX_INTERVAL = 30 * 1000; // 30 seconds
+
+export const getPollKey = (kbId: string, path: string) => `${kbId}:${path}`;
+
+export function createPollingScheduler() {
+  const entries = new Map<string, WatchEntry>();
+  const listeners = new Set<() => void>();
+  let snapshot: WatchedPath[] = [];
+  let paused = false;
+  let listeningToVisibility = false;
+
+  const notify = () => {
+    snapshot = Array.from(entries.values()).map(({ key, kbId, path, interval }) => ({ key, kbId, path, interval }));
+    listeners.forEach((listener) => listener());
+  };
+
+  const schedule = (entry: WatchEntry, delay: number) => {
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.timer = paused ? null : setTimeout(() => run(entry.key), delay);
+  };
+
+  const run = async (key: string) => {
+    const entry = entries.get(key);
+    if (!entry || entry.running || paused) return;
+
+    entry.timer = null;
+    entry.running = true;
+    let result: PollResult;
+    try {
+      result = await entry.task();
+    } catch (error) {
+      console.error(`❌ [Polling] Poll failed for ${key}:`, error);
+      result = "unchanged"; // Back off on errors too
+    }
+    entry.running = false;
+
+    // Unwatched or replaced while the poll was in flight
+    if (entries.get(key) !== entry) return;
+
+    if (result === "settled") {
+      console.log(`✅ [Polling] ${key} settled, stopping`);
+      unwatch(key);
+      return;
+    }
+
+    entry.interval = result === "changed" ? entry.baseInterval : Math.min(entry.interval * 2, entry.maxInterval);
+    schedule(entry, entry.interval);
+    notify();
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.hidden) {
+      console.log("⏸️ [Polling] Tab hidden, pausing status polling");
+      paused = true;
+      entries.forEach((entry) => {
+        if (entry.timer) clearTimeout(entry.timer);
+        entry.timer = null;
+      });
+      return;
+    }
+
+    resume();
+  };
+
+  const resume = () => {
+    if (!paused) return;
+    console.log("▶️ [Polling] Tab visible, resuming status polling");
+    paused = false;
+    entries.forEach((entry) => schedule(entry, 0));
+  };
+
+  const updateVisibilityListeners = () => {
+    if (typeof document === "undefined") return;
+
+    if (entries.size > 0 && !listeningToVisibility) {
+      document.addEventListener("visibilitychange", handleVisibilityChange);
+      window.addEventListener("focus", resume);
+      listeningToVisibility = true;
+      paused = document.hidden;
+    } else if (entries.size === 0 && listeningToVisibility) {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("focus", resume);
+      listeningToVisibility = false;
+      paused = false;
+    }
+  };
+
+  // Start watching a path; an existing watch for the same path is replaced and its backoff reset
+  const watch = ({ kbId, path, task, baseInterval = DEFAULT_BASE_INTERVAL, maxInterval = DEFAULT_MAX_INTERVAL }: PollWatchOptions) => {
+    const key = getPollKey(kbId, path);
+    const existing = entries.get(key);
+    if (existing?.timer) clearTimeout(existing.timer);
+
+    const entry: WatchEntry = { key, kbId, path, task, baseInterval, maxInterval, interval: baseInterval, timer: null, running: false };
+    entries.set(key, entry);
+    updateVisibilityListeners();
+    schedule(entry, baseInterval);
+    notify();
+
+    return () => {
+      if (entries.get(key) === entry) unwatch(key);
+    };
+  };
+
+  const unwatch = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return;
+
+    if (entry.timer) clearTimeout(entry.timer);
+    entries.delete(key);
+    updateVisibilityListeners();
+    notify();
+  };
+
+  // Stop every watch for a KB, e.g. when switching KBs or unmounting
+  const unwatchKB = (kbId: string) => {
+    Array.from(entries.values())
+      .filter((entry) => entry.kbId === kbId)
+      .forEach((entry) => unwatch(entry.key));
+  };
+
+  // Poll now with the backoff reset (e.g. right after files were added)
+  const poke = (kbId: string, path: string) => {
+    const entry = entries.get(getPollKey(kbId, path));
+    if (!entry) return;
+
+    entry.interval = entry.baseInterval;
+    schedule(entry, 0);
+    notify();
+  };
+
+  return {
+    watch,
+    unwatch,
+    unwatchKB,
+    poke,
+    isWatching: (kbId: string, path: string) => entries.has(getPollKey(kbId, path)),
+    getWatchedPaths: () => snapshot,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export type PollingScheduler = ReturnType<typeof createPollingScheduler>;
+
+// Shared by all status hooks
+export const pollingScheduler = createPollingScheduler();
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import type { FileItem } from "@/lib/types/file";
+import { buildParentMap, deduplicateResourceIds } from "./resourceDeduplication";
+
+function folder(id: string, name: string, children?: FileItem[]): FileItem {
+  return { id, name, type: "directory", size: 0, children };
+}
+
+function file(id: string, name: string): FileItem {
+  return { id, name, type: "file", size: 1 };
+}
+
+// Reports/
+//   q1.pdf
+//   2024/
+//     q2.pdf
+// Reports 2024/
+//   summary.pdf
+// notes.txt
+const q1 = file("q1", "Reports/q1.pdf");
+const q2 = file("q2", "Reports/2024/q2.pdf");
+const sub = folder("sub", "Reports/2024");
+const reports = folder("reports", "Reports");
+const reports2024 = folder("reports-2024", "Reports 2024");
+const summary = file("summary", "Reports 2024/summary.pdf");
+const notes = file("notes", "notes.txt");
+
+const FILES = [reports, q1, sub, q2, reports2024, summary, notes];
+
+// The same tree as it comes from the folder listings
+const PARENT_IDS = buildParentMap([
+  [null, [reports, reports2024, notes]],
+  ["reports", [q1, sub]],
+  ["sub", [q2]],
+  ["reports-2024", [summary]],
+]);
+
+describe("buildParentMap", () => {
+  it("maps every listed item to the folder it was listed in", () => {
+    expect(PARENT_IDS.get("reports")).toBeNull();
+    expect(PARENT_IDS.get("q1")).toBe("reports");
+    expect(PARENT_IDS.get("q2")).toBe("sub");
+    expect(PARENT_IDS.get("summary")).toBe("reports-2024");
+  });
+});
+
+describe("deduplicateResourceIds", () => {
+  it("leaves selections without folders alone", () => {
+    expect(deduplicateResourceIds(["q1", "notes"], FILES, { parentIds: PARENT_IDS })).toEqual(["q1", "notes"]);
+  });
+
+  it("drops duplicate ids and keeps the first occurrence's order", () => {
+    expect(deduplicateResourceIds(["notes", "q1", "notes", "q1"], FILES)).toEqual(["notes", "q1"]);
+    expect(deduplicateResourceIds(["notes", "notes"], FILES)).toEqual(["notes"]);
+  });
+
+  it("keeps ids whose place in the tree is unknown", () => {
+    expect(deduplicateResourceIds(["reports", "unknown", "q1"], FILES, { parentIds: PARENT_IDS })).toEqual(["reports", "unknown"]);
+    expect(deduplicateResourceIds(["reports", "unknown"], FILES, { recursive: true, parentIds: PARENT_IDS })).toEqual([
+      "reports",
+      "unknown",
+    ]);
+  });
+
+  it("doesn't confuse folders that share a name prefix", () => {
+    const selection = ["reports", "summary"];
+    expect(deduplicateResourceIds(selection, FILES, { parentIds: PARENT_IDS })).toEqual(selection);
+    expect(deduplicateResourceIds(selection, FILES, { recursive: true, parentIds: PARENT_IDS })).toEqual(selection);
+    // Only real parents count, even when the names would match
+    expect(deduplicateResourceIds(["reports-2024", "q1"], FILES, { recursive: true, parentIds: PARENT_IDS })).toEqual([
+      "reports-2024",
+      "q1",
+    ]);
+  });
+
+  describe("non-recursive indexing (default)", () => {
+    it("drops files directly inside a selected folder and keeps nested folders and their files", () => {
+      // folder + subfolder + file in each
+      const selection = ["reports", "q1", "sub", "q2"];
+      expect(deduplicateResourceIds(selection, FILES, { parentIds: PARENT_IDS })).toEqual(["reports", "sub"]);
+    });
+
+    it("keeps files deeper than one level below the selected folder", () => {
+      expect(deduplicateResourceIds(["reports", "q2"], FILES, { parentIds: PARENT_IDS })).toEqual(["reports", "q2"]);
+    });
+
+    it("keeps everything when the relationships aren't known", () => {
+      const selection = ["reports", "q1", "sub", "q2"];
+      expect(deduplicateResourceIds(selection, FILES)).toEqual(selection);
+    });
+  });
+
+  describe("recursive indexing", () => {
+    it("drops anything below a selected folder, nested folders included", () => {
+      const selection = ["reports", "q1", "sub", "q2", "notes"];
+      expect(deduplicateResourceIds(selection, FILES, { recursive: true, parentIds: PARENT_IDS })).toEqual(["reports", "notes"]);
+    });
+
+    it("keeps a subfolder when only the subfolder is selected", () => {
+      expect(deduplicateResourceIds(["sub", "q2", "q1"], FILES, { recursive: true, parentIds: PARENT_IDS })).toEqual(["sub", "q1"]);
+    });
+
+    it("keeps everything when the relationships aren't known", () => {
+      const selection = ["reports", "q1", "sub", "q2"];
+      expect(deduplicateResourceIds(selection, FILES, { recursive: true })).toEqual(selection);
+    });
+  });
+
+  describe("relationships held by tree items", () => {
+    // Folders built by the file tree carry their loaded children; the visible rows are passed flattened
+    const treeSub = folder("sub", "Reports/2024", [q2]);
+    const treeReports = folder("reports", "Reports", [q1, treeSub]);
+    const TREE = [treeReports, q1, treeSub, q2, reports2024, notes];
+
+    it("uses the children of the files passed in when no listings are given", () => {
+      const selection = ["reports", "q1", "sub", "q2"];
+      expect(deduplicateResourceIds(selection, TREE)).toEqual(["reports", "sub"]);
+      expect(deduplicateResourceIds(selection, TREE, { recursive: true })).toEqual(["reports"]);
+    });
+
+    it("prefers the listings over the tree items", () => {
+      // The listing says q1 moved to the root
+      const parentIds = buildParentMap([[null, [q1]]]);
+      expect(deduplicateResourceIds(["reports", "q1"], TREE, { parentIds })).toEqual(["reports", "q1"]);
+    });
+  });
+});
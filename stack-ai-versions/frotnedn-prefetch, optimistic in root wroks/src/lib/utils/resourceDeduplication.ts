@@ -1,53 +1,88 @@
 import { FileItem } from "@/lib/types/file";
 
+// Parent folder id of each resource (null for items in the Drive root)
+export type ParentMap = Map<string, string | null>;
+
+export interface DeduplicationOptions {
+  /**
+   * Whether the backend indexes a folder's whole subtree. If so, anything below a selected folder is dropped,
+   * nested folders included. If not (our backend), each folder only brings in its direct files, so nested
+   * folders have to be sent explicitly and only files directly inside a selected folder are dropped.
+   */
+  recursive?: boolean;
+  // Parent relationships, e.g. from the cached folder listings; merged with the files' own children
+  parentIds?: ParentMap;
+}
+
 /**
- * Process resource IDs for KB creation
- * Since backend doesn't recursively index, we need to include ALL folder IDs
- * Only remove individual files if their direct parent folder is selected
+ * Parent relationships from folder listings ([folder id or null for the root, its contents]).
+ * Relationships come from where an item was listed, never from its name, so folders that share a name
+ * or a name prefix ("Reports" and "Reports 2024") can't be confused.
  */
-export function deduplicateResourceIds(selectedIds: string[], files: FileItem[]): string[] {
-  if (selectedIds.length <= 1) {
-    return selectedIds; // No deduplication needed
-  }
+export function buildParentMap(listings: Array<[string | null, FileItem[]]>): ParentMap {
+  const parentIds: ParentMap = new Map();
+  listings.forEach(([parentId, items]) => {
+    items.forEach((item) => parentIds.set(item.id, parentId));
+  });
+  return parentIds;
+}
 
-  // Create a map of file ID to file for quick lookup
-  const fileMap = new Map<string, FileItem>();
+// Relationships held by tree items themselves (folders built by the file tree carry their children)
+function collectChildren(files: FileItem[], parentIds: ParentMap) {
   files.forEach((file) => {
-    fileMap.set(file.id, file);
+    file.children?.forEach((child) => {
+      if (!parentIds.has(child.id)) parentIds.set(child.id, file.id);
+    });
+    if (file.children?.length) collectChildren(file.children, parentIds);
   });
+}
 
-  // Find all selected folders
-  const selectedFolders = selectedIds.map((id) => fileMap.get(id)).filter((file): file is FileItem => file?.type === "directory");
-
-  if (selectedFolders.length === 0) {
-    return selectedIds; // No folders selected, no deduplication needed
+/**
+ * Smallest set of resource IDs that still covers the selection when sent to the backend.
+ * IDs keep their order; duplicates are dropped; IDs whose place in the tree is unknown are always kept,
+ * since sending a covered ID twice is harmless but dropping an uncovered one loses it.
+ */
+export function deduplicateResourceIds(selectedIds: string[], files: FileItem[], options: DeduplicationOptions = {}): string[] {
+  const uniqueIds = Array.from(new Set(selectedIds));
+  if (uniqueIds.length <= 1) {
+    return uniqueIds; // No deduplication needed
   }
 
-  // Only remove individual FILES if their DIRECT parent folder is selected
-  // Keep ALL folders (backend needs explicit folder IDs for nested indexing)
-  const deduplicatedIds = selectedIds.filter((id) => {
-    const file = fileMap.get(id);
-    if (!file) return true; // Keep unknown IDs
+  const fileMap = new Map<string, FileItem>();
+  files.forEach((file) => fileMap.set(file.id, file));
+
+  const parentIds: ParentMap = new Map(options.parentIds);
+  collectChildren(files, parentIds);
 
-    // Always keep folders - backend needs ALL folder IDs
-    if (file.type === "directory") return true;
+  const selectedFolderIds = new Set(uniqueIds.filter((id) => fileMap.get(id)?.type === "directory"));
+  if (selectedFolderIds.size === 0) {
+    return uniqueIds; // No folders selected, nothing can be covered
+  }
 
-    // For files, only remove if DIRECT parent folder is selected
-    const isDirectChildOfSelectedFolder = selectedFolders.some((folder) => {
-      // Check if file is a direct child (not nested deeper)
-      const filePath = file.name;
-      const folderPath = folder.name;
+  // Whether a selected folder already brings this resource in
+  const isCovered = (id: string): boolean => {
+    const file = fileMap.get(id);
+    if (!file) return false; // Unknown IDs are kept
 
-      // File should start with folder path + "/"
-      if (!filePath.startsWith(folderPath + "/")) return false;
+    if (!options.recursive) {
+      // Only files directly inside a selected folder; every folder is needed explicitly
+      return file.type === "file" && selectedFolderIds.has(parentIds.get(id) ?? "");
+    }
 
-      // Check if it's a direct child (no additional "/" after folder path)
-      const remainingPath = filePath.substring(folderPath.length + 1);
-      return !remainingPath.includes("/"); // Direct child has no more "/"
-    });
+    // Any selected ancestor covers it
+    const visited = new Set<string>([id]);
+    let parentId = parentIds.get(id);
+    while (parentId && !visited.has(parentId)) {
+      if (selectedFolderIds.has(parentId)) return true;
+      visited.add(parentId);
+      parentId = parentIds.get(parentId);
+    }
+    return false;
+  };
 
-    // Keep the file only if it's NOT a direct child of any selected folder
-    return !isDirectChildOfSelectedFolder;
-  });
+  const deduplicatedIds = uniqueIds.filter((id) => !isCovered(id));
+  if (deduplicatedIds.length < uniqueIds.length) {
+    console.log(`🧹 Deduplicated ${uniqueIds.length} selected resources to ${deduplicatedIds.length}`);
+  }
   return deduplicatedIds;
 }
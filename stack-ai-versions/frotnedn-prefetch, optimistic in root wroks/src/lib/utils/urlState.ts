@@ -0,0 +1,78 @@
+import type { SortingState } from "@tanstack/react-table";
+
+/**
+ * Navigation state kept in the page's search params, so a view can be shared as a link:
+ *   /?source=<connection id>&kb=<kb id>&folder=/Finance/Q3&q=status:failed&sort=-size
+ * folder repeats once per open folder (only the deepest ones; their parents are implied).
+ */
+export const URL_PARAMS = {
+  connection: "source",
+  kb: "kb",
+  folder: "folder",
+  filter: "q",
+  sort: "sort",
+} as const;
+
+export type UrlParam = (typeof URL_PARAMS)[keyof typeof URL_PARAMS];
+
+// One value per param; null removes it, an array writes it once per entry
+export type UrlParamsPatch = Partial<Record<UrlParam, string | string[] | null>>;
+
+let pushedThisTick = false;
+
+// Apply a patch to the current URL. Several pushes in the same tick (e.g. a KB switch that also collapses
+// folders) become one history entry
+export function updateUrlParams(patch: UrlParamsPatch, mode: "push" | "replace") {
+  const params = new URLSearchParams(window.location.search);
+
+  Object.entries(patch).forEach(([key, value]) => {
+    params.delete(key);
+    const values = value === null || value === undefined ? [] : Array.isArray(value) ? value : [value];
+    values.filter(Boolean).forEach((entry) => params.append(key, entry));
+  });
+
+  const search = params.toString();
+  if (`?${search}` === window.location.search || (!search && !window.location.search)) return;
+
+  const url = `${window.location.pathname}${search ? `?${search}` : ""}${window.location.hash}`;
+  if (mode === "push" && !pushedThisTick) {
+    pushedThisTick = true;
+    setTimeout(() => (pushedThisTick = false), 0);
+    window.history.pushState(null, "", url);
+  } else {
+    window.history.replaceState(null, "", url);
+  }
+}
+
+// "name,-size" <-> [{ id: "name", desc: false }, { id: "size", desc: true }]
+export function serializeSorting(sorting: SortingState): string {
+  return sorting.map((sort) => `${sort.desc ? "-" : ""}${sort.id}`).join(",");
+}
+
+export function parseSorting(value: string | null): SortingState {
+  if (!value) return [];
+  return value
+    .split(",")
+    .filter(Boolean)
+    .map((entry) => (entry.startsWith("-") ? { id: entry.slice(1), desc: true } : { id: entry, desc: false }));
+}
+
+// Only the deepest open folders go in the URL; "/Finance" is implied by "/Finance/Q3"
+export function getLeafFolderPaths(paths: string[]): string[] {
+  const normalized = Array.from(new Set(paths.map((path) => `/${path.replace(/^\/+|\/+$/g, "")}`)));
+  return normalized.filter((path) => !normalized.some((other) => other.startsWith(`${path}/`))).sort();
+}
+
+export const LOGIN_PATH = "/login";
+export const REDIRECT_PARAM = "redirect";
+
+// Login link that comes back to the given path (including its search params) after signing in
+export function getLoginUrl(returnTo: string): string {
+  return returnTo && returnTo !== "/" ? `${LOGIN_PATH}?${REDIRECT_PARAM}=${encodeURIComponent(returnTo)}` : LOGIN_PATH;
+}
+
+// Only same-origin paths are followed after login; anything else ("//evil.com", "https://...") goes home
+export function getSafeRedirect(value: string | null): string {
+  if (!value || !value.startsWith("/") || value.startsWith("//") || value.startsWith("/\\")) return "/";
+  return value.startsWith(LOGIN_PATH) ? "/" : value;
+}
@@ -0,0 +1,15 @@
+import { afterEach, vi } from "vitest";
+import { cleanup } from "@testing-library/react";
+import { notifyManager } from "@tanstack/react-query";
+
+// Cache updates reach components right away instead of on the next tick, so they land inside act()
+notifyManager.setScheduler((callback) => callback());
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  vi.clearAllMocks();
+});
+
+// The hooks log every step; keep test output readable
+vi.spyOn(console, "log").mockImplementation(() => {});